@@ -0,0 +1,138 @@
+// Checks the bundled question bank, plus any CSV / GIFT / Moodle XML / JSON
+// banks passed as arguments, against the schema and the rules in
+// src/game/data/questionValidation.ts.
+//
+//   bun run lint:questions [bank files...]
+import {
+    formatQuestionIssue,
+    validateQuestionData,
+} from './src/game/data/questionValidation';
+import {
+    detectQuestionBankFormat,
+    importQuestionBank,
+} from './src/game/data/questionBank';
+
+const BUNDLED_BANK = 'src/game/data/quizQuestions.json';
+
+interface LintReport {
+    ids: string[]; // Ids of the questions that passed
+    errors: number;
+}
+
+/**
+ * Line of each top-level array element in a JSON file, so problems can be
+ * reported by line rather than by index
+ */
+const findElementLines = (text: string): number[] => {
+    const lines: number[] = [];
+    let line = 1;
+    let depth = 0;
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\n') line++;
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+        } else if (char === '[' || char === '{') {
+            if (depth === 1) lines.push(line);
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+        }
+    }
+    return lines;
+};
+
+const lintJsonBank = (file: string, text: string): LintReport => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        console.error(`${file}: Invalid JSON: ${(error as Error).message}`);
+        return { ids: [], errors: 1 };
+    }
+    if (!Array.isArray(data)) {
+        console.error(`${file}: Expected an array of questions`);
+        return { ids: [], errors: 1 };
+    }
+
+    const elementLines = findElementLines(text);
+    const { questions, issues } = validateQuestionData(data);
+    issues.forEach(issue => {
+        const line = elementLines[issue.index] ?? 1;
+        console.error(formatQuestionIssue(`${file}:${line}`, issue));
+    });
+    return { ids: questions.map(q => q.id), errors: issues.length };
+};
+
+const lintImportedBank = (file: string, text: string): LintReport => {
+    const format = detectQuestionBankFormat(file);
+    if (!format) {
+        console.error(
+            `${file}: Not a JSON, CSV, GIFT (.gift/.txt) or Moodle XML file`
+        );
+        return { ids: [], errors: 1 };
+    }
+
+    const { questions, errors } = importQuestionBank(text, format);
+    errors.forEach(issue => {
+        console.error(`${file}:${issue.line} ${issue.message}`);
+    });
+    return { ids: questions.map(q => q.id), errors: errors.length };
+};
+
+const main = async (): Promise<void> => {
+    const files = [BUNDLED_BANK, ...process.argv.slice(2)];
+    const seenIds = new Map<string, string>(); // Id -> file that defined it
+    let totalQuestions = 0;
+    let totalErrors = 0;
+
+    for (const file of files) {
+        const bankFile: Bun.BunFile = Bun.file(file);
+        if (!(await bankFile.exists())) {
+            console.error(`${file}: File not found`);
+            totalErrors++;
+            continue;
+        }
+
+        const text = await bankFile.text();
+        const report = file.toLowerCase().endsWith('.json')
+            ? lintJsonBank(file, text)
+            : lintImportedBank(file, text);
+
+        // Imported banks replace earlier questions with the same id, which is
+        // allowed but worth knowing about
+        report.ids.forEach(id => {
+            const previous = seenIds.get(id);
+            if (previous) {
+                console.warn(
+                    `${file}: "${id}" replaces the one in ${previous}`
+                );
+            }
+            seenIds.set(id, file);
+        });
+
+        totalQuestions += report.ids.length;
+        totalErrors += report.errors;
+    }
+
+    const summary = `${totalQuestions} valid question${totalQuestions === 1 ? '' : 's'} in ${files.length} bank${files.length === 1 ? '' : 's'}`;
+    if (totalErrors > 0) {
+        console.error(
+            `${summary}, ${totalErrors} problem${totalErrors === 1 ? '' : 's'}`
+        );
+        process.exit(1);
+    }
+    console.log(`${summary}, no problems`);
+};
+
+main().catch(error => {
+    console.error('Question lint failed:', error);
+    process.exit(1);
+});
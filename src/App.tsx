@@ -4,10 +4,19 @@ import PhaserGame, { PhaserGameRef } from '@/game/PhaserGame';
 import EventBus from '@/game/EventBus';
 import { GameUI } from '@/components/GameUI';
 import { MobileControls } from '@/components/MobileControls';
+import { VirtualJoystick } from '@/components/VirtualJoystick';
+import storageService from '@/services/StorageService';
+import {
+    DEFAULT_TOUCH_CONTROLS,
+    TouchControls,
+    toTouchControls,
+} from '@/game/data/controls';
+import { SettingsPayload } from '@/game/events';
 import {
     registerEventHandlers,
     unregisterEventHandlers,
     COMMON_EVENTS,
+    EventHandler,
 } from '@/game/utils/eventUtils'; // Import event utilities
 
 function App() {
@@ -16,6 +25,9 @@ function App() {
     const [, setCurrentScene] = useState<string>('MainMenu');
     const [isGameInputActive, setIsGameInputActive] = useState<boolean>(true);
     const [isGameActive, setIsGameActive] = useState<boolean>(false);
+    const [touchControls, setTouchControls] = useState<TouchControls>(
+        DEFAULT_TOUCH_CONTROLS
+    );
 
     // Check for touch device on component mount (client-side only)
     useEffect(() => {
@@ -24,27 +36,46 @@ function App() {
         setIsTouchDevice(checkForTouch());
 
         // Track current Phaser scene and whether input is active
-        const handleSceneChanged = (...args: unknown[]) => {
-            const sceneName = args[0] as string;
+        const handleSceneChanged = (sceneName: string) => {
             setCurrentScene(sceneName);
         };
-        const handleInputActive = (...args: unknown[]) => {
-            const isActive = args[0] as boolean;
+        const handleInputActive = (isActive: boolean) => {
             setIsGameInputActive(isActive);
         };
-        const handleGameActive = (...args: unknown[]) => {
-            const isActive = args[0] as boolean;
+        const handleGameActive = (isActive: boolean) => {
             setIsGameActive(isActive);
+            if (!isActive) return;
+            // Pick up the on-screen controls chosen before this run
+            storageService
+                .getProgress()
+                .then(progress => {
+                    setTouchControls(
+                        toTouchControls(progress?.settings?.touchControls)
+                    );
+                })
+                .catch(error => {
+                    console.error('Failed to load touch controls:', error);
+                });
+        };
+        // Controls changed from Settings while the run is paused
+        const handleSettingsChanged = ({
+            touchControls: changed,
+        }: SettingsPayload) => {
+            if (changed) setTouchControls(toTouchControls(changed));
         };
 
         // Register event handlers using utility
-        const eventHandlers = [
+        const eventHandlers: EventHandler[] = [
             { event: COMMON_EVENTS.SCENE_CHANGED, handler: handleSceneChanged },
             {
                 event: COMMON_EVENTS.GAME_SET_INPUT_ACTIVE,
                 handler: handleInputActive,
             },
             { event: COMMON_EVENTS.UI_GAME_ACTIVE, handler: handleGameActive },
+            {
+                event: COMMON_EVENTS.SETTINGS_CHANGED,
+                handler: handleSettingsChanged,
+            },
         ];
         registerEventHandlers(eventHandlers);
 
@@ -72,10 +103,16 @@ function App() {
             {/* React UI Overlay Component */}
             <GameUI listenTo={EventBus} />
 
-            {/* Conditionally render Mobile Controls */}
-            {isTouchDevice && isGameActive && isGameInputActive && (
-                <MobileControls />
-            )}
+            {/* Conditionally render the chosen touch controls (Tap to Fly
+                needs no overlay: the garden itself is the control) */}
+            {isTouchDevice &&
+                isGameActive &&
+                isGameInputActive &&
+                (touchControls === 'Joystick' ? (
+                    <VirtualJoystick />
+                ) : touchControls === 'D-Pad' ? (
+                    <MobileControls />
+                ) : null)}
         </div>
     );
 }
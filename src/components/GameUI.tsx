@@ -6,14 +6,59 @@ import gsap from 'gsap';
 import {
     registerEventHandlers,
     unregisterEventHandlers,
+    EventHandler,
     COMMON_EVENTS,
 } from '@/game/utils/eventUtils'; // Import event utilities
+import { AchievementPayload } from '@/game/events';
 import { useGSAP } from '@gsap/react';
 
 interface GameUIProps {
     listenTo: Phaser.Events.EventEmitter | null;
 }
 
+// How long an achievement toast stays on screen
+const TOAST_DURATION_MS = 4000;
+
+// A single "Achievement unlocked" toast that slides in when mounted
+const AchievementToast: React.FC<{ achievement: AchievementPayload }> = ({
+    achievement,
+}) => {
+    const toastRef = useRef<HTMLDivElement>(null);
+
+    useGSAP(
+        () => {
+            gsap.from(toastRef.current, {
+                y: -24,
+                opacity: 0,
+                duration: 0.4,
+                ease: 'back.out(1.7)',
+            });
+        },
+        { scope: toastRef }
+    );
+
+    return (
+        <div
+            ref={toastRef}
+            className="pill flex items-center gap-3 text-white border border-yellow-300/60"
+            role="status"
+        >
+            <span className="text-3xl" aria-hidden="true">
+                {achievement.icon}
+            </span>
+            <div className="text-left leading-tight">
+                <div className="text-xs uppercase tracking-wide text-yellow-300">
+                    Achievement unlocked
+                </div>
+                <div className="font-luckiest text-lg">{achievement.title}</div>
+                <div className="text-sm font-normal text-slate-200">
+                    {achievement.description}
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // Helper function to format seconds into MM:SS
 const formatTime = (totalSeconds: number): string => {
     const minutes = Math.floor(totalSeconds / 60);
@@ -33,6 +78,8 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
     const [remainingTime, setRemainingTime] = useState<number>(60); // Default to 60 seconds
     // Game scene state
     const [isGameSceneActive, setIsGameSceneActive] = useState<boolean>(false);
+    // Achievements unlocked in the last few seconds, oldest first
+    const [toasts, setToasts] = useState<AchievementPayload[]>([]);
 
     // Refs
     const containerRef = useRef<HTMLDivElement>(null);
@@ -42,6 +89,7 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
     const timerDisplayRef = useRef<HTMLDivElement>(null); // Ref for the game timer display
     const scoreTweenProxy = useRef({ value: 0 });
     const modalTimeoutIdRef = useRef<NodeJS.Timeout | null>(null);
+    const toastTimeoutIdsRef = useRef<NodeJS.Timeout[]>([]);
     // Ref to track visibility state accurately for cleanup, avoiding stale closures
     const isModalVisibleOnCleanup = useRef(isModalVisible);
 
@@ -165,15 +213,13 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
             return;
         }
 
-        const handleScoreUpdate = (...args: unknown[]) => {
-            const newScore = args[0] as number;
+        const handleScoreUpdate = (newScore: number) => {
             setTargetScore(newScore);
             // When we get a score update, it indicates game scene is active
             setIsGameSceneActive(true);
         };
 
-        const handleShowFactModal = (...args: unknown[]) => {
-            const fact = args[0] as string;
+        const handleShowFactModal = (fact: string) => {
             setModalFact(fact);
             setIsModalVisible(true); // Show modal & trigger animations
             if (modalTimeoutIdRef.current)
@@ -182,7 +228,7 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
                 // Set new timer
                 setIsModalVisible(false); // Hide modal & trigger animations after timeout
                 // setModalFact(""); // Clear fact after animation out if needed
-                EventBus.emit('ui:modal-closed'); // Notify game
+                EventBus.emit(COMMON_EVENTS.UI_MODAL_CLOSED); // Notify game
                 modalTimeoutIdRef.current = null;
             }, 10000); // 10 seconds
         };
@@ -195,7 +241,7 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
                 modalTimeoutIdRef.current = null;
                 // Use the REF to check if modal was visible when force hide was called
                 if (isModalVisibleOnCleanup.current) {
-                    EventBus.emit('ui:modal-closed'); // Notify game immediately
+                    EventBus.emit(COMMON_EVENTS.UI_MODAL_CLOSED); // Notify game immediately
                 }
             }
             setIsModalVisible(false); // Trigger animation out
@@ -203,16 +249,28 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
         };
 
         // Handler for game timer updates
-        const handleTimerUpdate = (...args: unknown[]) => {
-            const time = args[0] as number;
+        const handleTimerUpdate = (time: number) => {
             setRemainingTime(Math.max(0, time)); // Update state, ensuring non-negative
             // When we get a timer update, it indicates game scene is active
             setIsGameSceneActive(true);
         };
 
+        // Handler for achievement unlocks: show a toast for a few seconds
+        const handleAchievementUnlocked = (achievement: AchievementPayload) => {
+            setToasts(current => [...current, achievement]);
+            const timeoutId = setTimeout(() => {
+                setToasts(current =>
+                    current.filter(toast => toast.id !== achievement.id)
+                );
+                toastTimeoutIdsRef.current = toastTimeoutIdsRef.current.filter(
+                    id => id !== timeoutId
+                );
+            }, TOAST_DURATION_MS);
+            toastTimeoutIdsRef.current.push(timeoutId);
+        };
+
         // Handler for scene changes - NEW
-        const handleSceneActivation = (...args: unknown[]) => {
-            const scene = args[0] as string;
+        const handleSceneActivation = (scene: string) => {
             // Only show UI elements during Game scene
             setIsGameSceneActive(scene === 'Game');
         };
@@ -225,11 +283,12 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
         setIsModalVisible(false);
         setRemainingTime(60); // Reset timer display
         setIsGameSceneActive(false); // Reset game scene state
+        setToasts([]);
 
         // Register event handlers using utility
-        const eventHandlers = [
+        const eventHandlers: EventHandler[] = [
             { event: COMMON_EVENTS.UPDATE_SCORE, handler: handleScoreUpdate },
-            { event: 'show-fact', handler: handleShowFactModal },
+            { event: COMMON_EVENTS.SHOW_FACT, handler: handleShowFactModal },
             { event: COMMON_EVENTS.UI_HIDE_MODAL, handler: forceHideModal },
             {
                 event: COMMON_EVENTS.UI_UPDATE_TIMER,
@@ -239,12 +298,18 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
                 event: COMMON_EVENTS.SCENE_CHANGED,
                 handler: handleSceneActivation,
             },
+            {
+                event: COMMON_EVENTS.ACHIEVEMENT_UNLOCKED,
+                handler: handleAchievementUnlocked,
+            },
         ];
         registerEventHandlers(eventHandlers);
 
         // Cleanup Function
         return () => {
             unregisterEventHandlers(eventHandlers);
+            toastTimeoutIdsRef.current.forEach(clearTimeout);
+            toastTimeoutIdsRef.current = [];
 
             // Clear timeout on unmount or dependency change
             if (modalTimeoutIdRef.current) {
@@ -252,7 +317,7 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
                 // Use the REF value captured by THIS cleanup closure
                 // to correctly determine if the modal WAS visible when cleanup runs.
                 if (isModalVisibleOnCleanup.current) {
-                    EventBus.emit('ui:modal-closed'); // Ensure game input is re-enabled
+                    EventBus.emit(COMMON_EVENTS.UI_MODAL_CLOSED); // Ensure game input is re-enabled
                 }
             }
         };
@@ -273,6 +338,16 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
                         <span className="sr-only">Score:</span>
                         {displayScore}
                     </div>
+                    <button
+                        type="button"
+                        className="pill pointer-events-auto cursor-pointer animate-[fadeIn_400ms_ease]"
+                        aria-label="Pause game"
+                        onClick={() =>
+                            EventBus.emit(COMMON_EVENTS.GAME_REQUEST_PAUSE)
+                        }
+                    >
+                        ❚❚
+                    </button>
                     <div
                         ref={timerDisplayRef}
                         className="pill min-w-[120px] text-center animate-[fadeIn_400ms_ease]"
@@ -285,6 +360,19 @@ export const GameUI: React.FC<GameUIProps> = ({ listenTo }) => {
                 </div>
             )}
 
+            {/* Achievement unlock toasts - shown over any scene */}
+            <div
+                className="absolute top-20 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 z-40"
+                aria-live="polite"
+            >
+                {toasts.map(achievement => (
+                    <AchievementToast
+                        key={achievement.id}
+                        achievement={achievement}
+                    />
+                ))}
+            </div>
+
             {/* Full Screen Modal for Facts */}
             <div
                 ref={modalOverlayRef}
@@ -1,8 +1,9 @@
 // src/components/MobileControls.tsx
 import React, { useState, PointerEvent } from 'react';
 import EventBus from '@/game/EventBus'; // Use the global EventBus
+import { COMMON_EVENTS, DpadPayload } from '@/game/events';
 
-type DPadDirection = 'up' | 'down' | 'left' | 'right';
+type DPadDirection = DpadPayload['direction'];
 
 export const MobileControls: React.FC = () => {
     // State to track which button is actively pressed for styling
@@ -19,7 +20,7 @@ export const MobileControls: React.FC = () => {
         // Capture the pointer to ensure pointerup is received even if cursor moves off
         (e.target as HTMLButtonElement).setPointerCapture(e.pointerId);
         setPressedButton(direction);
-        EventBus.emit('dpad', { direction, active: true });
+        EventBus.emit(COMMON_EVENTS.DPAD, { direction, active: true });
     };
 
     const handlePointerUp = (
@@ -32,7 +33,7 @@ export const MobileControls: React.FC = () => {
         // Only deactivate if this is the currently pressed button
         if (pressedButton === direction) {
             setPressedButton(null);
-            EventBus.emit('dpad', { direction, active: false });
+            EventBus.emit(COMMON_EVENTS.DPAD, { direction, active: false });
         }
     };
 
@@ -40,7 +41,7 @@ export const MobileControls: React.FC = () => {
     const handlePointerCancel = (direction: DPadDirection) => {
         if (pressedButton === direction) {
             setPressedButton(null);
-            EventBus.emit('dpad', { direction, active: false });
+            EventBus.emit(COMMON_EVENTS.DPAD, { direction, active: false });
         }
     };
 
@@ -95,9 +96,9 @@ export const MobileControls: React.FC = () => {
 
     return (
         <div className="pointer-events-none select-none absolute bottom-4 left-4 md:bottom-6 md:left-6 w-44 h-44 md:w-40 md:h-40 grid grid-cols-3 grid-rows-3 gap-2 opacity-95 hover:opacity-100 transition-opacity z-20 safe-left safe-bottom touch-none">
-        <button
+            <button
                 {...getButtonHandlers('up')}
-            className={`${getButtonClassName('up')} col-start-2 row-start-1`}
+                className={`${getButtonClassName('up')} col-start-2 row-start-1`}
                 aria-label="Move Up"
             >
                 <ArrowIcon direction="up" />
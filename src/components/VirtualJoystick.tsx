@@ -0,0 +1,120 @@
+// src/components/VirtualJoystick.tsx
+import React, { useEffect, useRef, useState, PointerEvent } from 'react';
+import EventBus from '@/game/EventBus'; // Use the global EventBus
+import { COMMON_EVENTS, JoystickPayload } from '@/game/events';
+
+// How far (px) the knob travels from the base; pushing this far is full speed
+const JOYSTICK_RADIUS = 48;
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+const clampAxis = (value: number) => Math.min(1, Math.max(-1, value));
+
+// Emits the knob's offset as a vector with a length of at most 1
+const emitVector = (vector: JoystickPayload) => {
+    EventBus.emit(COMMON_EVENTS.JOYSTICK, vector);
+};
+
+/**
+ * A floating analog joystick: the base appears wherever a finger lands in
+ * the lower-left of the screen, and the knob's distance from it sets the
+ * bee's speed as well as its direction.
+ */
+export const VirtualJoystick: React.FC = () => {
+    // Where the current touch started, relative to the zone
+    const [origin, setOrigin] = useState<Point | null>(null);
+    const [knob, setKnob] = useState<Point>({ x: 0, y: 0 });
+    const pointerId = useRef<number | null>(null);
+
+    // Let go if the joystick disappears mid-touch (e.g. a fact opens)
+    useEffect(() => {
+        return () => emitVector({ x: 0, y: 0 });
+    }, []);
+
+    const getLocalPoint = (e: PointerEvent<HTMLDivElement>): Point => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const moveKnob = (from: Point, to: Point) => {
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const distance = Math.hypot(dx, dy);
+        const scale =
+            distance > JOYSTICK_RADIUS ? JOYSTICK_RADIUS / distance : 1;
+        const offset = { x: dx * scale, y: dy * scale };
+        setKnob(offset);
+        // Clamped, as rounding can land a hair past 1 at the rim
+        emitVector({
+            x: clampAxis(offset.x / JOYSTICK_RADIUS),
+            y: clampAxis(offset.y / JOYSTICK_RADIUS),
+        });
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        // Prevent default actions like text selection or drag
+        e.preventDefault();
+        if (pointerId.current !== null) return; // Already steering
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointerId.current = e.pointerId;
+        setOrigin(getLocalPoint(e));
+        setKnob({ x: 0, y: 0 });
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (e.pointerId !== pointerId.current || !origin) return;
+        e.preventDefault();
+        moveKnob(origin, getLocalPoint(e));
+    };
+
+    // Also handles unexpected pointer cancellation
+    const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        if (e.pointerId !== pointerId.current) return;
+        e.preventDefault();
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        pointerId.current = null;
+        setOrigin(null);
+        setKnob({ x: 0, y: 0 });
+        emitVector({ x: 0, y: 0 });
+    };
+
+    return (
+        <div
+            className="pointer-events-auto select-none absolute bottom-0 left-0 w-1/2 h-1/2 z-20 safe-left safe-bottom touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            // Prevent context menu on long press
+            onContextMenu={e => e.preventDefault()}
+            aria-label="Joystick: touch and drag to fly"
+        >
+            <div
+                className={
+                    `absolute w-24 h-24 -translate-x-1/2 -translate-y-1/2 rounded-full ` +
+                    `border border-white/20 bg-zinc-900/50 backdrop-blur-sm shadow-lg shadow-black/40 ` +
+                    `transition-opacity duration-150 ${origin ? 'opacity-95' : 'opacity-40'}`
+                }
+                // At rest, a faint base near the corner hints where to touch
+                style={
+                    origin
+                        ? { left: origin.x, top: origin.y }
+                        : { left: 96, bottom: 0 }
+                }
+                aria-hidden="true"
+            >
+                <div
+                    className="absolute left-1/2 top-1/2 w-12 h-12 -ml-6 -mt-6 rounded-full bg-gradient-to-br from-zinc-600/95 to-zinc-800/95 border border-white/30 shadow-md shadow-black/50"
+                    style={{
+                        transform: `translate(${knob.x}px, ${knob.y}px)`,
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
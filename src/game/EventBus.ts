@@ -1,6 +1,51 @@
 import { Events } from 'phaser';
+import {
+    EVENT_SCHEMAS,
+    EventArgs,
+    EventListener,
+    EventName,
+    validateEventArgs,
+} from './events';
+
+/**
+ * EventEmitter whose event names and payloads are checked against the
+ * event map in `events.ts`: at compile time through the signatures, and at
+ * runtime (development only) through the zod schemas.
+ */
+class TypedEventBus extends Events.EventEmitter {
+    emit<K extends EventName>(event: K, ...args: EventArgs<K>): boolean {
+        validateEventArgs(EVENT_SCHEMAS, event, args);
+        return super.emit(event, ...args);
+    }
+
+    on<K extends EventName>(
+        event: K,
+        fn: EventListener<K>,
+        context?: unknown
+    ): this {
+        return super.on(event, fn, context);
+    }
+
+    once<K extends EventName>(
+        event: K,
+        fn: EventListener<K>,
+        context?: unknown
+    ): this {
+        return super.once(event, fn, context);
+    }
+
+    off<K extends EventName>(
+        event: K,
+        fn?: EventListener<K>,
+        context?: unknown,
+        once?: boolean
+    ): this {
+        return super.off(event, fn, context, once);
+    }
+}
 
 // Used to emit events between React components and Phaser scenes
 // https://newdocs.phaser.io/docs/3.70.0/Phaser.Events.EventEmitter
-const EventBus = new Events.EventEmitter();
+const EventBus = new TypedEventBus();
+export type { TypedEventBus };
 export default EventBus;
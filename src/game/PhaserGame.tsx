@@ -7,6 +7,7 @@ import {
     registerEventHandlers,
     unregisterEventHandlers,
     COMMON_EVENTS,
+    EventHandler,
 } from './utils/eventUtils'; // Import event utilities
 
 // Define the PhaserGameRef interface
@@ -46,6 +47,9 @@ const attachStartListener = (
 ) => {
     // Use an anonymous function to properly scope the scene parameter for handleSceneStart
     scene.events.on('start', () => handleSceneStart(scene, currentSceneRef));
+    // Overlays (Pause, Settings from Pause) hand focus back without restarting
+    scene.events.on('resume', () => handleSceneStart(scene, currentSceneRef));
+    scene.events.on('wake', () => handleSceneStart(scene, currentSceneRef));
 };
 
 // Function to setup scene change monitoring
@@ -60,16 +64,16 @@ const setupSceneMonitoring = (
 
 // --- Event Handlers for Game Scene (used in useEffect polling) ---
 const createScoreHandler = () => (score: number) => {
-    EventBus.emit('update-score', score);
+    EventBus.emit(COMMON_EVENTS.UPDATE_SCORE, score);
 };
 
 const createFactHandler = () => (fact: string) => {
-    EventBus.emit('game:set-input-active', false);
-    EventBus.emit('show-fact', fact);
+    EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, false);
+    EventBus.emit(COMMON_EVENTS.SHOW_FACT, fact);
 };
 
 const createTimerHandler = () => (time: number) => {
-    EventBus.emit('ui:update-timer', time);
+    EventBus.emit(COMMON_EVENTS.UI_UPDATE_TIMER, time);
 };
 
 // Function to attach Game scene listeners and return a cleanup function
@@ -85,17 +89,17 @@ const attachGameSceneListeners = (
         );
         return () => {}; // Return no-op cleanup
     }
-    scene.events.on('game:update-score', scoreHandler);
-    scene.events.on('game:show-fact', factHandler);
-    scene.events.on('game:update-timer', timerHandler);
+    scene.events.on(COMMON_EVENTS.GAME_UPDATE_SCORE, scoreHandler);
+    scene.events.on(COMMON_EVENTS.GAME_SHOW_FACT, factHandler);
+    scene.events.on(COMMON_EVENTS.GAME_UPDATE_TIMER, timerHandler);
 
     // Return cleanup function for THESE listeners
     return () => {
         if (scene?.events) {
             try {
-                scene.events.off('game:update-score', scoreHandler);
-                scene.events.off('game:show-fact', factHandler);
-                scene.events.off('game:update-timer', timerHandler);
+                scene.events.off(COMMON_EVENTS.GAME_UPDATE_SCORE, scoreHandler);
+                scene.events.off(COMMON_EVENTS.GAME_SHOW_FACT, factHandler);
+                scene.events.off(COMMON_EVENTS.GAME_UPDATE_TIMER, timerHandler);
             } catch (e) {
                 console.warn(
                     '[PhaserGame Cleanup Ref] Error removing listeners.',
@@ -136,12 +140,12 @@ export const PhaserGame = forwardRef<PhaserGameRef, PhaserGameProps>(
 
             const handleModalClosed = () => {
                 if (gameRef.current) {
-                    EventBus.emit('game:set-input-active', true);
+                    EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, true);
                 }
             };
 
             // Register event handlers using utility
-            const eventHandlers = [
+            const eventHandlers: EventHandler[] = [
                 {
                     event: COMMON_EVENTS.UI_MODAL_CLOSED,
                     handler: handleModalClosed,
@@ -198,13 +202,17 @@ export const PhaserGame = forwardRef<PhaserGameRef, PhaserGameProps>(
                 }
 
                 const gameSceneInstance = game.scene.getScene('Game');
-                const isGameSceneActive =
+                const isGameSceneRunning =
                     gameSceneInstance?.scene.isActive('Game');
+                // A paused run (pause menu open) is still the current game
+                const isGameSceneActive =
+                    isGameSceneRunning ||
+                    gameSceneInstance?.scene.isPaused('Game');
 
-                // Emit UI signal for scene active state
+                // Emit UI signal for scene active state (hides touch controls while paused)
                 EventBus.emit(
                     COMMON_EVENTS.UI_GAME_ACTIVE,
-                    Boolean(isGameSceneActive)
+                    Boolean(isGameSceneRunning)
                 );
 
                 // Attach listeners when Game scene becomes active
@@ -0,0 +1,138 @@
+// src/game/data/achievements.ts
+import FLOWERS from './flowerTypes';
+
+/**
+ * What an achievement is measured against. Lifetime stats are saved per
+ * profile; `gamePollinations` and `wave` start over with each game.
+ */
+export type AchievementStat =
+    | 'pollinations'
+    | 'gamePollinations'
+    | 'wave'
+    | 'perfectChallenges'
+    | 'speciesDiscovered'
+    | 'quizStreak';
+
+// Stats that start over with each game, so there's no progress to show
+export const PER_GAME_STATS: AchievementStat[] = ['gamePollinations', 'wave'];
+
+export interface AchievementDefinition {
+    id: string; // Saved with the unlock, so never rename one
+    title: string;
+    description: string;
+    icon: string;
+    stat: AchievementStat;
+    goal: number; // Unlocks once the stat reaches this
+}
+
+// A bonus challenge is perfect when answered correctly with at least this
+// share of the answer time left
+export const PERFECT_CHALLENGE_TIME_LEFT = 0.5;
+
+// Shown in this order in the trophy room
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+    {
+        id: 'first_pollination',
+        title: 'First Flight',
+        description: 'Pollinate your first flower',
+        icon: '🌼',
+        stat: 'pollinations',
+        goal: 1,
+    },
+    {
+        id: 'busy_bee',
+        title: 'Busy Bee',
+        description: 'Pollinate 100 flowers',
+        icon: '🐝',
+        stat: 'pollinations',
+        goal: 100,
+    },
+    {
+        id: 'pollen_pro',
+        title: 'Pollen Pro',
+        description: 'Pollinate 500 flowers',
+        icon: '🏅',
+        stat: 'pollinations',
+        goal: 500,
+    },
+    {
+        id: 'flower_frenzy',
+        title: 'Flower Frenzy',
+        description: 'Pollinate 30 flowers in one game',
+        icon: '⚡',
+        stat: 'gamePollinations',
+        goal: 30,
+    },
+    {
+        id: 'wave_rider',
+        title: 'Wave Rider',
+        description: 'Reach wave 3',
+        icon: '🌊',
+        stat: 'wave',
+        goal: 3,
+    },
+    {
+        id: 'garden_guardian',
+        title: 'Garden Guardian',
+        description: 'Reach wave 5',
+        icon: '🛡️',
+        stat: 'wave',
+        goal: 5,
+    },
+    {
+        id: 'endless_spring',
+        title: 'Endless Spring',
+        description: 'Reach wave 10',
+        icon: '🌸',
+        stat: 'wave',
+        goal: 10,
+    },
+    {
+        id: 'sharp_eye',
+        title: 'Sharp Eye',
+        description: 'Ace a bonus challenge with half the time to spare',
+        icon: '🎯',
+        stat: 'perfectChallenges',
+        goal: 1,
+    },
+    {
+        id: 'quiz_whiz',
+        title: 'Quiz Whiz',
+        description: 'Ace 10 bonus challenges with half the time to spare',
+        icon: '🧠',
+        stat: 'perfectChallenges',
+        goal: 10,
+    },
+    {
+        id: 'on_a_roll',
+        title: 'On a Roll',
+        description: 'Answer 3 bonus questions right in a row',
+        icon: '🔥',
+        stat: 'quizStreak',
+        goal: 3,
+    },
+    {
+        id: 'unstoppable',
+        title: 'Unstoppable',
+        description: 'Answer 10 bonus questions right in a row',
+        icon: '🏆',
+        stat: 'quizStreak',
+        goal: 10,
+    },
+    {
+        id: 'budding_botanist',
+        title: 'Budding Botanist',
+        description: 'Discover 5 species for your Garden Journal',
+        icon: '📖',
+        stat: 'speciesDiscovered',
+        goal: 5,
+    },
+    {
+        id: 'master_botanist',
+        title: 'Master Botanist',
+        description: 'Discover every species in the Garden Journal',
+        icon: '👑',
+        stat: 'speciesDiscovered',
+        goal: FLOWERS.length,
+    },
+];
@@ -0,0 +1,129 @@
+// src/game/data/controls.ts
+import { z } from 'zod';
+
+export const DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+export type Direction = (typeof DIRECTIONS)[number];
+
+// Where the bee is steered this frame: each axis from -1 to 1, with a
+// length of at most 1 (full speed)
+export interface MovementVector {
+    x: number;
+    y: number;
+}
+
+// Key names (as in Phaser.Input.Keyboard.KeyCodes) for each direction: a
+// main key and an alternate
+export const KeyBindingsSchema = z.object({
+    up: z.array(z.string()),
+    down: z.array(z.string()),
+    left: z.array(z.string()),
+    right: z.array(z.string()),
+});
+export type KeyBindings = z.infer<typeof KeyBindingsSchema>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    up: ['UP', 'W'],
+    down: ['DOWN', 'S'],
+    left: ['LEFT', 'A'],
+    right: ['RIGHT', 'D'],
+};
+
+// Keys the game already uses, which can't steer the bee
+export const RESERVED_KEYS = ['ESC'];
+
+// On-screen controls for touch devices: a floating analog joystick, the
+// four-button D-pad, or no overlay at all and the bee flies to where the
+// garden is tapped
+export const TOUCH_CONTROLS = ['Joystick', 'D-Pad', 'Tap to Fly'] as const;
+export type TouchControls = (typeof TOUCH_CONTROLS)[number];
+export const DEFAULT_TOUCH_CONTROLS: TouchControls = 'Joystick';
+
+// Start on the standard gamepad layout, which pauses like Escape
+export const GAMEPAD_START_BUTTON = 9;
+
+// Stick travel ignored around the center, so a worn stick doesn't drift
+export const STICK_DEADZONE = 0.2;
+
+// Within this many pixels of the pointer the bee slows down, so it settles
+// on the spot instead of overshooting
+export const POINTER_SLOWDOWN_RADIUS = 80;
+
+// Reads stored bindings, falling back to the defaults for missing ones
+export function toKeyBindings(
+    value: Partial<KeyBindings> | undefined
+): KeyBindings {
+    return {
+        up: value?.up ?? DEFAULT_KEY_BINDINGS.up,
+        down: value?.down ?? DEFAULT_KEY_BINDINGS.down,
+        left: value?.left ?? DEFAULT_KEY_BINDINGS.left,
+        right: value?.right ?? DEFAULT_KEY_BINDINGS.right,
+    };
+}
+
+// Reads a stored touch controls choice, falling back to the default
+export function toTouchControls(value: string | undefined): TouchControls {
+    return (
+        TOUCH_CONTROLS.find(controls => controls === value) ??
+        DEFAULT_TOUCH_CONTROLS
+    );
+}
+
+// Binds a key to a direction slot, taking it off any other slot first
+export function bindKey(
+    bindings: KeyBindings,
+    direction: Direction,
+    slot: number,
+    key: string
+): KeyBindings {
+    const updated = toKeyBindings(bindings);
+    DIRECTIONS.forEach(d => {
+        updated[d] = updated[d].map(bound => (bound === key ? '' : bound));
+    });
+    updated[direction] = [...updated[direction]];
+    updated[direction][slot] = key;
+    return updated;
+}
+
+// How a key name is shown to players
+export function getKeyLabel(key: string | undefined): string {
+    const arrows: Record<string, string> = {
+        UP: '↑',
+        DOWN: '↓',
+        LEFT: '←',
+        RIGHT: '→',
+    };
+    if (!key) return '—';
+    if (arrows[key]) return arrows[key];
+    // e.g. NUMPAD_EIGHT -> Numpad Eight
+    return key
+        .toLowerCase()
+        .split('_')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+}
+
+/**
+ * Scales a stick reading so movement starts at the edge of the deadzone
+ * and reaches full speed at the rim. Measured on the stick's distance from
+ * center, so diagonals stay proportional.
+ */
+export function applyDeadzone(
+    x: number,
+    y: number,
+    deadzone: number = STICK_DEADZONE
+): MovementVector {
+    const length = Math.hypot(x, y);
+    if (length <= deadzone) return { x: 0, y: 0 };
+    const scaled = Math.min(1, (length - deadzone) / (1 - deadzone));
+    return { x: (x / length) * scaled, y: (y / length) * scaled };
+}
+
+// A digital (key or button) direction at full speed, diagonals included
+export function toDigitalVector(
+    held: Record<Direction, boolean>
+): MovementVector {
+    const x = (held.right ? 1 : 0) - (held.left ? 1 : 0);
+    const y = (held.down ? 1 : 0) - (held.up ? 1 : 0);
+    const length = Math.hypot(x, y);
+    return length === 0 ? { x: 0, y: 0 } : { x: x / length, y: y / length };
+}
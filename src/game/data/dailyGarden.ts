@@ -0,0 +1,62 @@
+// src/game/data/dailyGarden.ts
+import { DifficultyLevel } from './difficulty';
+
+// Everyone plays the Daily Garden on the same difficulty, so the waves match
+export const DAILY_DIFFICULTY: DifficultyLevel = 'Normal';
+
+// Local day as YYYY-MM-DD (the Daily Garden changes at local midnight)
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Midnight (local time) of a YYYY-MM-DD day
+export function fromDateKey(dateKey: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+function addDays(dateKey: string, days: number): string {
+    const date = fromDateKey(dateKey);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+}
+
+/**
+ * The seed for a day's garden: its date as a number (e.g. 20261019), so
+ * every player gets the same one
+ */
+export function getDailySeed(dateKey: string): number {
+    return Number(dateKey.replace(/-/g, ''));
+}
+
+/**
+ * Days in a row with a Daily Garden attempt. The current streak still
+ * counts yesterday's run until today's is played.
+ * @param playedDays YYYY-MM-DD days with an attempt, in any order
+ * @param today Today's YYYY-MM-DD
+ */
+export function getDailyStreak(
+    playedDays: string[],
+    today: string
+): { current: number; best: number } {
+    const played = new Set(playedDays);
+
+    let current = 0;
+    let day = played.has(today) ? today : addDays(today, -1);
+    while (played.has(day)) {
+        current++;
+        day = addDays(day, -1);
+    }
+
+    let best = 0;
+    played.forEach(start => {
+        if (played.has(addDays(start, -1))) return; // Not the start of a run
+        let length = 0;
+        for (let d = start; played.has(d); d = addDays(d, 1)) length++;
+        best = Math.max(best, length);
+    });
+
+    return { current, best };
+}
@@ -0,0 +1,91 @@
+// src/game/data/difficulty.ts
+import { QuizQuestion } from './quizData';
+
+// Difficulty levels offered in Settings
+export const DIFFICULTY_LEVELS = ['Easy', 'Normal', 'Hard'] as const;
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+// The original tuning, which every run played before difficulty profiles
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 'Normal';
+
+// Gameplay parameters that change with the difficulty setting
+export interface DifficultyProfile {
+    gameDuration: number; // Seconds
+    beeSpeed: number; // Pixels per second
+    // Wave growth: flowers per color and colors on screen both step up
+    // every `wavesPerStep` waves, up to their caps
+    baseFlowersPerColor: number;
+    maxFlowersPerColor: number;
+    startingColors: number;
+    maxColors: number;
+    wavesPerStep: number;
+    // Bonus challenge timing (milliseconds)
+    firstChallengeDelay: { min: number; max: number };
+    challengeDelay: { min: number; max: number };
+    challengeAnswerTime: number; // Time to answer once the flowers are live
+    // Quiz difficulty tiers bonus questions are drawn from
+    quizTiers: QuizQuestion['difficulty'][];
+}
+
+export const DIFFICULTY_PROFILES: Record<DifficultyLevel, DifficultyProfile> = {
+    // Younger classes: longer rounds, a slower bee and gentler waves
+    Easy: {
+        gameDuration: 90,
+        beeSpeed: 210,
+        baseFlowersPerColor: 5,
+        maxFlowersPerColor: 9,
+        startingColors: 2,
+        maxColors: 3,
+        wavesPerStep: 3,
+        firstChallengeDelay: { min: 20000, max: 30000 },
+        challengeDelay: { min: 25000, max: 45000 },
+        challengeAnswerTime: 18000,
+        quizTiers: ['easy', 'medium'],
+    },
+    // The original tuning
+    Normal: {
+        gameDuration: 60,
+        beeSpeed: 250,
+        baseFlowersPerColor: 6,
+        maxFlowersPerColor: 12,
+        startingColors: 2,
+        maxColors: 4,
+        wavesPerStep: 2,
+        firstChallengeDelay: { min: 15000, max: 25000 },
+        challengeDelay: { min: 20000, max: 40000 },
+        challengeAnswerTime: 12000,
+        quizTiers: ['easy', 'medium', 'hard'],
+    },
+    // Older classes: short rounds, a fast bee and busy waves
+    Hard: {
+        gameDuration: 45,
+        beeSpeed: 290,
+        baseFlowersPerColor: 7,
+        maxFlowersPerColor: 14,
+        startingColors: 3,
+        maxColors: 5,
+        wavesPerStep: 1,
+        firstChallengeDelay: { min: 10000, max: 18000 },
+        challengeDelay: { min: 15000, max: 30000 },
+        challengeAnswerTime: 9000,
+        quizTiers: ['medium', 'hard'],
+    },
+};
+
+/**
+ * Normalizes a stored difficulty value, falling back to the default for
+ * missing or unknown values.
+ */
+export function toDifficultyLevel(value: string | undefined): DifficultyLevel {
+    return (
+        DIFFICULTY_LEVELS.find(level => level === value) ?? DEFAULT_DIFFICULTY
+    );
+}
+
+/**
+ * Gets the gameplay profile for a stored difficulty value
+ */
+export function getDifficultyProfile(
+    value: string | undefined
+): DifficultyProfile {
+    return DIFFICULTY_PROFILES[toDifficultyLevel(value)];
+}
@@ -0,0 +1,44 @@
+// src/game/data/flowerDiagram.ts
+
+// Parts of a flower that labeling questions can ask about
+export const DIAGRAM_PART_KEYS = [
+    'petal',
+    'sepal',
+    'anther',
+    'filament',
+    'stigma',
+    'style',
+    'ovary',
+    // Groups: anther + filament, and stigma + style + ovary
+    'stamen',
+    'pistil',
+] as const;
+export type DiagramPart = (typeof DIAGRAM_PART_KEYS)[number];
+
+export interface DiagramPartInfo {
+    label: string;
+    // Marker position relative to the diagram's top-left corner
+    x: number;
+    y: number;
+}
+
+// Cross-section of a flower drawn by DiagramGenerator. Marker positions are
+// shared with BonusChallenge so answers line up with the drawing.
+export const FLOWER_DIAGRAM = {
+    textureKey: 'flower_diagram_generated',
+    width: 300,
+    height: 300,
+    parts: {
+        petal: { label: 'Petal', x: 52, y: 110 },
+        sepal: { label: 'Sepal', x: 100, y: 232 },
+        anther: { label: 'Anther', x: 198, y: 92 },
+        filament: { label: 'Filament', x: 182, y: 178 },
+        stigma: { label: 'Stigma', x: 150, y: 62 },
+        style: { label: 'Style', x: 150, y: 150 },
+        ovary: { label: 'Ovary', x: 150, y: 205 },
+        // On the outlines DiagramGenerator draws around the left stamen and
+        // the pistil, clear of the markers for their parts
+        stamen: { label: 'Stamen', x: 105, y: 150 },
+        pistil: { label: 'Pistil', x: 140, y: 105 },
+    } satisfies Record<DiagramPart, DiagramPartInfo>,
+};
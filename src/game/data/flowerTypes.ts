@@ -1,35 +1,77 @@
 // src/game/data/flowerTypes.ts
 // Flower type definitions for the collection system
+import { SeededRandom } from '../utils/random';
 
 // Define a color object type with hex values
 type FlowerColor = {
     name: string; // Color name
     hex: number; // Hexadecimal color value for Phaser tinting
+    petalHex: number; // Softer, more natural shade used when drawing petals
 };
 
 // Define available flower colors with their hex values
-export const FLOWER_COLORS: { [key: string]: FlowerColor } = {
-    red: { name: 'Red', hex: 0xff0000 },
-    blue: { name: 'Blue', hex: 0x0000ff },
-    yellow: { name: 'Yellow', hex: 0xffff00 },
-    purple: { name: 'Purple', hex: 0x800080 },
-    pink: { name: 'Pink', hex: 0xff69b4 },
-    orange: { name: 'Orange', hex: 0xffa500 },
-    white: { name: 'White', hex: 0xffffff },
-};
+export const FLOWER_COLORS = {
+    red: { name: 'Red', hex: 0xff0000, petalHex: 0xe63946 },
+    blue: { name: 'Blue', hex: 0x0000ff, petalHex: 0x4361ee },
+    yellow: { name: 'Yellow', hex: 0xffff00, petalHex: 0xffd60a },
+    purple: { name: 'Purple', hex: 0x800080, petalHex: 0x9d4edd },
+    pink: { name: 'Pink', hex: 0xff69b4, petalHex: 0xff70a6 },
+    orange: { name: 'Orange', hex: 0xffa500, petalHex: 0xff9f1c },
+    white: { name: 'White', hex: 0xffffff, petalHex: 0xf8f9fa },
+} satisfies Record<string, FlowerColor>;
+
+// Key of an entry in FLOWER_COLORS (e.g. 'red', 'yellow')
+export type FlowerColorKey = keyof typeof FLOWER_COLORS;
+
+// All color keys, in declaration order
+export const FLOWER_COLOR_KEYS = Object.keys(FLOWER_COLORS) as FlowerColorKey[];
+
+// Texture key of the generic generated flower sprite for a color
+export function getFlowerTextureKey(colorType: FlowerColorKey): string {
+    return `flower_${colorType}_generated`;
+}
+
+// Texture key of the generated sprite for a specific species
+export function getSpeciesTextureKey(flowerId: string): string {
+    return `flower_${flowerId}_generated`;
+}
+
+// Pastel tint for the pollen indicator carried by the bee (2/3 of the way to white)
+export function getPollenTint(colorType: FlowerColorKey): number {
+    const hex = FLOWER_COLORS[colorType].hex;
+    const lighten = (channel: number) =>
+        Math.round(channel + ((255 - channel) * 2) / 3);
+    const r = lighten((hex >> 16) & 0xff);
+    const g = lighten((hex >> 8) & 0xff);
+    const b = lighten(hex & 0xff);
+    return (r << 16) | (g << 8) | b;
+}
+
+// Parameters used by FlowerGenerator to draw a species procedurally.
+// Lengths and widths are multipliers of the base petal radius.
+export interface FlowerImageParams {
+    petalLength?: number;
+    petalWidth?: number;
+    numPetals?: number;
+    petalColor?: number; // Defaults to the color's petalHex
+    centerColor?: number;
+    centerOutlineColor?: number;
+    veinColor?: number;
+}
 
 // Define the flower type interface
 export interface FlowerType {
     id: string;
     name: string;
     scientificName: string;
-    colorType: string; // Key from FLOWER_COLORS
+    colorType: FlowerColorKey; // Key from FLOWER_COLORS
     color: number; // Hex color for tinting
     family: string;
     regions: string[];
     facts: string[];
     discovered: boolean;
     collectionCount: number;
+    imageParams?: FlowerImageParams;
 }
 
 // Define the complete flower database
@@ -49,6 +91,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.2,
+            petalWidth: 1.0,
+            numPetals: 8,
+            centerColor: 0x4d3319,
+            centerOutlineColor: 0x231709,
+            veinColor: 0xffd6a5,
+        },
     },
     {
         id: 'blue_cornflower',
@@ -65,6 +115,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.4,
+            petalWidth: 0.7,
+            numPetals: 8,
+            centerColor: 0xffde59,
+            centerOutlineColor: 0x8c7800,
+            veinColor: 0x3a86ff,
+        },
     },
     {
         id: 'yellow_daffodil',
@@ -81,6 +139,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.3,
+            petalWidth: 0.85,
+            numPetals: 6,
+            centerColor: 0xff8c00,
+            centerOutlineColor: 0xb35900,
+            veinColor: 0xfff3b0,
+        },
     },
     {
         id: 'purple_lilac',
@@ -97,6 +163,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.0,
+            petalWidth: 0.9,
+            numPetals: 4,
+            centerColor: 0xf1e4ff,
+            centerOutlineColor: 0x5a189a,
+            veinColor: 0xe0aaff,
+        },
     },
     {
         id: 'pink_cherry_blossom',
@@ -113,6 +187,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.1,
+            petalWidth: 1.0,
+            numPetals: 5,
+            centerColor: 0xc9184a,
+            centerOutlineColor: 0x800f2f,
+            veinColor: 0xffe5ec,
+        },
     },
     {
         id: 'orange_marigold',
@@ -129,6 +211,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.2,
+            petalWidth: 0.6,
+            numPetals: 12,
+            centerColor: 0xb5651d,
+            centerOutlineColor: 0x6f3a0b,
+            veinColor: 0xffd6a5,
+        },
     },
     {
         id: 'white_daisy',
@@ -145,6 +235,14 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.5,
+            petalWidth: 0.45,
+            numPetals: 14,
+            centerColor: 0xffd700,
+            centerOutlineColor: 0x8c7800,
+            veinColor: 0xdee2e6,
+        },
     },
     {
         id: 'red_tulip',
@@ -161,6 +259,87 @@ const FLOWERS: FlowerType[] = [
         ],
         discovered: false,
         collectionCount: 0,
+        imageParams: {
+            petalLength: 1.4,
+            petalWidth: 1.0,
+            numPetals: 3,
+            centerColor: 0x1b1b1b,
+            centerOutlineColor: 0x000000,
+            veinColor: 0xffb3c1,
+        },
+    },
+    {
+        id: 'red_poppy',
+        name: 'Common Poppy',
+        scientificName: 'Papaver rhoeas',
+        colorType: 'red',
+        color: FLOWER_COLORS.red.hex,
+        family: 'Papaveraceae',
+        regions: ['Europe', 'North Africa', 'Western Asia'],
+        facts: [
+            'Poppy seeds can lie dormant in the soil for decades before sprouting',
+            'Poppies offer bees lots of pollen but almost no nectar',
+            'The red poppy is a symbol of remembrance for soldiers',
+        ],
+        discovered: false,
+        collectionCount: 0,
+        imageParams: {
+            petalLength: 1.5,
+            petalWidth: 0.9,
+            numPetals: 4,
+            centerColor: 0x4d3319,
+            centerOutlineColor: 0x231709,
+            veinColor: 0xffd6a5,
+        },
+    },
+    {
+        id: 'blue_bluebell',
+        name: 'Bluebell',
+        scientificName: 'Hyacinthoides non-scripta',
+        colorType: 'blue',
+        color: FLOWER_COLORS.blue.hex,
+        family: 'Asparagaceae',
+        regions: ['Britain', 'Western Europe'],
+        facts: [
+            "Almost half of the world's bluebells grow in the United Kingdom",
+            'Bumblebees sometimes bite holes in bluebells to steal nectar',
+            'Bluebell woods can take hundreds of years to form',
+        ],
+        discovered: false,
+        collectionCount: 0,
+        imageParams: {
+            petalLength: 1.3,
+            petalWidth: 0.75,
+            numPetals: 6,
+            centerColor: 0xfff1c1,
+            centerOutlineColor: 0x8c7800,
+            veinColor: 0x3a86ff,
+        },
+    },
+    {
+        id: 'blue_forget_me_not',
+        name: 'Forget-me-not',
+        scientificName: 'Myosotis sylvatica',
+        colorType: 'blue',
+        color: FLOWER_COLORS.blue.hex,
+        family: 'Boraginaceae',
+        regions: ['Europe', 'Asia', 'North America'],
+        facts: [
+            'Its yellow centre turns white once the flower has been pollinated',
+            'Forget-me-nots are the state flower of Alaska',
+            'A single plant can produce thousands of tiny seeds',
+        ],
+        discovered: false,
+        collectionCount: 0,
+        imageParams: {
+            petalLength: 0.9,
+            petalWidth: 0.95,
+            numPetals: 5,
+            petalColor: 0x6fa8ff,
+            centerColor: 0xffe066,
+            centerOutlineColor: 0xffffff,
+            veinColor: 0xdbe9ff,
+        },
     },
 ];
 
@@ -171,18 +350,111 @@ export function getDiscoveredFlowers(): FlowerType[] {
     return FLOWERS.filter(flower => flower.discovered);
 }
 
+// Mark a species as collected in memory (persistence is handled by StorageService)
+export function markFlowerCollected(id: string): FlowerType | undefined {
+    const flower = getFlowerById(id);
+    if (flower) {
+        flower.discovered = true;
+        flower.collectionCount += 1;
+    }
+    return flower;
+}
+
+// Apply persisted collection progress to the in-memory flower database
+export function applyFlowerCollection(
+    entries: { flowerId: string; collectionCount: number }[]
+): void {
+    const counts = new Map(
+        entries.map(entry => [entry.flowerId, entry.collectionCount])
+    );
+    FLOWERS.forEach(flower => {
+        const count = counts.get(flower.id) ?? 0;
+        flower.collectionCount = count;
+        flower.discovered = count > 0;
+    });
+}
+
 // Helper function to find a flower by its ID
 export function getFlowerById(id: string): FlowerType | undefined {
     return FLOWERS.find(flower => flower.id === id);
 }
 
 // Helper function to find a flower by color type
-export function getFlowersByColor(colorType: string): FlowerType[] {
+export function getFlowersByColor(colorType: FlowerColorKey): FlowerType[] {
     return FLOWERS.filter(flower => flower.colorType === colorType);
 }
 
 // Helper function to get random flower
-export function getRandomFlower(): FlowerType {
-    const index = Math.floor(Math.random() * FLOWERS.length);
-    return FLOWERS[index];
+export function getRandomFlower(
+    random: SeededRandom = new SeededRandom()
+): FlowerType {
+    return random.pick(FLOWERS);
+}
+
+// Helper function to get the facts for a species (empty if the id is unknown)
+export function getFlowerFacts(id: string): string[] {
+    return getFlowerById(id)?.facts ?? [];
+}
+
+/**
+ * Look up a flower that some other module depends on, throwing if it is missing.
+ * @param id Flower id being referenced
+ * @param source Name of the referencing module, used in the error message
+ */
+export function requireFlower(id: string, source: string): FlowerType {
+    const flower = getFlowerById(id);
+    if (!flower) {
+        throw new Error(`${source} references unknown flower id '${id}'`);
+    }
+    return flower;
+}
+
+/**
+ * Check the flower database for consistency. Throws a single error listing
+ * every problem so that a bad entry fails loudly at startup.
+ * @param referencedIds Extra ids referenced elsewhere that must exist
+ */
+export function validateFlowerRegistry(referencedIds: string[] = []): void {
+    const problems: string[] = [];
+    const seenIds = new Set<string>();
+
+    FLOWERS.forEach(flower => {
+        if (seenIds.has(flower.id)) {
+            problems.push(`Duplicate flower id '${flower.id}'`);
+        }
+        seenIds.add(flower.id);
+
+        const colorEntry = FLOWER_COLORS[flower.colorType];
+        if (!colorEntry) {
+            problems.push(
+                `Flower '${flower.id}' has unknown colorType '${flower.colorType}'`
+            );
+        } else if (flower.color !== colorEntry.hex) {
+            problems.push(
+                `Flower '${flower.id}' color does not match FLOWER_COLORS.${flower.colorType}`
+            );
+        }
+        if (flower.facts.length === 0) {
+            problems.push(`Flower '${flower.id}' has no facts`);
+        }
+    });
+
+    // Every color can be picked for a wave, so each needs a species to spawn
+    FLOWER_COLOR_KEYS.forEach(colorType => {
+        if (getFlowersByColor(colorType).length === 0) {
+            problems.push(`No flower species defined for color '${colorType}'`);
+        }
+    });
+
+    referencedIds.forEach(id => {
+        if (!seenIds.has(id)) {
+            problems.push(`Referenced flower id '${id}' does not exist`);
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new Error(
+            `Flower registry validation failed:\n - ${problems.join('\n - ')}`
+        );
+    }
 }
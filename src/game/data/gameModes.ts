@@ -0,0 +1,17 @@
+// src/game/data/gameModes.ts
+
+// Ways to play; each score records the mode it was set in
+export const GAME_MODES = ['classic', 'daily'] as const;
+export type GameMode = (typeof GAME_MODES)[number];
+export const DEFAULT_GAME_MODE: GameMode = 'classic';
+
+// Names shown on the leaderboard
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+    classic: 'Classic',
+    daily: 'Daily Garden',
+};
+
+// Reads a stored mode, falling back to the default for unknown values
+export function toGameMode(value: string | undefined): GameMode {
+    return GAME_MODES.find(mode => mode === value) ?? DEFAULT_GAME_MODE;
+}
@@ -0,0 +1,101 @@
+// src/game/data/profiles.ts
+import storageService, {
+    DEFAULT_PROFILE_ID,
+    PlayerProfile,
+} from '@/services/StorageService';
+import { QuizService } from './quizData';
+import { audioManager } from '../managers/AudioManager';
+import { achievementManager } from '../managers/AchievementManager';
+
+// Room for a small group sharing one tablet
+export const MAX_PROFILES = 6;
+export const MAX_PROFILE_NAME_LENGTH = 14;
+
+// Avatar colors, offered in order to each new profile
+export const PROFILE_COLORS = [
+    0xffc107, // Honey
+    0xe91e63, // Rose
+    0x2196f3, // Sky
+    0x4caf50, // Leaf
+    0x9c27b0, // Violet
+    0xff5722, // Poppy
+] as const;
+
+/**
+ * Trims and shortens a typed name; empty if nothing usable is left
+ */
+export function normalizeProfileName(name: string): string {
+    return name.replace(/\s+/g, ' ').trim().slice(0, MAX_PROFILE_NAME_LENGTH);
+}
+
+/**
+ * All profiles, most recently played first
+ */
+export async function loadProfiles(): Promise<PlayerProfile[]> {
+    const profiles = await storageService.getProfiles();
+    return profiles.sort(
+        (a, b) => b.lastPlayed.getTime() - a.lastPlayed.getTime()
+    );
+}
+
+export async function getActiveProfile(): Promise<PlayerProfile | null> {
+    const activeId = storageService.getActiveProfileId();
+    const profiles = await storageService.getProfiles();
+    return profiles.find(profile => profile.id === activeId) ?? null;
+}
+
+// First color no other profile uses yet
+export function pickProfileColor(profiles: PlayerProfile[]): number {
+    return (
+        PROFILE_COLORS.find(
+            color => !profiles.some(profile => profile.color === color)
+        ) ?? PROFILE_COLORS[profiles.length % PROFILE_COLORS.length]
+    );
+}
+
+/**
+ * Make a profile the one whose scores, settings, quiz stats, achievements
+ * and discoveries are used from now on
+ */
+export async function selectProfile(profile: PlayerProfile): Promise<void> {
+    const profileId = profile.id!;
+    storageService.setActiveProfile(profileId);
+    await QuizService.getInstance().setProfile(
+        profileId,
+        profileId === DEFAULT_PROFILE_ID
+    );
+    await storageService.saveProfile({ ...profile, lastPlayed: new Date() });
+    await audioManager.loadVolumes();
+    await achievementManager.loadProfile();
+}
+
+export async function createProfile(
+    name: string,
+    color: number
+): Promise<PlayerProfile> {
+    const now = new Date();
+    const profile: PlayerProfile = {
+        name: normalizeProfileName(name),
+        color,
+        createdAt: now,
+        lastPlayed: now,
+    };
+    const id = await storageService.saveProfile(profile);
+    return { ...profile, id };
+}
+
+export async function renameProfile(
+    profile: PlayerProfile,
+    name: string
+): Promise<PlayerProfile> {
+    const renamed = { ...profile, name: normalizeProfileName(name) };
+    await storageService.saveProfile(renamed);
+    return renamed;
+}
+
+/**
+ * Delete a profile and everything saved for it
+ */
+export async function deleteProfile(profile: PlayerProfile): Promise<void> {
+    await storageService.deleteProfile(profile.id!);
+}
@@ -0,0 +1,140 @@
+// src/game/data/questionBank/common.ts
+import {
+    QuestionCategorySchema,
+    QuestionDifficultySchema,
+    QuizQuestion,
+    QuizQuestionSchema,
+} from '../quizSchema';
+import { checkQuestionRules, formatSchemaError } from '../questionValidation';
+
+export const QUESTION_BANK_FORMATS = ['csv', 'gift', 'xml'] as const;
+export type QuestionBankFormat = (typeof QUESTION_BANK_FORMATS)[number];
+
+// A question in an imported file that was skipped, and why
+export interface ImportIssue {
+    line: number; // 1-based line where the question starts
+    message: string;
+}
+
+export interface ImportResult {
+    questions: QuizQuestion[];
+    errors: ImportIssue[];
+}
+
+export interface ExportResult {
+    text: string;
+    skipped: string[]; // Ids of questions the format can't represent
+}
+
+type QuestionTags = Pick<QuizQuestion, 'difficulty' | 'category'>;
+
+// Used when a file doesn't say which difficulty or category a question has
+export const IMPORT_DEFAULTS: QuestionTags = {
+    difficulty: 'medium',
+    category: 'pollination',
+};
+
+/**
+ * Reads difficulty and category from a Moodle-style category path such as
+ * "$course$/flowers/easy". Segments that aren't recognized are ignored.
+ */
+export function parseCategoryPath(
+    path: string,
+    fallback: QuestionTags = IMPORT_DEFAULTS
+): QuestionTags {
+    const segments = path.split('/').map(s => s.trim().toLowerCase());
+    return {
+        difficulty:
+            QuestionDifficultySchema.options.find(d => segments.includes(d)) ??
+            fallback.difficulty,
+        category:
+            QuestionCategorySchema.options.find(c => segments.includes(c)) ??
+            fallback.category,
+    };
+}
+
+// Builds the category path parseCategoryPath reads back
+export function toCategoryPath(question: QuestionTags): string {
+    return `$course$/${question.category}/${question.difficulty}`;
+}
+
+/**
+ * Turns a title into a question id, keeping titles that already look like ids
+ */
+export function toQuestionId(prefix: string, title: string): string {
+    const trimmed = title.trim();
+    if (/^[\w-]+$/.test(trimmed)) return trimmed;
+
+    const slug = trimmed
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 48);
+    return `${prefix}_${slug || 'question'}`;
+}
+
+// Plain text from HTML question text (Moodle stores most text as HTML)
+export function stripHtml(text: string): string {
+    return text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+// Numeric questions imported from formats that only store the answer get a
+// dial range around it
+const DEFAULT_NUMERIC_SPAN = 20;
+
+export function defaultNumericRange(answer: number): {
+    min: number;
+    max: number;
+} {
+    const min =
+        answer >= 0
+            ? Math.max(0, answer - DEFAULT_NUMERIC_SPAN / 2)
+            : answer - DEFAULT_NUMERIC_SPAN / 2;
+    return { min, max: min + DEFAULT_NUMERIC_SPAN };
+}
+
+/**
+ * Validates imported questions one at a time, collecting the valid ones and
+ * a readable error for each rejected one.
+ */
+export class ImportCollector {
+    private readonly ids = new Set<string>();
+    private readonly questions: QuizQuestion[] = [];
+    private readonly errors: ImportIssue[] = [];
+
+    public add(raw: unknown, line: number): void {
+        const result = QuizQuestionSchema.safeParse(raw);
+        if (!result.success) {
+            this.error(line, formatSchemaError(result.error));
+            return;
+        }
+        const problems = checkQuestionRules(result.data);
+        if (problems.length > 0) {
+            this.error(line, problems.join('; '));
+            return;
+        }
+        if (this.ids.has(result.data.id)) {
+            this.error(line, `Duplicate question id "${result.data.id}"`);
+            return;
+        }
+        this.ids.add(result.data.id);
+        this.questions.push(result.data);
+    }
+
+    public error(line: number, message: string): void {
+        this.errors.push({ line, message });
+    }
+
+    public getResult(): ImportResult {
+        return { questions: [...this.questions], errors: [...this.errors] };
+    }
+}
@@ -0,0 +1,280 @@
+// src/game/data/questionBank/csv.ts
+import { QuizQuestion } from '../quizSchema';
+import {
+    ExportResult,
+    IMPORT_DEFAULTS,
+    ImportCollector,
+    ImportResult,
+    toQuestionId,
+} from './common';
+
+/*
+ * One question per row. List cells (options) are separated by "|":
+ *   multipleChoice  answer = the correct option, options = all choices
+ *   trueFalse       answer = true / false
+ *   matching        options = left=right|left=right
+ *   ordering        options = steps in the correct order
+ *   numeric         answer, min, max and an optional unit
+ *   labeling        options = diagram parts (e.g. anther|stigma)
+ */
+export const CSV_COLUMNS = [
+    'id',
+    'type',
+    'question',
+    'answer',
+    'options',
+    'min',
+    'max',
+    'unit',
+    'difficulty',
+    'category',
+    'explanation',
+] as const;
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: CsvColumn[] = ['type', 'question'];
+const LIST_SEPARATOR = '|';
+
+interface CsvRow {
+    cells: string[];
+    line: number;
+}
+
+// RFC 4180 style: quoted cells may contain commas, newlines and "" quotes
+function parseCsvRows(text: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line++;
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            cells.push(cell);
+            rows.push({ cells, line: rowLine });
+            cells = [];
+            cell = '';
+            line++;
+            rowLine = line;
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || cells.length > 0) {
+        cells.push(cell);
+        rows.push({ cells, line: rowLine });
+    }
+
+    return rows.filter(row => row.cells.some(c => c.trim() !== ''));
+}
+
+const toList = (value: string): string[] =>
+    value
+        .split(LIST_SEPARATOR)
+        .map(item => item.trim())
+        .filter(item => item !== '');
+
+// Empty cells stay undefined so the schema reports them as missing
+const toNumber = (value: string): number | undefined =>
+    value.trim() === '' ? undefined : Number(value);
+
+function toBoolean(value: string): boolean | string {
+    const normalized = value.trim().toLowerCase();
+    if (['true', 't', 'yes'].includes(normalized)) return true;
+    if (['false', 'f', 'no'].includes(normalized)) return false;
+    return value;
+}
+
+// Builds the raw question for a row; the schema does the validation
+function rowToQuestion(get: (column: CsvColumn) => string): unknown {
+    const question = get('question');
+    const base = {
+        id: get('id') || toQuestionId('csv', question),
+        type: get('type'),
+        question,
+        explanation: get('explanation'),
+        difficulty:
+            get('difficulty').toLowerCase() || IMPORT_DEFAULTS.difficulty,
+        category: get('category').toLowerCase() || IMPORT_DEFAULTS.category,
+    };
+
+    switch (base.type) {
+        case 'multipleChoice':
+            return {
+                ...base,
+                options: toList(get('options')),
+                correctAnswer: get('answer'),
+            };
+        case 'trueFalse':
+            return { ...base, correctAnswer: toBoolean(get('answer')) };
+        case 'matching':
+            return {
+                ...base,
+                pairs: toList(get('options')).map(pair => {
+                    const [left, right] = pair.split('=');
+                    return { left: left?.trim(), right: right?.trim() };
+                }),
+            };
+        case 'ordering':
+            return { ...base, steps: toList(get('options')) };
+        case 'numeric':
+            return {
+                ...base,
+                correctAnswer: toNumber(get('answer')),
+                min: toNumber(get('min')),
+                max: toNumber(get('max')),
+                unit: get('unit') || undefined,
+            };
+        case 'labeling':
+            return {
+                ...base,
+                diagram: 'flower',
+                parts: toList(get('options')),
+            };
+        default:
+            throw new Error(`Unknown question type "${base.type}"`);
+    }
+}
+
+/**
+ * Import questions from CSV with a header row naming the columns
+ */
+export function importCsv(text: string): ImportResult {
+    const collector = new ImportCollector();
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) {
+        collector.error(1, 'The file is empty');
+        return collector.getResult();
+    }
+
+    const columnIndex = new Map(
+        header.cells.map((name, index) => [name.trim().toLowerCase(), index])
+    );
+    const missing = REQUIRED_COLUMNS.filter(c => !columnIndex.has(c));
+    if (missing.length > 0) {
+        collector.error(
+            header.line,
+            `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`
+        );
+        return collector.getResult();
+    }
+
+    rows.forEach(row => {
+        const get = (column: CsvColumn): string => {
+            const index = columnIndex.get(column);
+            return index === undefined ? '' : (row.cells[index] ?? '').trim();
+        };
+        try {
+            collector.add(rowToQuestion(get), row.line);
+        } catch (error) {
+            collector.error(row.line, (error as Error).message);
+        }
+    });
+
+    return collector.getResult();
+}
+
+function escapeCell(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function questionToRow(question: QuizQuestion): Record<CsvColumn, string> {
+    const row: Record<CsvColumn, string> = {
+        id: question.id,
+        type: question.type,
+        question: question.question,
+        answer: '',
+        options: '',
+        min: '',
+        max: '',
+        unit: '',
+        difficulty: question.difficulty,
+        category: question.category,
+        explanation: question.explanation,
+    };
+
+    switch (question.type) {
+        case 'multipleChoice':
+            row.answer = question.correctAnswer;
+            row.options = question.options.join(LIST_SEPARATOR);
+            break;
+        case 'trueFalse':
+            row.answer = String(question.correctAnswer);
+            break;
+        case 'matching':
+            row.options = question.pairs
+                .map(pair => `${pair.left}=${pair.right}`)
+                .join(LIST_SEPARATOR);
+            break;
+        case 'ordering':
+            row.options = question.steps.join(LIST_SEPARATOR);
+            break;
+        case 'numeric':
+            row.answer = String(question.correctAnswer);
+            row.min = String(question.min);
+            row.max = String(question.max);
+            row.unit = question.unit ?? '';
+            break;
+        case 'labeling':
+            row.options = question.parts.join(LIST_SEPARATOR);
+            break;
+    }
+    return row;
+}
+
+// List cells can't contain their own separator characters
+function fitsListCells(question: QuizQuestion): boolean {
+    const clean = (items: string[], separators: string[]) =>
+        items.every(item => separators.every(sep => !item.includes(sep)));
+    switch (question.type) {
+        case 'multipleChoice':
+            return clean(question.options, [LIST_SEPARATOR]);
+        case 'matching':
+            return clean(
+                question.pairs.flatMap(pair => [pair.left, pair.right]),
+                [LIST_SEPARATOR, '=']
+            );
+        case 'ordering':
+            return clean(question.steps, [LIST_SEPARATOR]);
+        default:
+            return true;
+    }
+}
+
+/**
+ * Export questions as CSV in the layout importCsv reads
+ */
+export function exportCsv(questions: QuizQuestion[]): ExportResult {
+    const lines = [CSV_COLUMNS.join(',')];
+    const skipped: string[] = [];
+    questions.forEach(question => {
+        if (!fitsListCells(question)) {
+            skipped.push(question.id);
+            return;
+        }
+        const row = questionToRow(question);
+        lines.push(
+            CSV_COLUMNS.map(column => escapeCell(row[column])).join(',')
+        );
+    });
+    return { text: `${lines.join('\n')}\n`, skipped };
+}
@@ -0,0 +1,271 @@
+// src/game/data/questionBank/gift.ts
+import { QuizQuestion } from '../quizSchema';
+import {
+    ExportResult,
+    IMPORT_DEFAULTS,
+    ImportCollector,
+    ImportResult,
+    defaultNumericRange,
+    parseCategoryPath,
+    stripHtml,
+    toCategoryPath,
+    toQuestionId,
+} from './common';
+
+// GIFT escapes its control characters with a backslash. Escaped characters
+// are swapped for private-use placeholders while parsing, then restored.
+const SPECIAL_CHARS = ['~', '=', '#', '{', '}', ':'];
+const PLACEHOLDER_BASE = 0xe000;
+
+const hideEscapes = (text: string): string =>
+    text
+        .replace(/\\n/g, '\n')
+        .replace(/\\([~=#{}:])/g, (_, char: string) =>
+            String.fromCharCode(PLACEHOLDER_BASE + SPECIAL_CHARS.indexOf(char))
+        );
+
+const restoreEscapes = (text: string): string =>
+    text.replace(
+        /[\uE000-\uE005]/g,
+        char => SPECIAL_CHARS[char.charCodeAt(0) - PLACEHOLDER_BASE]
+    );
+
+// Readable text from a GIFT fragment: escapes restored, format tag dropped
+const cleanText = (text: string): string =>
+    stripHtml(
+        restoreEscapes(text.replace(/^\s*\[(html|moodle|plain|markdown)\]/, ''))
+    );
+
+interface GiftBlock {
+    text: string;
+    line: number;
+    categoryPath: string | null;
+}
+
+// Splits the file into question blocks separated by blank lines
+function splitBlocks(text: string): GiftBlock[] {
+    const blocks: GiftBlock[] = [];
+    let current: string[] = [];
+    let startLine = 0;
+
+    const flush = () => {
+        if (current.length > 0) {
+            blocks.push({
+                text: current.join('\n'),
+                line: startLine,
+                categoryPath: null,
+            });
+        }
+        current = [];
+    };
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('//')) return; // Comment line
+        if (trimmed === '') {
+            flush();
+            return;
+        }
+        const category = /^\$CATEGORY:\s*(.*)$/i.exec(trimmed);
+        if (category) {
+            flush();
+            blocks.push({
+                text: '',
+                line: index + 1,
+                categoryPath: category[1],
+            });
+            return;
+        }
+        if (current.length === 0) startLine = index + 1;
+        current.push(line);
+    });
+    flush();
+
+    return blocks;
+}
+
+// Answer text without its per-answer "#feedback" or "%50%" weight
+const answerText = (raw: string): string =>
+    cleanText(raw.replace(/^%-?\d+(\.\d+)?%/, '').split('#')[0]);
+
+// Builds the raw question for one block; the schema does the validation
+function blockToQuestion(
+    block: string,
+    tags: Pick<QuizQuestion, 'difficulty' | 'category'>
+): unknown {
+    const source = hideEscapes(block);
+    const title = /^\s*::([\s\S]*?)::/.exec(source);
+    const rest = title ? source.slice(title[0].length) : source;
+
+    const open = rest.indexOf('{');
+    const close = rest.lastIndexOf('}');
+    if (open === -1 || close < open) {
+        throw new Error('Missing the {answer} section');
+    }
+
+    // Text after the answers ("fill in the blank" style) joins the question
+    const before = rest.slice(0, open).trim();
+    const after = rest.slice(close + 1).trim();
+    const question = cleanText(after ? `${before} ___ ${after}` : before);
+
+    const [answerPart, generalFeedback = ''] = rest
+        .slice(open + 1, close)
+        .split('####');
+    const body = answerPart.trim();
+    const base = {
+        id: toQuestionId('gift', restoreEscapes(title?.[1] ?? question)),
+        question,
+        explanation: cleanText(generalFeedback),
+        ...tags,
+    };
+
+    if (body === '') {
+        throw new Error('Essay questions are not supported');
+    }
+
+    const trueFalse = /^(T|TRUE|F|FALSE)\s*(#[\s\S]*)?$/i.exec(body);
+    if (trueFalse) {
+        return {
+            ...base,
+            type: 'trueFalse',
+            correctAnswer: trueFalse[1].toUpperCase().startsWith('T'),
+        };
+    }
+
+    if (body.startsWith('#')) {
+        // {#6}, {#6:1} (with tolerance) or {#4..8}; the first answer counts
+        const first = body
+            .slice(1)
+            .split('=')
+            .map(part => part.trim())
+            .filter(part => part !== '')[0];
+        const value = answerText(first ?? '');
+        const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(value);
+        const answer = range
+            ? Math.round((Number(range[1]) + Number(range[2])) / 2)
+            : Number(value.split(':')[0]);
+        return {
+            ...base,
+            type: 'numeric',
+            correctAnswer: answer,
+            ...defaultNumericRange(answer),
+        };
+    }
+
+    // Split into "=right" / "~wrong" answers
+    const answers = Array.from(body.matchAll(/([=~])([^=~]*)/g)).map(
+        ([, marker, text]) => ({ correct: marker === '=', raw: text.trim() })
+    );
+
+    if (answers.length > 0 && answers.every(a => a.raw.includes('->'))) {
+        return {
+            ...base,
+            type: 'matching',
+            pairs: answers.map(({ raw }) => {
+                const [left, right] = raw.split('->');
+                return { left: cleanText(left), right: answerText(right) };
+            }),
+        };
+    }
+
+    const correct = answers.filter(a => a.correct);
+    if (correct.length === answers.length) {
+        throw new Error('Short answer questions are not supported');
+    }
+    if (correct.length !== 1) {
+        throw new Error(
+            'Multiple choice questions need exactly one "=" answer'
+        );
+    }
+    return {
+        ...base,
+        type: 'multipleChoice',
+        options: answers.map(a => answerText(a.raw)),
+        correctAnswer: answerText(correct[0].raw),
+    };
+}
+
+/**
+ * Import questions from Moodle GIFT. "$CATEGORY:" lines whose path contains
+ * a difficulty or category name (e.g. "$course$/flowers/easy") tag the
+ * questions that follow.
+ */
+export function importGift(text: string): ImportResult {
+    const collector = new ImportCollector();
+    let tags = IMPORT_DEFAULTS;
+
+    splitBlocks(text).forEach(block => {
+        if (block.categoryPath !== null) {
+            tags = parseCategoryPath(block.categoryPath);
+            return;
+        }
+        try {
+            collector.add(blockToQuestion(block.text, tags), block.line);
+        } catch (error) {
+            collector.error(block.line, (error as Error).message);
+        }
+    });
+
+    return collector.getResult();
+}
+
+const escapeGift = (text: string): string =>
+    text.replace(/([~=#{}:])/g, '\\$1').replace(/\n/g, '\\n');
+
+function answerBody(question: QuizQuestion): string | null {
+    switch (question.type) {
+        case 'multipleChoice':
+            return question.options
+                .map(
+                    option =>
+                        `${option === question.correctAnswer ? '=' : '~'}${escapeGift(option)}`
+                )
+                .join(' ');
+        case 'trueFalse':
+            return question.correctAnswer ? 'TRUE' : 'FALSE';
+        case 'matching':
+            return question.pairs
+                .map(
+                    pair =>
+                        `=${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`
+                )
+                .join(' ');
+        case 'numeric':
+            return `#${question.correctAnswer}`;
+        default:
+            return null; // GIFT has no ordering or labeling questions
+    }
+}
+
+/**
+ * Export questions as GIFT, grouped under $CATEGORY lines that importGift
+ * reads back as difficulty and category. Numeric questions keep only their
+ * answer, so the dial range is rebuilt on import.
+ */
+export function exportGift(questions: QuizQuestion[]): ExportResult {
+    const blocks: string[] = [];
+    const skipped: string[] = [];
+    let currentPath = '';
+
+    questions.forEach(question => {
+        const body = answerBody(question);
+        if (body === null) {
+            skipped.push(question.id);
+            return;
+        }
+
+        const path = toCategoryPath(question);
+        if (path !== currentPath) {
+            currentPath = path;
+            blocks.push(`$CATEGORY: ${path}`);
+        }
+        const feedback = question.explanation
+            ? `####${escapeGift(question.explanation)}`
+            : '';
+        blocks.push(
+            `::${escapeGift(question.id)}:: ${escapeGift(question.question)} {${body}${feedback}}`
+        );
+    });
+
+    return { text: `${blocks.join('\n\n')}\n`, skipped };
+}
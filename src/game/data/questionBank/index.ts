@@ -0,0 +1,72 @@
+// src/game/data/questionBank/index.ts
+// Format conversion only; storing banks lives in ./storedBanks so this module
+// also runs outside the browser (see lint-questions.ts).
+import { QuizQuestion } from '../quizSchema';
+import { ExportResult, ImportResult, QuestionBankFormat } from './common';
+import { exportCsv, importCsv } from './csv';
+import { exportGift, importGift } from './gift';
+import { exportMoodleXml, importMoodleXml } from './moodleXml';
+
+export { QUESTION_BANK_FORMATS } from './common';
+export type {
+    ExportResult,
+    ImportIssue,
+    ImportResult,
+    QuestionBankFormat,
+} from './common';
+
+const IMPORTERS: Record<QuestionBankFormat, (text: string) => ImportResult> = {
+    csv: importCsv,
+    gift: importGift,
+    xml: importMoodleXml,
+};
+
+const EXPORTERS: Record<
+    QuestionBankFormat,
+    (questions: QuizQuestion[]) => ExportResult
+> = {
+    csv: exportCsv,
+    gift: exportGift,
+    xml: exportMoodleXml,
+};
+
+// File details used when offering and saving each format
+export const QUESTION_BANK_FILES: Record<
+    QuestionBankFormat,
+    { label: string; extension: string; mimeType: string }
+> = {
+    csv: { label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+    gift: { label: 'GIFT', extension: '.gift.txt', mimeType: 'text/plain' },
+    xml: {
+        label: 'Moodle XML',
+        extension: '.xml',
+        mimeType: 'application/xml',
+    },
+};
+
+/**
+ * Guess the format from a file name (.csv, .gift/.txt or .xml)
+ */
+export function detectQuestionBankFormat(
+    fileName: string
+): QuestionBankFormat | null {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.csv')) return 'csv';
+    if (name.endsWith('.xml')) return 'xml';
+    if (name.endsWith('.gift') || name.endsWith('.txt')) return 'gift';
+    return null;
+}
+
+export function importQuestionBank(
+    text: string,
+    format: QuestionBankFormat
+): ImportResult {
+    return IMPORTERS[format](text);
+}
+
+export function exportQuestionBank(
+    questions: QuizQuestion[],
+    format: QuestionBankFormat
+): ExportResult {
+    return EXPORTERS[format](questions);
+}
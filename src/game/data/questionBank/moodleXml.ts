@@ -0,0 +1,265 @@
+// src/game/data/questionBank/moodleXml.ts
+import { QuizQuestion } from '../quizSchema';
+import {
+    ExportResult,
+    IMPORT_DEFAULTS,
+    ImportCollector,
+    ImportResult,
+    defaultNumericRange,
+    parseCategoryPath,
+    stripHtml,
+    toCategoryPath,
+    toQuestionId,
+} from './common';
+import {
+    XmlElement,
+    XmlParseError,
+    childElements,
+    escapeXml,
+    firstChild,
+    parseXml,
+    textContent,
+} from './xml';
+
+// Text of a Moodle field such as <questiontext><text>...</text></questiontext>
+function fieldText(question: XmlElement, field: string): string {
+    const element = firstChild(question, field);
+    if (!element) return '';
+    const text = firstChild(element, 'text');
+    return stripHtml(textContent(text ?? element));
+}
+
+interface MoodleAnswer {
+    text: string;
+    fraction: number;
+}
+
+function readAnswers(question: XmlElement): MoodleAnswer[] {
+    return childElements(question, 'answer').map(answer => ({
+        text: stripHtml(textContent(firstChild(answer, 'text'))),
+        fraction: Number(answer.attributes.fraction ?? 0),
+    }));
+}
+
+// Builds the raw question for one <question>; the schema does the validation
+function toRawQuestion(
+    element: XmlElement,
+    tags: Pick<QuizQuestion, 'difficulty' | 'category'>
+): unknown {
+    const type = element.attributes.type;
+    const question = fieldText(element, 'questiontext');
+    const idNumber = textContent(firstChild(element, 'idnumber')).trim();
+    const base = {
+        id: toQuestionId('moodle', idNumber || fieldText(element, 'name')),
+        question,
+        explanation: fieldText(element, 'generalfeedback'),
+        ...tags,
+    };
+    const answers = readAnswers(element);
+    const correct = answers.filter(answer => answer.fraction >= 100);
+
+    switch (type) {
+        case 'multichoice':
+            if (correct.length !== 1) {
+                throw new Error(
+                    'Multiple choice questions need exactly one fully correct answer'
+                );
+            }
+            return {
+                ...base,
+                type: 'multipleChoice',
+                options: answers.map(answer => answer.text),
+                correctAnswer: correct[0].text,
+            };
+        case 'truefalse':
+            return {
+                ...base,
+                type: 'trueFalse',
+                correctAnswer: correct[0]?.text.toLowerCase() === 'true',
+            };
+        case 'matching':
+            return {
+                ...base,
+                type: 'matching',
+                // Subquestions without text are distractors, which we don't use
+                pairs: childElements(element, 'subquestion')
+                    .map(sub => ({
+                        left: stripHtml(textContent(firstChild(sub, 'text'))),
+                        right: textContent(
+                            firstChild(firstChild(sub, 'answer') ?? sub, 'text')
+                        ).trim(),
+                    }))
+                    .filter(pair => pair.left !== ''),
+            };
+        case 'ordering':
+            // The ordering plugin lists answers in their correct order
+            return {
+                ...base,
+                type: 'ordering',
+                steps: answers.map(answer => answer.text),
+            };
+        case 'numerical': {
+            const answer = Number(correct[0]?.text);
+            const unitElement = firstChild(element, 'units');
+            const unit = unitElement
+                ? textContent(
+                      firstChild(
+                          firstChild(unitElement, 'unit') ?? unitElement,
+                          'unit_name'
+                      )
+                  ).trim()
+                : '';
+            return {
+                ...base,
+                type: 'numeric',
+                correctAnswer: answer,
+                ...defaultNumericRange(answer),
+                unit: unit || undefined,
+            };
+        }
+        default:
+            throw new Error(`Unsupported Moodle question type "${type}"`);
+    }
+}
+
+/**
+ * Import questions from a Moodle XML export. Category paths containing a
+ * difficulty or category name (e.g. "$course$/flowers/easy") tag the
+ * questions that follow; question tags override them.
+ */
+export function importMoodleXml(text: string): ImportResult {
+    const collector = new ImportCollector();
+
+    let root: XmlElement;
+    try {
+        root = parseXml(text);
+    } catch (error) {
+        const line = error instanceof XmlParseError ? error.line : 1;
+        collector.error(line, `Invalid XML: ${(error as Error).message}`);
+        return collector.getResult();
+    }
+    if (root.name !== 'quiz') {
+        collector.error(root.line, 'Expected a <quiz> root element');
+        return collector.getResult();
+    }
+
+    let categoryTags = IMPORT_DEFAULTS;
+    childElements(root, 'question').forEach(element => {
+        if (element.attributes.type === 'category') {
+            categoryTags = parseCategoryPath(fieldText(element, 'category'));
+            return;
+        }
+
+        const tagNames = childElements(
+            firstChild(element, 'tags') ?? element,
+            'tag'
+        ).map(tag => textContent(firstChild(tag, 'text')));
+        const tags = parseCategoryPath(tagNames.join('/'), categoryTags);
+
+        try {
+            collector.add(toRawQuestion(element, tags), element.line);
+        } catch (error) {
+            collector.error(element.line, (error as Error).message);
+        }
+    });
+
+    return collector.getResult();
+}
+
+// <field format="plain_text"><text>...</text></field>
+function textField(name: string, text: string): string {
+    return `<${name} format="plain_text"><text>${escapeXml(text)}</text></${name}>`;
+}
+
+function answerElement(text: string, fraction: number): string {
+    return `<answer fraction="${fraction}" format="plain_text"><text>${escapeXml(text)}</text></answer>`;
+}
+
+function questionBody(question: QuizQuestion): string[] | null {
+    switch (question.type) {
+        case 'multipleChoice':
+            return [
+                '<single>true</single>',
+                '<shuffleanswers>true</shuffleanswers>',
+                ...question.options.map(option =>
+                    answerElement(
+                        option,
+                        option === question.correctAnswer ? 100 : 0
+                    )
+                ),
+            ];
+        case 'trueFalse':
+            return [
+                answerElement('true', question.correctAnswer ? 100 : 0),
+                answerElement('false', question.correctAnswer ? 0 : 100),
+            ];
+        case 'matching':
+            return question.pairs.map(
+                pair =>
+                    `<subquestion format="plain_text"><text>${escapeXml(pair.left)}</text><answer><text>${escapeXml(pair.right)}</text></answer></subquestion>`
+            );
+        case 'ordering':
+            return question.steps.map(step => answerElement(step, 0));
+        case 'numeric':
+            return [
+                answerElement(String(question.correctAnswer), 100),
+                ...(question.unit
+                    ? [
+                          `<units><unit><multiplier>1</multiplier><unit_name>${escapeXml(question.unit)}</unit_name></unit></units>`,
+                      ]
+                    : []),
+            ];
+        case 'labeling':
+            return null; // Moodle's drag-and-drop markers need an image upload
+    }
+}
+
+const MOODLE_TYPES: Record<QuizQuestion['type'], string> = {
+    multipleChoice: 'multichoice',
+    trueFalse: 'truefalse',
+    matching: 'matching',
+    ordering: 'ordering',
+    numeric: 'numerical',
+    labeling: 'ddmarker',
+};
+
+/**
+ * Export questions as Moodle XML, grouped under category paths that
+ * importMoodleXml reads back as difficulty and category
+ */
+export function exportMoodleXml(questions: QuizQuestion[]): ExportResult {
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>'];
+    const skipped: string[] = [];
+    let currentPath = '';
+
+    questions.forEach(question => {
+        const body = questionBody(question);
+        if (!body) {
+            skipped.push(question.id);
+            return;
+        }
+
+        const path = toCategoryPath(question);
+        if (path !== currentPath) {
+            currentPath = path;
+            lines.push(
+                '  <question type="category">',
+                `    <category><text>${escapeXml(path)}</text></category>`,
+                '  </question>'
+            );
+        }
+
+        lines.push(
+            `  <question type="${MOODLE_TYPES[question.type]}">`,
+            `    <name><text>${escapeXml(question.id)}</text></name>`,
+            `    <idnumber>${escapeXml(question.id)}</idnumber>`,
+            `    ${textField('questiontext', question.question)}`,
+            `    ${textField('generalfeedback', question.explanation)}`,
+            ...body.map(line => `    ${line}`),
+            '  </question>'
+        );
+    });
+
+    lines.push('</quiz>');
+    return { text: `${lines.join('\n')}\n`, skipped };
+}
@@ -0,0 +1,55 @@
+// src/game/data/questionBank/storedBanks.ts
+import storageService, { QuestionBankRecord } from '@/services/StorageService';
+import { QuizQuestion, QuizService } from '../quizData';
+import {
+    formatQuestionIssue,
+    validateQuestionData,
+} from '../questionValidation';
+import { QuestionBankFormat } from './common';
+
+/**
+ * Merge every stored bank into the quiz pool. Stored questions are checked
+ * again in case the schema or rules changed since they were imported.
+ */
+export async function loadStoredQuestionBanks(): Promise<QuestionBankRecord[]> {
+    const banks = await storageService.getQuestionBanks();
+    const questions = banks.flatMap(bank => {
+        const { questions, issues } = validateQuestionData(bank.questions);
+        issues.forEach(issue => {
+            console.warn(
+                `Dropping invalid question: ${formatQuestionIssue(`${bank.name}[${issue.index}]`, issue)}`
+            );
+        });
+        return questions;
+    });
+    QuizService.getInstance().setImportedQuestions(questions);
+    return banks;
+}
+
+/**
+ * Store an imported bank and add its questions to the quiz pool
+ */
+export async function saveQuestionBank(
+    name: string,
+    format: QuestionBankFormat,
+    questions: QuizQuestion[]
+): Promise<QuestionBankRecord[]> {
+    await storageService.saveQuestionBank({
+        id: `${format}:${name}`, // Re-importing a file replaces it
+        name,
+        format,
+        importedAt: new Date(),
+        questions,
+    });
+    return loadStoredQuestionBanks();
+}
+
+/**
+ * Remove a stored bank and its questions from the quiz pool
+ */
+export async function deleteQuestionBank(
+    id: string
+): Promise<QuestionBankRecord[]> {
+    await storageService.deleteQuestionBank(id);
+    return loadStoredQuestionBanks();
+}
@@ -0,0 +1,181 @@
+// src/game/data/questionBank/xml.ts
+// Minimal XML reader/writer for Moodle question exports. Kept dependency-free
+// (no DOMParser) so question banks can also be checked outside the browser.
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlNode[];
+    line: number; // 1-based line of the opening tag
+}
+export type XmlNode = XmlElement | string;
+
+export class XmlParseError extends Error {
+    constructor(
+        message: string,
+        public readonly line: number
+    ) {
+        super(`${message} (line ${line})`);
+        this.name = 'XmlParseError';
+    }
+}
+
+const ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: "'",
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+        if (entity[0] === '#') {
+            const code =
+                entity[1].toLowerCase() === 'x'
+                    ? parseInt(entity.slice(2), 16)
+                    : parseInt(entity.slice(1), 10);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return ENTITIES[entity] ?? match;
+    });
+}
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse an XML document and return its root element. Handles elements,
+ * attributes, text, CDATA and entities; skips comments, the declaration and
+ * DOCTYPE.
+ */
+export function parseXml(text: string): XmlElement {
+    let pos = 0;
+    const lineAt = (index: number) => text.slice(0, index).split('\n').length;
+    const fail = (message: string, index = pos): never => {
+        throw new XmlParseError(message, lineAt(index));
+    };
+
+    // Skips past the next occurrence of `end`
+    const skipPast = (end: string, what: string) => {
+        const index = text.indexOf(end, pos);
+        if (index === -1) fail(`Unterminated ${what}`);
+        pos = index + end.length;
+    };
+
+    const document: XmlElement = {
+        name: '#document',
+        attributes: {},
+        children: [],
+        line: 1,
+    };
+    const stack: XmlElement[] = [document];
+
+    while (pos < text.length) {
+        const parent = stack[stack.length - 1];
+        const tagStart = text.indexOf('<', pos);
+
+        if (tagStart !== pos) {
+            const end = tagStart === -1 ? text.length : tagStart;
+            const content = text.slice(pos, end);
+            if (content.trim() !== '') {
+                if (parent === document) fail('Text outside the root element');
+                parent.children.push(decodeEntities(content));
+            }
+            pos = end;
+            continue;
+        }
+
+        if (text.startsWith('<!--', pos)) {
+            skipPast('-->', 'comment');
+        } else if (text.startsWith('<![CDATA[', pos)) {
+            const end = text.indexOf(']]>', pos);
+            if (end === -1) fail('Unterminated CDATA section');
+            parent.children.push(text.slice(pos + 9, end));
+            pos = end + 3;
+        } else if (text.startsWith('<?', pos)) {
+            skipPast('?>', 'declaration');
+        } else if (text.startsWith('<!', pos)) {
+            skipPast('>', 'DOCTYPE');
+        } else if (text.startsWith('</', pos)) {
+            const match = /^<\/([\w:.-]+)\s*>/.exec(text.slice(pos));
+            if (!match) fail('Malformed closing tag');
+            const name = match![1];
+            if (parent.name !== name) {
+                fail(`Expected </${parent.name}> but found </${name}>`);
+            }
+            stack.pop();
+            pos += match![0].length;
+        } else {
+            const match =
+                /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(
+                    text.slice(pos)
+                );
+            if (!match) fail('Malformed tag');
+            const [whole, name, rawAttributes, selfClosing] = match!;
+            if (parent === document && document.children.length > 0) {
+                fail('More than one root element');
+            }
+
+            const attributes: Record<string, string> = {};
+            const attributePattern =
+                /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+            let attribute: RegExpExecArray | null;
+            while ((attribute = attributePattern.exec(rawAttributes))) {
+                attributes[attribute[1]] = decodeEntities(
+                    attribute[2] ?? attribute[3]
+                );
+            }
+
+            const element: XmlElement = {
+                name,
+                attributes,
+                children: [],
+                line: lineAt(pos),
+            };
+            parent.children.push(element);
+            if (!selfClosing) stack.push(element);
+            pos += whole.length;
+        }
+    }
+
+    if (stack.length > 1) {
+        fail(`Unclosed <${stack[stack.length - 1].name}>`, text.length);
+    }
+    const root = document.children.find(
+        (child): child is XmlElement => typeof child !== 'string'
+    );
+    if (!root) fail('No root element', 0);
+    return root!;
+}
+
+// Child elements, optionally only those with the given tag name
+export function childElements(
+    element: XmlElement,
+    name?: string
+): XmlElement[] {
+    return element.children.filter(
+        (child): child is XmlElement =>
+            typeof child !== 'string' && (!name || child.name === name)
+    );
+}
+
+export function firstChild(
+    element: XmlElement,
+    name: string
+): XmlElement | undefined {
+    return childElements(element, name)[0];
+}
+
+// Concatenated text of an element and its descendants
+export function textContent(element: XmlElement | undefined): string {
+    if (!element) return '';
+    return element.children
+        .map(child => (typeof child === 'string' ? child : textContent(child)))
+        .join('');
+}
@@ -0,0 +1,63 @@
+// src/game/data/questionValidation.test.ts
+import { describe, expect, test } from 'bun:test';
+import { checkQuestionRules, validateQuestionData } from './questionValidation';
+import { importQuestionBank } from './questionBank';
+import { QuizQuestion } from './quizSchema';
+
+const multipleChoice = (options: string[]): QuizQuestion => ({
+    id: `mc_${options.length}`,
+    type: 'multipleChoice',
+    question: 'Which of these carries pollen?',
+    correctAnswer: options[0],
+    options,
+    difficulty: 'easy',
+    category: 'pollination',
+    explanation: 'Bees carry pollen between flowers.',
+});
+
+describe('checkQuestionRules', () => {
+    test('accepts multiple choice answers the challenge can lay out', () => {
+        expect(checkQuestionRules(multipleChoice(['Bee', 'Rock']))).toEqual([]);
+        expect(
+            checkQuestionRules(
+                multipleChoice(['Bee', 'Rock', 'Cloud', 'Puddle'])
+            )
+        ).toEqual([]);
+    });
+
+    test('rejects option counts the answer flowers have no layout for', () => {
+        [3, 5, 6].forEach(count => {
+            const options = ['Bee', 'Rock', 'Cloud', 'Puddle', 'Shell', 'Sand'];
+            const problems = checkQuestionRules(
+                multipleChoice(options.slice(0, count))
+            );
+            expect(problems).toHaveLength(1);
+            expect(problems[0]).toContain(`${count} options`);
+        });
+    });
+});
+
+describe('question banks', () => {
+    test('drop a three-option question from raw bank data', () => {
+        const { questions, issues } = validateQuestionData([
+            multipleChoice(['Bee', 'Rock', 'Cloud']),
+            multipleChoice(['Bee', 'Rock']),
+        ]);
+        expect(questions.map(question => question.id)).toEqual(['mc_2']);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ index: 0, id: 'mc_3' });
+    });
+
+    test('reject a three-option question when importing a CSV bank', () => {
+        const csv = [
+            'id,type,question,answer,options',
+            'three,multipleChoice,Which carries pollen?,Bee,Bee|Rock|Cloud',
+            'four,multipleChoice,Which carries pollen?,Bee,Bee|Rock|Cloud|Sand',
+        ].join('\n');
+        const { questions, errors } = importQuestionBank(csv, 'csv');
+        expect(questions.map(question => question.id)).toEqual(['four']);
+        expect(errors).toHaveLength(1);
+        expect(errors[0].line).toBe(2);
+        expect(errors[0].message).toContain('3 options');
+    });
+});
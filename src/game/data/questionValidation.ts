@@ -0,0 +1,168 @@
+// src/game/data/questionValidation.ts
+// Rules every question bank must follow beyond the schema's structure. Used
+// when importing banks, in development builds and by `bun run lint:questions`.
+import { z } from 'zod';
+import { QuizQuestion, QuizQuestionSchema } from './quizSchema';
+
+// Multiple choice answer flowers the bonus challenge can lay out: a pair
+// along the bottom or a 2x2 grid
+export const ANSWER_FLOWER_COUNTS = [2, 4];
+// Numeric answers are dialled in one step at a time, so keep ranges short
+export const MAX_NUMERIC_RANGE = 30;
+
+export interface QuestionIssue {
+    index: number; // Position of the question in its bank
+    id?: string;
+    message: string;
+}
+
+const findDuplicates = (items: string[]): string[] =>
+    items.filter((item, index) => items.indexOf(item) !== index);
+
+/**
+ * Problems with a single question that already matches the schema
+ */
+export function checkQuestionRules(question: QuizQuestion): string[] {
+    const problems: string[] = [];
+    const noDuplicates = (items: string[], what: string) => {
+        findDuplicates(items).forEach(item =>
+            problems.push(`${what} "${item}" appears more than once`)
+        );
+    };
+
+    switch (question.type) {
+        case 'multipleChoice':
+            if (!question.options.includes(question.correctAnswer)) {
+                problems.push(
+                    `correctAnswer "${question.correctAnswer}" is not one of the options`
+                );
+            }
+            if (!ANSWER_FLOWER_COUNTS.includes(question.options.length)) {
+                problems.push(
+                    `${question.options.length} options can't be laid out as answer flowers (use ${ANSWER_FLOWER_COUNTS.join(' or ')})`
+                );
+            }
+            noDuplicates(question.options, 'Option');
+            break;
+        case 'trueFalse':
+            // The schema already requires a boolean answer
+            break;
+        case 'matching':
+            noDuplicates(
+                question.pairs.map(pair => pair.left),
+                'Left item'
+            );
+            noDuplicates(
+                question.pairs.map(pair => pair.right),
+                'Right item'
+            );
+            break;
+        case 'ordering':
+            noDuplicates(question.steps, 'Step');
+            break;
+        case 'numeric':
+            if (question.min >= question.max) {
+                problems.push(`min (${question.min}) must be below max`);
+            } else if (question.max - question.min > MAX_NUMERIC_RANGE) {
+                problems.push(
+                    `Range ${question.min}..${question.max} is too wide to dial in (max ${MAX_NUMERIC_RANGE} steps)`
+                );
+            }
+            if (
+                question.correctAnswer < question.min ||
+                question.correctAnswer > question.max
+            ) {
+                problems.push(
+                    `correctAnswer ${question.correctAnswer} is outside ${question.min}..${question.max}`
+                );
+            }
+            break;
+        case 'labeling':
+            noDuplicates(question.parts, 'Part');
+            break;
+    }
+
+    return problems;
+}
+
+/**
+ * Rule and duplicate id issues for questions that passed the schema. Null
+ * entries (questions that failed it) are skipped but keep their index.
+ */
+export function findQuestionIssues(
+    questions: (QuizQuestion | null)[]
+): QuestionIssue[] {
+    const issues: QuestionIssue[] = [];
+    const firstIndexById = new Map<string, number>();
+
+    questions.forEach((question, index) => {
+        if (!question) return;
+        checkQuestionRules(question).forEach(message =>
+            issues.push({ index, id: question.id, message })
+        );
+
+        const firstIndex = firstIndexById.get(question.id);
+        if (firstIndex === undefined) {
+            firstIndexById.set(question.id, index);
+        } else {
+            issues.push({
+                index,
+                id: question.id,
+                message: `Duplicate id (first used by question ${firstIndex + 1})`,
+            });
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Check raw question data (e.g. a JSON bank): the schema first, then the
+ * rules. Returns the questions that passed both.
+ */
+export function validateQuestionData(data: unknown[]): {
+    questions: QuizQuestion[];
+    issues: QuestionIssue[];
+} {
+    const issues: QuestionIssue[] = [];
+    const parsed = data.map((raw, index) => {
+        const result = QuizQuestionSchema.safeParse(raw);
+        if (result.success) return result.data;
+
+        const id = (raw as { id?: unknown } | null)?.id;
+        issues.push({
+            index,
+            id: typeof id === 'string' ? id : undefined,
+            message: formatSchemaError(result.error),
+        });
+        return null;
+    });
+
+    const ruleIssues = findQuestionIssues(parsed);
+    const rejected = new Set(ruleIssues.map(issue => issue.index));
+    return {
+        questions: parsed.filter(
+            (question, index): question is QuizQuestion =>
+                question !== null && !rejected.has(index)
+        ),
+        issues: [...issues, ...ruleIssues].sort((a, b) => a.index - b.index),
+    };
+}
+
+// One line per schema problem, prefixed with the field it concerns
+export function formatSchemaError(error: z.ZodError): string {
+    return error.issues
+        .map(issue =>
+            issue.path.length > 0
+                ? `${issue.path.join('.')}: ${issue.message}`
+                : issue.message
+        )
+        .join('; ');
+}
+
+export function formatQuestionIssue(
+    location: string,
+    issue: QuestionIssue
+): string {
+    return `${location} ${issue.id ? `"${issue.id}" ` : ''}${issue.message}`;
+}
@@ -1,71 +1,72 @@
 // src/game/data/quizData.ts
-import { z } from 'zod';
 import quizQuestionsData from './quizQuestions.json';
+import {
+    QuestionHistory,
+    QuizQuestion,
+    QuizQuestionSchema,
+    QuizStats,
+    QuizStatsSchema,
+} from './quizSchema';
+import { findQuestionIssues, formatQuestionIssue } from './questionValidation';
+import { SeededRandom } from '../utils/random';
+import storageService, { ImportMode } from '@/services/StorageService';
+import { reviveDates } from '@/services/storageSchemas';
 
-// Zod schemas for validation
-export const QuestionTypeSchema = z.enum(['multipleChoice', 'trueFalse']);
-
-export const QuizQuestionSchema = z.object({
-    id: z.string(),
-    type: QuestionTypeSchema,
-    question: z.string(),
-    correctAnswer: z.union([z.string(), z.boolean()]),
-    options: z.array(z.string()).optional(),
-    explanation: z.string(),
-    difficulty: z.enum(['easy', 'medium', 'hard']),
-    category: z.enum(['pollination', 'flowers', 'environment']),
-});
-
-// Keep enum for backward compatibility
-export enum QuestionType {
-    MultipleChoice = 'multipleChoice',
-    TrueFalse = 'trueFalse',
-}
-
-export const QuizStatsSchema = z.object({
-    totalQuizzesTaken: z.number(),
-    correctAnswers: z.number(),
-    totalQuestions: z.number(),
-    lastQuizDate: z.date().nullable(),
-    gamesPlayedSinceLastQuiz: z.number(),
-});
-
-// Type exports
-export type QuestionTypeValue = z.infer<typeof QuestionTypeSchema>;
-export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
-export type QuizStats = z.infer<typeof QuizStatsSchema>;
+export * from './quizSchema';
 
 // Core quiz questions database
 export const QUIZ_QUESTIONS: QuizQuestion[] = quizQuestionsData.map(q =>
     QuizQuestionSchema.parse(q)
 );
 
-// Validate all questions at runtime
-QUIZ_QUESTIONS.forEach((question, index) => {
-    try {
-        QuizQuestionSchema.parse(question);
-    } catch (error) {
-        console.error(`Invalid question at index ${index}:`, error);
-    }
-});
+// Development builds also check the rules `bun run lint:questions` enforces
+if (process.env.NODE_ENV !== 'production') {
+    findQuestionIssues(QUIZ_QUESTIONS).forEach(issue => {
+        console.error(
+            formatQuestionIssue(`quizQuestions.json[${issue.index}]`, issue)
+        );
+    });
+}
 
-// Initialize quiz stats
-const initialQuizStats: QuizStats = {
+// Initialize quiz stats (a function so nested history is never shared)
+const createInitialQuizStats = (): QuizStats => ({
     totalQuizzesTaken: 0,
     correctAnswers: 0,
     totalQuestions: 0,
     lastQuizDate: null,
     gamesPlayedSinceLastQuiz: 0,
-};
+    questionHistory: {},
+    questionTurn: 0,
+    recentResults: [],
+});
+
+// --- Spaced repetition tuning ---
+const LEITNER_BOXES = 5;
+// Answers that must pass before a question in each box is due again
+const BOX_REVIEW_INTERVALS = [0, 2, 5, 10, 20];
+// Accuracy over the recent window unlocks harder tiers
+const RECENT_RESULTS_WINDOW = 10;
+const TIER_UNLOCKS = [
+    { minAnswers: 5, minAccuracy: 0.6 }, // Unlocks the second tier
+    { minAnswers: 8, minAccuracy: 0.8 }, // Unlocks the third tier
+];
+const TIER_ORDER: QuizQuestion['difficulty'][] = ['easy', 'medium', 'hard'];
+
+// Where stats were kept in localStorage: one key from before profiles
+// existed, then one per profile (now moved into storageService)
+const LEGACY_STATS_KEY = 'pollination_quiz_stats';
+const getLocalStatsKey = (profileId: number) =>
+    `${LEGACY_STATS_KEY}:${profileId}`;
 
 // Quiz Service class with validation
 export class QuizService {
     private static instance: QuizService;
-    private quizStats: QuizStats = { ...initialQuizStats };
-    private readonly storageKey = 'pollination_quiz_stats';
+    private quizStats: QuizStats = createInitialQuizStats();
+    // Bundled questions plus any imported question banks
+    private questions: QuizQuestion[] = QUIZ_QUESTIONS;
 
     private constructor() {
-        this.loadStats();
+        // Stats load once a profile is selected (see setProfile)
     }
 
     public static getInstance(): QuizService {
@@ -75,52 +76,201 @@ export class QuizService {
         return QuizService.instance;
     }
 
-    private loadStats(): void {
+    /**
+     * Switch to another player's stats
+     * @param profileId The profile to load stats for, already made active
+     * in storageService
+     * @param adoptLegacyStats Take over stats saved before profiles existed
+     */
+    public async setProfile(
+        profileId: number,
+        adoptLegacyStats = false
+    ): Promise<void> {
+        this.quizStats = createInitialQuizStats();
         try {
-            const savedStats = localStorage.getItem(this.storageKey);
+            const savedStats =
+                (await storageService.getQuizStats()) ??
+                (await this.moveLocalStats(profileId, adoptLegacyStats));
             if (savedStats) {
-                const parsedStats = JSON.parse(savedStats);
-                // Convert lastQuizDate string back to Date object if it exists
-                if (parsedStats.lastQuizDate) {
-                    parsedStats.lastQuizDate = new Date(
-                        parsedStats.lastQuizDate
-                    );
-                }
-                // Validate the parsed stats
-                const validatedStats = QuizStatsSchema.parse(parsedStats);
-                this.quizStats = validatedStats;
+                this.quizStats = QuizStatsSchema.parse(savedStats);
             }
         } catch (error) {
             console.error('Error loading quiz stats:', error);
             // Reset to initial stats if validation fails
-            this.quizStats = { ...initialQuizStats };
+            this.quizStats = createInitialQuizStats();
         }
     }
 
+    // Stats used to be kept in localStorage; move them into storage the
+    // first time the profile loads
+    private async moveLocalStats(
+        profileId: number,
+        adoptLegacyStats: boolean
+    ): Promise<QuizStats | null> {
+        if (typeof localStorage === 'undefined') return null;
+        const keys = [getLocalStatsKey(profileId)];
+        if (adoptLegacyStats) keys.push(LEGACY_STATS_KEY);
+
+        // The profile's own stats win over the pre-profile ones
+        const savedStats = keys
+            .map(key => localStorage.getItem(key))
+            .find(text => text !== null);
+        if (!savedStats) return null;
+
+        const stats = QuizStatsSchema.parse(
+            JSON.parse(savedStats, reviveDates)
+        );
+        await storageService.saveQuizStats(stats);
+        keys.forEach(key => localStorage.removeItem(key));
+        return stats;
+    }
+
     private saveStats(): void {
-        try {
-            localStorage.setItem(
-                this.storageKey,
-                JSON.stringify(this.quizStats)
-            );
-        } catch (error) {
-            console.error('Error saving quiz stats:', error);
-        }
+        // Copied so later answers can't change what's being written
+        storageService
+            .saveQuizStats(structuredClone(this.quizStats))
+            .catch(error => {
+                console.error('Error saving quiz stats:', error);
+            });
     }
 
     /**
      * Get random quiz questions for a quiz session
      * @param count Number of questions to retrieve
+     * @param tiers Difficulty tiers to draw from (all tiers if omitted)
+     * @param random Source for the shuffle (seed it to repeat the order)
+     * @param bundledOnly Leave out imported banks, which only this device has
      * @returns Array of quiz questions
      */
-    public getRandomQuizQuestions(count: number = 5): QuizQuestion[] {
+    public getRandomQuizQuestions(
+        count: number = 5,
+        tiers?: QuizQuestion['difficulty'][],
+        random: SeededRandom = new SeededRandom(),
+        bundledOnly: boolean = false
+    ): QuizQuestion[] {
+        const questions = this.getAllQuestions(bundledOnly);
+        // Fall back to the whole pool if no question matches the tiers
+        const matching = tiers
+            ? questions.filter(q => tiers.includes(q.difficulty))
+            : questions;
+        const pool = matching.length > 0 ? matching : questions;
+
         // Shuffle the questions array and return requested count
-        const shuffled = [...QUIZ_QUESTIONS];
-        for (let i = shuffled.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        const shuffled = random.shuffle([...pool]);
+        return shuffled.slice(0, Math.min(count, pool.length));
+    }
+
+    /**
+     * Pick questions for a bonus challenge, favoring ones the player got
+     * wrong or hasn't seen in a while, from the tiers their recent accuracy
+     * has unlocked.
+     * @param count Number of questions to retrieve
+     * @param allowedTiers Difficulty tiers the current game allows
+     * @param random Source for the draw (seed it to repeat the order)
+     * @returns Array of quiz questions
+     */
+    public getAdaptiveQuizQuestions(
+        count: number = 1,
+        allowedTiers: QuizQuestion['difficulty'][] = TIER_ORDER,
+        random: SeededRandom = new SeededRandom()
+    ): QuizQuestion[] {
+        const activeTiers = this.getActiveTiers(allowedTiers);
+        const hardestTier = activeTiers[activeTiers.length - 1];
+        const candidates = this.questions.filter(q =>
+            activeTiers.includes(q.difficulty)
+        );
+        if (candidates.length === 0) {
+            return this.getRandomQuizQuestions(count, allowedTiers, random);
         }
-        return shuffled.slice(0, Math.min(count, QUIZ_QUESTIONS.length));
+
+        // Weighted draw without replacement
+        const weighted = candidates.map(question => ({
+            question,
+            weight:
+                this.getReviewWeight(question.id) *
+                (question.difficulty === hardestTier ? 1.5 : 1), // Lean into the newest tier
+        }));
+        const picked: QuizQuestion[] = [];
+        while (picked.length < count && weighted.length > 0) {
+            const total = weighted.reduce((sum, w) => sum + w.weight, 0);
+            let roll = random.next() * total;
+            let index = weighted.findIndex(w => (roll -= w.weight) <= 0);
+            if (index === -1) index = weighted.length - 1; // Float rounding
+            picked.push(weighted[index].question);
+            weighted.splice(index, 1);
+        }
+        return picked;
+    }
+
+    /**
+     * Get the tiers currently open to the player: the easiest allowed tier,
+     * plus one more for each accuracy milestone reached recently
+     * @param allowedTiers Difficulty tiers the current game allows
+     */
+    public getActiveTiers(
+        allowedTiers: QuizQuestion['difficulty'][] = TIER_ORDER
+    ): QuizQuestion['difficulty'][] {
+        const ordered = TIER_ORDER.filter(tier => allowedTiers.includes(tier));
+        const { recentResults } = this.quizStats;
+        const accuracy =
+            recentResults.length > 0
+                ? recentResults.filter(Boolean).length / recentResults.length
+                : 0;
+
+        const unlocked = TIER_UNLOCKS.filter(
+            ({ minAnswers, minAccuracy }) =>
+                recentResults.length >= minAnswers && accuracy >= minAccuracy
+        ).length;
+        return ordered.slice(0, 1 + unlocked);
+    }
+
+    // How strongly a question should be favored right now
+    private getReviewWeight(questionId: string): number {
+        const history = this.quizStats.questionHistory[questionId];
+        if (!history) return 3; // Never seen
+
+        const answersSince = this.quizStats.questionTurn - history.lastSeenTurn;
+        const isDue = answersSince >= BOX_REVIEW_INTERVALS[history.box - 1];
+        if (!isDue) return 0.1;
+        // Lower boxes (recently missed) come back first
+        return 1 + (LEITNER_BOXES - history.box) * 0.5;
+    }
+
+    /**
+     * Record the answer to a single question and update its Leitner box
+     * @param questionId The question that was answered
+     * @param isCorrect Whether the answer was correct
+     */
+    public recordAnswer(questionId: string, isCorrect: boolean): void {
+        const previous = this.quizStats.questionHistory[questionId];
+        const box = previous?.box ?? 1;
+
+        this.quizStats.questionHistory[questionId] = {
+            attempts: (previous?.attempts ?? 0) + 1,
+            correct: (previous?.correct ?? 0) + (isCorrect ? 1 : 0),
+            lastSeen: new Date(),
+            lastSeenTurn: this.quizStats.questionTurn,
+            // Correct answers move up a box; a miss sends it back to the start
+            box: isCorrect ? Math.min(box + 1, LEITNER_BOXES) : 1,
+        };
+        this.quizStats.questionTurn += 1;
+        this.quizStats.recentResults = [
+            ...this.quizStats.recentResults,
+            isCorrect,
+        ].slice(-RECENT_RESULTS_WINDOW);
+
+        // Aggregate counts (also persists the stats)
+        this.recordQuizResults(isCorrect ? 1 : 0, 1);
+    }
+
+    /**
+     * Get the spaced repetition history for a question
+     * @param questionId The question to look up
+     * @returns The question's history, or undefined if never answered
+     */
+    public getQuestionHistory(questionId: string): QuestionHistory | undefined {
+        const history = this.quizStats.questionHistory[questionId];
+        return history ? { ...history } : undefined;
     }
 
     /**
@@ -164,12 +314,66 @@ export class QuizService {
         return { ...this.quizStats };
     }
 
+    /**
+     * Bring in quiz stats from a save file
+     * @param imported Validated stats from the file
+     * @param mode 'replace' discards the current stats; 'merge' keeps the
+     * further-along totals and the latest history for each question
+     */
+    public importStats(imported: QuizStats, mode: ImportMode): void {
+        if (mode === 'replace') {
+            this.quizStats = imported;
+        } else {
+            const current = this.quizStats;
+            const base =
+                imported.totalQuestions > current.totalQuestions
+                    ? imported
+                    : current;
+            const questionHistory = { ...current.questionHistory };
+            Object.entries(imported.questionHistory).forEach(
+                ([questionId, history]) => {
+                    const existing = questionHistory[questionId];
+                    if (
+                        !existing ||
+                        (history.lastSeen?.getTime() ?? 0) >
+                            (existing.lastSeen?.getTime() ?? 0)
+                    ) {
+                        questionHistory[questionId] = history;
+                    }
+                }
+            );
+            this.quizStats = {
+                ...base,
+                questionHistory,
+                questionTurn: Math.max(
+                    current.questionTurn,
+                    imported.questionTurn
+                ),
+            };
+        }
+        this.saveStats();
+    }
+
+    /**
+     * Merge questions from imported banks into the pool. Imported questions
+     * replace bundled ones with the same id.
+     * @param imported Validated questions from every stored bank
+     */
+    public setImportedQuestions(imported: QuizQuestion[]): void {
+        const importedIds = new Set(imported.map(q => q.id));
+        this.questions = [
+            ...QUIZ_QUESTIONS.filter(q => !importedIds.has(q.id)),
+            ...imported,
+        ];
+    }
+
     /**
      * Get all available questions (for admin/debug purposes)
+     * @param bundledOnly Only the questions that ship with the game
      * @returns All quiz questions
      */
-    public getAllQuestions(): QuizQuestion[] {
-        return [...QUIZ_QUESTIONS];
+    public getAllQuestions(bundledOnly: boolean = false): QuizQuestion[] {
+        return [...(bundledOnly ? QUIZ_QUESTIONS : this.questions)];
     }
 
     /**
@@ -180,7 +384,7 @@ export class QuizService {
     public getQuestionsByCategory(
         category: QuizQuestion['category']
     ): QuizQuestion[] {
-        return QUIZ_QUESTIONS.filter(q => q.category === category);
+        return this.questions.filter(q => q.category === category);
     }
 
     /**
@@ -191,7 +395,7 @@ export class QuizService {
     public getQuestionsByDifficulty(
         difficulty: QuizQuestion['difficulty']
     ): QuizQuestion[] {
-        return QUIZ_QUESTIONS.filter(q => q.difficulty === difficulty);
+        return this.questions.filter(q => q.difficulty === difficulty);
     }
 }
 
@@ -0,0 +1,127 @@
+// src/game/data/quizSchema.ts
+// Free of browser APIs so Bun scripts (lint-questions.ts) can import it
+import { z } from 'zod';
+import { DIAGRAM_PART_KEYS } from './flowerDiagram';
+
+// Structure of a question. Rules that need the whole question (answer is
+// one of the options, ids are unique, ...) live in questionValidation.ts.
+export const QuestionTypeSchema = z.enum([
+    'multipleChoice',
+    'trueFalse',
+    'matching',
+    'ordering',
+    'numeric',
+    'labeling',
+]);
+
+export const QuestionDifficultySchema = z.enum(['easy', 'medium', 'hard']);
+export const QuestionCategorySchema = z.enum([
+    'pollination',
+    'flowers',
+    'environment',
+]);
+
+// Fields shared by every question type
+const BaseQuestionSchema = z.object({
+    id: z.string().min(1),
+    question: z.string().min(1),
+    explanation: z.string(),
+    difficulty: QuestionDifficultySchema,
+    category: QuestionCategorySchema,
+});
+
+export const MultipleChoiceQuestionSchema = BaseQuestionSchema.extend({
+    type: z.literal('multipleChoice'),
+    options: z.array(z.string()).min(2).max(6),
+    correctAnswer: z.string(),
+});
+
+export const TrueFalseQuestionSchema = BaseQuestionSchema.extend({
+    type: z.literal('trueFalse'),
+    correctAnswer: z.boolean(),
+});
+
+// Match each left item to its right item (e.g. pollinator -> flower trait)
+export const MatchingQuestionSchema = BaseQuestionSchema.extend({
+    type: z.literal('matching'),
+    pairs: z
+        .array(z.object({ left: z.string(), right: z.string() }))
+        .min(2)
+        .max(4),
+});
+
+// Visit the steps in order (steps are listed in the correct order)
+export const OrderingQuestionSchema = BaseQuestionSchema.extend({
+    type: z.literal('ordering'),
+    steps: z.array(z.string()).min(3).max(5),
+});
+
+// Dial in a whole number between min and max
+export const NumericQuestionSchema = BaseQuestionSchema.extend({
+    type: z.literal('numeric'),
+    correctAnswer: z.number().int(),
+    min: z.number().int(),
+    max: z.number().int(),
+    unit: z.string().optional(),
+});
+
+// Find the named parts on the generated flower diagram
+export const LabelingQuestionSchema = BaseQuestionSchema.extend({
+    type: z.literal('labeling'),
+    diagram: z.literal('flower'),
+    parts: z.array(z.enum(DIAGRAM_PART_KEYS)).min(1).max(4),
+});
+
+export const QuizQuestionSchema = z.discriminatedUnion('type', [
+    MultipleChoiceQuestionSchema,
+    TrueFalseQuestionSchema,
+    MatchingQuestionSchema,
+    OrderingQuestionSchema,
+    NumericQuestionSchema,
+    LabelingQuestionSchema,
+]);
+
+// Keep enum for backward compatibility
+export enum QuestionType {
+    MultipleChoice = 'multipleChoice',
+    TrueFalse = 'trueFalse',
+    Matching = 'matching',
+    Ordering = 'ordering',
+    Numeric = 'numeric',
+    Labeling = 'labeling',
+}
+
+// Per-question spaced repetition state (Leitner system)
+export const QuestionHistorySchema = z.object({
+    attempts: z.number(),
+    correct: z.number(),
+    lastSeen: z.coerce.date().nullable(),
+    lastSeenTurn: z.number(), // Value of questionTurn when last answered
+    box: z.number().min(1), // Leitner box: 1 = needs practice ... 5 = mastered
+});
+
+export const QuizStatsSchema = z.object({
+    totalQuizzesTaken: z.number(),
+    correctAnswers: z.number(),
+    totalQuestions: z.number(),
+    lastQuizDate: z.date().nullable(),
+    gamesPlayedSinceLastQuiz: z.number(),
+    // Defaults let stats saved before spaced repetition still load
+    questionHistory: z.record(z.string(), QuestionHistorySchema).default({}),
+    questionTurn: z.number().default(0), // Answers given so far, used as the review clock
+    recentResults: z.array(z.boolean()).default([]), // Latest answers, newest last
+});
+
+// Type exports
+export type QuestionTypeValue = z.infer<typeof QuestionTypeSchema>;
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+export type MultipleChoiceQuestion = z.infer<
+    typeof MultipleChoiceQuestionSchema
+>;
+export type TrueFalseQuestion = z.infer<typeof TrueFalseQuestionSchema>;
+export type MatchingQuestion = z.infer<typeof MatchingQuestionSchema>;
+export type OrderingQuestion = z.infer<typeof OrderingQuestionSchema>;
+export type NumericQuestion = z.infer<typeof NumericQuestionSchema>;
+export type LabelingQuestion = z.infer<typeof LabelingQuestionSchema>;
+export type QuizStats = z.infer<typeof QuizStatsSchema>;
+export type QuestionHistory = z.infer<typeof QuestionHistorySchema>;
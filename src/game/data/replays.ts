@@ -0,0 +1,72 @@
+// src/game/data/replays.ts
+import { MovementVector, toDigitalVector } from './controls';
+
+// Bits of an input mask, from replays recorded before analog input: one
+// per held direction
+const DIRECTION_BITS = {
+    up: 1,
+    down: 2,
+    left: 4,
+    right: 8,
+};
+// Input codes below this are such masks
+const FIRST_VECTOR_CODE = 16;
+// Vectors are saved to the nearest hundredth on each axis
+const VECTOR_STEPS = 100;
+const AXIS_VALUES = VECTOR_STEPS * 2 + 1;
+
+// Milliseconds of movement between recorded bee positions
+export const PATH_INTERVAL_MS = 100;
+
+// Packs a movement vector into one recorded number
+export function toInputCode({ x, y }: MovementVector): number {
+    const qx = Math.round(x * VECTOR_STEPS) + VECTOR_STEPS;
+    const qy = Math.round(y * VECTOR_STEPS) + VECTOR_STEPS;
+    return FIRST_VECTOR_CODE + qx * AXIS_VALUES + qy;
+}
+
+export function fromInputCode(code: number): MovementVector {
+    if (code < FIRST_VECTOR_CODE) {
+        return toDigitalVector({
+            up: (code & DIRECTION_BITS.up) !== 0,
+            down: (code & DIRECTION_BITS.down) !== 0,
+            left: (code & DIRECTION_BITS.left) !== 0,
+            right: (code & DIRECTION_BITS.right) !== 0,
+        });
+    }
+    const packed = code - FIRST_VECTOR_CODE;
+    return {
+        x: (Math.floor(packed / AXIS_VALUES) - VECTOR_STEPS) / VECTOR_STEPS,
+        y: ((packed % AXIS_VALUES) - VECTOR_STEPS) / VECTOR_STEPS,
+    };
+}
+
+// A movement as it will be recorded, so the live run steers exactly as its
+// replay will
+export function quantizeMovement(movement: MovementVector): MovementVector {
+    return fromInputCode(toInputCode(movement));
+}
+
+/**
+ * Where a recorded bee was at a point in the run, between the two nearest
+ * samples (held at the last one once the path runs out)
+ * @param path Flat [x, y, x, y, ...] samples
+ * @param time Milliseconds of movement into the run
+ */
+export function getPathPoint(
+    path: number[],
+    interval: number,
+    time: number
+): { x: number; y: number } | null {
+    const samples = path.length / 2;
+    if (samples === 0) return null;
+
+    const position = Math.max(0, time / interval);
+    const index = Math.min(Math.floor(position), samples - 1);
+    const next = Math.min(index + 1, samples - 1);
+    const t = Math.min(position - index, 1);
+    return {
+        x: path[index * 2] + (path[next * 2] - path[index * 2]) * t,
+        y: path[index * 2 + 1] + (path[next * 2 + 1] - path[index * 2 + 1]) * t,
+    };
+}
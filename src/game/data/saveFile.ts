@@ -0,0 +1,132 @@
+// src/game/data/saveFile.ts
+import { z } from 'zod';
+import storageService, { ImportMode } from '@/services/StorageService';
+import {
+    PlayerProfileSchema,
+    ProfileDataSchema,
+    reviveDates,
+} from '@/services/storageSchemas';
+import { QuizService, QuizStatsSchema } from './quizData';
+import { getActiveProfile } from './profiles';
+import { audioManager } from '../managers/AudioManager';
+
+const SAVE_FILE_FORMAT = 'pollination-save';
+// Bump when the shape of `data` changes, and teach readSaveFile the old one
+export const SAVE_FILE_VERSION = 1;
+
+const SaveDataSchema = ProfileDataSchema.extend({
+    profile: PlayerProfileSchema.pick({ name: true, color: true }),
+    quizStats: QuizStatsSchema,
+});
+
+const SaveFileSchema = z.object({
+    format: z.literal(SAVE_FILE_FORMAT),
+    version: z.number().int().min(1),
+    exportedAt: z.date(),
+    checksum: z.string(), // SHA-256 of the JSON text of `data`
+    data: z.unknown(),
+});
+
+export type SaveData = z.infer<typeof SaveDataSchema>;
+
+/**
+ * A save file that can't be imported; the message is shown to the player
+ */
+export class SaveFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SaveFileError';
+    }
+}
+
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(text)
+    );
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Everything saved for the active profile, as the text of a save file
+ */
+export async function createSaveFile(): Promise<{
+    fileName: string;
+    text: string;
+}> {
+    const profile = await getActiveProfile();
+    const data: SaveData = {
+        ...(await storageService.exportProfileData()),
+        profile: {
+            name: profile?.name ?? 'Player',
+            color: profile?.color ?? 0xffc107,
+        },
+        quizStats: QuizService.getInstance().getQuizStats(),
+    };
+    const dataText = JSON.stringify(data);
+    const file = {
+        format: SAVE_FILE_FORMAT,
+        version: SAVE_FILE_VERSION,
+        exportedAt: new Date(),
+        checksum: await sha256(dataText),
+        data,
+    };
+
+    const slug = data.profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const day = file.exportedAt.toISOString().slice(0, 10);
+    return {
+        fileName: `pollination-save-${slug}-${day}.json`,
+        text: JSON.stringify(file, null, 2),
+    };
+}
+
+/**
+ * Check a save file's format, version, checksum and contents
+ * @throws SaveFileError describing the first problem found
+ */
+export async function readSaveFile(text: string): Promise<SaveData> {
+    let raw: { data?: unknown };
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new SaveFileError("That file isn't a save file (not JSON).");
+    }
+
+    const file = SaveFileSchema.safeParse(JSON.parse(text, reviveDates));
+    if (!file.success) {
+        throw new SaveFileError("That file isn't a Pollination save file.");
+    }
+    if (file.data.version > SAVE_FILE_VERSION) {
+        throw new SaveFileError(
+            'That save file is from a newer version of the game.'
+        );
+    }
+    // The checksum covers the data exactly as it was written
+    if ((await sha256(JSON.stringify(raw.data))) !== file.data.checksum) {
+        throw new SaveFileError(
+            'That save file has been changed or damaged (checksum mismatch).'
+        );
+    }
+
+    const data = SaveDataSchema.safeParse(file.data.data);
+    if (!data.success) {
+        console.warn('Invalid save file data:', z.prettifyError(data.error));
+        throw new SaveFileError("That save file's data couldn't be read.");
+    }
+    return data.data;
+}
+
+/**
+ * Load a checked save file into the active profile
+ */
+export async function applySaveFile(
+    data: SaveData,
+    mode: ImportMode
+): Promise<void> {
+    await storageService.importProfileData(data, mode);
+    QuizService.getInstance().importStats(data.quizStats, mode);
+    // Settings may have changed
+    await audioManager.loadVolumes();
+}
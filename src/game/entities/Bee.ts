@@ -1,17 +1,22 @@
 // src/game/entities/Bee.ts
 import * as Phaser from 'phaser';
 import gsap from 'gsap';
+import { FlowerColorKey } from '../data/flowerTypes';
+import { MovementVector } from '../data/controls';
 
 export class Bee extends Phaser.Physics.Arcade.Sprite {
     private wingFlapTween: gsap.core.Tween | null = null;
     private isMoving: boolean = false;
+    private wingsFrozen: boolean = false; // Wing tween was playing when paused
+    private readonly speed: number; // Pixels per second
 
     // Pollen state
-    public carryingPollenType: 'red' | 'blue' | null = null;
+    public carryingPollenType: FlowerColorKey | null = null;
     private pollenIndicator: Phaser.GameObjects.Sprite | null = null;
 
-    constructor(scene: Phaser.Scene, x: number, y: number) {
+    constructor(scene: Phaser.Scene, x: number, y: number, speed = 250) {
         super(scene, x, y, 'bee_generated');
+        this.speed = speed;
 
         // Add to scene and enable physics
         scene.add.existing(this);
@@ -82,29 +87,23 @@ export class Bee extends Phaser.Physics.Arcade.Sprite {
         this.isMoving = false;
     }
 
-    // Updates movement based on keyboard/dpad input
-    public updateMovement(
-        cursors?: Phaser.Types.Input.Keyboard.CursorKeys,
-        dpadState?: {
-            up: boolean;
-            down: boolean;
-            left: boolean;
-            right: boolean;
-        }
-    ): void {
+    /**
+     * Steers the bee for this frame
+     * @param movement Direction and strength from the player's controls;
+     * a length of 1 is full speed, so an analog stick pushed halfway flies
+     * at half speed
+     */
+    public updateMovement(movement: MovementVector): void {
         if (!this.body || !(this.body as Phaser.Physics.Arcade.Body).enable)
             return;
 
-        const speed = 250;
-        const moveVector = this.getMovementInput(cursors, dpadState);
+        const moveVector = new Phaser.Math.Vector2(movement.x, movement.y);
+        // Never faster than full speed, whatever the controls report
+        if (moveVector.length() > 1) moveVector.normalize();
         const isNowTryingToMove = moveVector.length() > 0;
 
         // Apply velocity
-        this.setVelocity(0); // Reset velocity first
-        if (isNowTryingToMove) {
-            moveVector.normalize();
-            this.setVelocity(moveVector.x * speed, moveVector.y * speed);
-        }
+        this.setVelocity(moveVector.x * this.speed, moveVector.y * this.speed);
 
         // Flip sprite based on direction
         if (moveVector.x < 0) this.setFlipX(true);
@@ -120,27 +119,6 @@ export class Bee extends Phaser.Physics.Arcade.Sprite {
         this.updatePollenIndicatorPosition();
     }
 
-    // Helper to get movement vector from input
-    private getMovementInput(
-        cursors?: Phaser.Types.Input.Keyboard.CursorKeys,
-        dpadState?: {
-            up: boolean;
-            down: boolean;
-            left: boolean;
-            right: boolean;
-        }
-    ): Phaser.Math.Vector2 {
-        const leftPressed = cursors?.left.isDown || dpadState?.left;
-        const rightPressed = cursors?.right.isDown || dpadState?.right;
-        const upPressed = cursors?.up.isDown || dpadState?.up;
-        const downPressed = cursors?.down.isDown || dpadState?.down;
-
-        const moveX = (rightPressed ? 1 : 0) - (leftPressed ? 1 : 0);
-        const moveY = (downPressed ? 1 : 0) - (upPressed ? 1 : 0);
-
-        return new Phaser.Math.Vector2(moveX, moveY);
-    }
-
     // Helper to update wing animation based on movement state
     private updateWingAnimationState(isTryingToMove: boolean): void {
         const startedMoving = isTryingToMove && !this.isMoving;
@@ -156,6 +134,22 @@ export class Bee extends Phaser.Physics.Arcade.Sprite {
         }
     }
 
+    // Freezes the GSAP wing flap (Phaser's scene pause doesn't reach GSAP)
+    public pauseAnimations(): void {
+        if (this.wingFlapTween && !this.wingFlapTween.paused()) {
+            this.wingFlapTween.pause();
+            this.wingsFrozen = true;
+        }
+    }
+
+    // Continues the wing flap exactly where pauseAnimations left it
+    public resumeAnimations(): void {
+        if (this.wingsFrozen) {
+            this.wingFlapTween?.resume();
+            this.wingsFrozen = false;
+        }
+    }
+
     // Set references to the pollen indicator and its tween
     public setPollenIndicator(
         indicator: Phaser.GameObjects.Sprite | null
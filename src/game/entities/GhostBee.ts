@@ -0,0 +1,46 @@
+// src/game/entities/GhostBee.ts
+import * as Phaser from 'phaser';
+import { getPathPoint } from '../data/replays';
+import { ReplayRecording } from '../managers/ReplayRecorder';
+
+/**
+ * A see-through bee flying a recorded run's path, for the player to race.
+ * No physics body, so it never touches flowers.
+ */
+export class GhostBee extends Phaser.GameObjects.Sprite {
+    private readonly recording: ReplayRecording;
+
+    constructor(scene: Phaser.Scene, recording: ReplayRecording) {
+        const start = getPathPoint(
+            recording.path,
+            recording.pathInterval,
+            0
+        ) ?? { x: 100, y: scene.cameras.main.height / 2 };
+        super(scene, start.x, start.y, 'bee_generated');
+        this.recording = recording;
+
+        scene.add.existing(this);
+        // Under the player's bee, tinted so the two aren't confused
+        this.setDepth(9).setTint(0xaad4ff).setAlpha(0);
+        scene.tweens.add({
+            targets: this,
+            alpha: 0.45,
+            duration: 500,
+            ease: 'Power2',
+        });
+    }
+
+    /**
+     * Move to where the recorded bee was
+     * @param time Milliseconds of movement into the run
+     */
+    public follow(time: number): void {
+        const { path, pathInterval } = this.recording;
+        const point = getPathPoint(path, pathInterval, time);
+        if (!point) return;
+
+        if (point.x < this.x) this.setFlipX(true);
+        else if (point.x > this.x) this.setFlipX(false);
+        this.setPosition(point.x, point.y);
+    }
+}
@@ -0,0 +1,143 @@
+// src/game/events.ts
+import { z } from 'zod';
+import { KeyBindingsSchema } from './data/controls';
+
+/**
+ * Every event name used between React and Phaser
+ */
+export const COMMON_EVENTS = {
+    SCENE_CHANGED: 'scene:changed',
+    GAME_SET_INPUT_ACTIVE: 'game:set-input-active',
+    GAME_REQUEST_PAUSE: 'game:request-pause',
+    UI_GAME_ACTIVE: 'ui:game-active',
+    UI_MODAL_CLOSED: 'ui:modal-closed',
+    UI_HIDE_MODAL: 'ui:hide-modal',
+    UI_UPDATE_TIMER: 'ui:update-timer',
+    UPDATE_SCORE: 'update-score',
+    SHOW_FACT: 'show-fact',
+    DPAD: 'dpad',
+    JOYSTICK: 'joystick',
+    SETTINGS_CHANGED: 'settings:changed',
+    // Emitted on the Game scene's own emitter and relayed by PhaserGame
+    GAME_UPDATE_SCORE: 'game:update-score',
+    GAME_UPDATE_TIMER: 'game:update-timer',
+    GAME_SHOW_FACT: 'game:show-fact',
+    // Gameplay milestones the achievements engine listens for
+    GAMEPLAY_GAME_STARTED: 'gameplay:game-started',
+    GAMEPLAY_POLLINATION: 'gameplay:pollination',
+    GAMEPLAY_WAVE_REACHED: 'gameplay:wave-reached',
+    GAMEPLAY_SPECIES_DISCOVERED: 'gameplay:species-discovered',
+    GAMEPLAY_CHALLENGE_COMPLETED: 'gameplay:challenge-completed',
+    ACHIEVEMENT_UNLOCKED: 'achievement:unlocked',
+} as const;
+
+// --- Payload schemas ---
+
+export const DpadPayloadSchema = z.object({
+    direction: z.enum(['up', 'down', 'left', 'right']),
+    active: z.boolean(),
+});
+
+// Joystick direction; the length (up to 1) is how far it's pushed
+export const JoystickPayloadSchema = z.object({
+    x: z.number().min(-1).max(1),
+    y: z.number().min(-1).max(1),
+});
+
+export const SettingsPayloadSchema = z.object({
+    musicVolume: z.number().min(0).max(10).optional(),
+    soundVolume: z.number().min(0).max(10).optional(),
+    difficulty: z.string().optional(),
+    knowledgeNectar: z.boolean().optional(),
+    ghostBee: z.boolean().optional(),
+    keyBindings: KeyBindingsSchema.optional(),
+    touchControls: z.string().optional(),
+});
+
+export const ChallengeResultPayloadSchema = z.object({
+    correct: z.boolean(),
+    timeLeft: z.number().min(0).max(1), // Share of the answer time unused
+});
+
+export const AchievementPayloadSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string(),
+    icon: z.string(),
+});
+
+export type DpadPayload = z.infer<typeof DpadPayloadSchema>;
+export type JoystickPayload = z.infer<typeof JoystickPayloadSchema>;
+export type SettingsPayload = z.infer<typeof SettingsPayloadSchema>;
+export type ChallengeResultPayload = z.infer<
+    typeof ChallengeResultPayloadSchema
+>;
+export type AchievementPayload = z.infer<typeof AchievementPayloadSchema>;
+
+// Argument tuple for each EventBus event
+export const EVENT_SCHEMAS = {
+    [COMMON_EVENTS.SCENE_CHANGED]: z.tuple([z.string()]),
+    [COMMON_EVENTS.GAME_SET_INPUT_ACTIVE]: z.tuple([z.boolean()]),
+    [COMMON_EVENTS.GAME_REQUEST_PAUSE]: z.tuple([]),
+    [COMMON_EVENTS.UI_GAME_ACTIVE]: z.tuple([z.boolean()]),
+    [COMMON_EVENTS.UI_MODAL_CLOSED]: z.tuple([]),
+    [COMMON_EVENTS.UI_HIDE_MODAL]: z.tuple([]),
+    [COMMON_EVENTS.UI_UPDATE_TIMER]: z.tuple([z.number()]),
+    [COMMON_EVENTS.UPDATE_SCORE]: z.tuple([z.number()]),
+    [COMMON_EVENTS.SHOW_FACT]: z.tuple([z.string()]),
+    [COMMON_EVENTS.DPAD]: z.tuple([DpadPayloadSchema]),
+    [COMMON_EVENTS.JOYSTICK]: z.tuple([JoystickPayloadSchema]),
+    [COMMON_EVENTS.SETTINGS_CHANGED]: z.tuple([SettingsPayloadSchema]),
+    [COMMON_EVENTS.GAMEPLAY_GAME_STARTED]: z.tuple([]),
+    [COMMON_EVENTS.GAMEPLAY_POLLINATION]: z.tuple([]),
+    [COMMON_EVENTS.GAMEPLAY_WAVE_REACHED]: z.tuple([z.number().int()]),
+    [COMMON_EVENTS.GAMEPLAY_SPECIES_DISCOVERED]: z.tuple([z.string()]),
+    [COMMON_EVENTS.GAMEPLAY_CHALLENGE_COMPLETED]: z.tuple([
+        ChallengeResultPayloadSchema,
+    ]),
+    [COMMON_EVENTS.ACHIEVEMENT_UNLOCKED]: z.tuple([AchievementPayloadSchema]),
+};
+
+// Argument tuple for each event on the Game scene's emitter
+export const GAME_SCENE_EVENT_SCHEMAS = {
+    [COMMON_EVENTS.GAME_UPDATE_SCORE]: z.tuple([z.number()]),
+    [COMMON_EVENTS.GAME_UPDATE_TIMER]: z.tuple([z.number()]),
+    [COMMON_EVENTS.GAME_SHOW_FACT]: z.tuple([z.string()]),
+};
+
+export type EventName = keyof typeof EVENT_SCHEMAS;
+export type EventArgs<K extends EventName> = z.infer<(typeof EVENT_SCHEMAS)[K]>;
+export type EventListener<K extends EventName> = (
+    ...args: EventArgs<K>
+) => void;
+
+export type GameSceneEventName = keyof typeof GAME_SCENE_EVENT_SCHEMAS;
+export type GameSceneEventArgs<K extends GameSceneEventName> = z.infer<
+    (typeof GAME_SCENE_EVENT_SCHEMAS)[K]
+>;
+
+// Runtime payload checks only run in development builds
+const VALIDATE_PAYLOADS = process.env.NODE_ENV !== 'production';
+
+/**
+ * Checks an event's arguments against its schema (development only).
+ * Throws so a broken React/Phaser contract shows up at the emit site.
+ */
+export function validateEventArgs(
+    schemas: Record<string, z.ZodType>,
+    event: string,
+    args: unknown[]
+): void {
+    if (!VALIDATE_PAYLOADS) return;
+
+    const schema = schemas[event];
+    if (!schema) {
+        throw new Error(`Unknown event "${event}"`);
+    }
+    const result = schema.safeParse(args);
+    if (!result.success) {
+        throw new Error(
+            `Invalid payload for event "${event}": ${z.prettifyError(result.error)}`
+        );
+    }
+}
@@ -6,6 +6,15 @@ import { MainMenu } from './scenes/MainMenu';
 import { Game } from './scenes/Game';
 import { GameOver } from './scenes/GameOver';
 import { Settings } from './scenes/Settings'; // Import the new Settings scene
+import { Journal } from './scenes/Journal';
+import { Trophies } from './scenes/Trophies';
+import { DailyGarden } from './scenes/DailyGarden';
+import { Replays } from './scenes/Replays';
+import { Pause } from './scenes/Pause';
+import { QuestionBank } from './scenes/QuestionBank';
+import { Profiles } from './scenes/Profiles';
+import { SaveData } from './scenes/SaveData';
+import { Controls } from './scenes/Controls';
 
 // Define the configuration for the game
 const config: Phaser.Types.Core.GameConfig = {
@@ -30,7 +39,32 @@ const config: Phaser.Types.Core.GameConfig = {
         parent: 'game-container',
         // width/height above remain the game's base resolution; FIT will scale it
     },
-    scene: [Boot, Preloader, MainMenu, Game, GameOver, Settings],
+    // Gamepads can steer the bee (see InputController)
+    input: {
+        gamepad: true,
+    },
+    // Lets scenes place real HTML inputs (e.g. profile names) over the canvas
+    dom: {
+        createContainer: true,
+    },
+    // Pause is last so it renders above Game (and Settings opened from it)
+    scene: [
+        Boot,
+        Preloader,
+        Profiles,
+        MainMenu,
+        Game,
+        GameOver,
+        Settings,
+        Journal,
+        Trophies,
+        DailyGarden,
+        Replays,
+        QuestionBank,
+        SaveData,
+        Controls,
+        Pause,
+    ],
 };
 
 // Create a new Phaser game instance via the exported function
@@ -0,0 +1,202 @@
+// src/game/managers/AchievementManager.ts
+import EventBus from '../EventBus';
+import storageService, { AchievementRecord } from '@/services/StorageService';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+import { ChallengeResultPayload } from '../events';
+import {
+    ACHIEVEMENTS,
+    AchievementDefinition,
+    AchievementStat,
+    PERFECT_CHALLENGE_TIME_LEFT,
+    PER_GAME_STATS,
+} from '../data/achievements';
+
+type AchievementProgress = Omit<AchievementRecord, 'profileId'>;
+
+export interface AchievementStatus {
+    definition: AchievementDefinition;
+    unlockedAt: Date | null;
+    // Current value of the stat, capped at the goal (null for stats that
+    // start over each game)
+    progress: number | null;
+}
+
+const createInitialProgress = (): AchievementProgress => ({
+    unlocked: {},
+    stats: {
+        pollinations: 0,
+        perfectChallenges: 0,
+        speciesDiscovered: 0,
+        quizStreak: 0,
+        bestQuizStreak: 0,
+    },
+});
+
+/**
+ * AchievementManager follows the gameplay events on the EventBus, keeps the
+ * stats the achievement definitions are measured against, and unlocks them
+ * for the active profile. Like AudioManager it lives for the whole game.
+ */
+export class AchievementManager {
+    private static instance: AchievementManager;
+    private progress: AchievementProgress = createInitialProgress();
+    // Stats for the game being played
+    private gameStats = { gamePollinations: 0, wave: 1 };
+
+    private constructor() {
+        EventBus.on(
+            COMMON_EVENTS.GAMEPLAY_GAME_STARTED,
+            this.handleGameStarted,
+            this
+        );
+        EventBus.on(
+            COMMON_EVENTS.GAMEPLAY_POLLINATION,
+            this.handlePollination,
+            this
+        );
+        EventBus.on(
+            COMMON_EVENTS.GAMEPLAY_WAVE_REACHED,
+            this.handleWaveReached,
+            this
+        );
+        EventBus.on(
+            COMMON_EVENTS.GAMEPLAY_SPECIES_DISCOVERED,
+            this.handleSpeciesDiscovered,
+            this
+        );
+        EventBus.on(
+            COMMON_EVENTS.GAMEPLAY_CHALLENGE_COMPLETED,
+            this.handleChallengeCompleted,
+            this
+        );
+    }
+
+    public static getInstance(): AchievementManager {
+        if (!AchievementManager.instance) {
+            AchievementManager.instance = new AchievementManager();
+        }
+        return AchievementManager.instance;
+    }
+
+    /**
+     * Load the active profile's unlocks and stats (called after switching
+     * profiles)
+     */
+    public async loadProfile(): Promise<void> {
+        this.progress = createInitialProgress();
+        try {
+            const [saved, collection] = await Promise.all([
+                storageService.getAchievements(),
+                storageService.getFlowerCollection(),
+            ]);
+            if (saved) {
+                this.progress = {
+                    unlocked: saved.unlocked,
+                    stats: saved.stats,
+                };
+            }
+            // Species found before achievements existed still count
+            this.progress.stats.speciesDiscovered = Math.max(
+                this.progress.stats.speciesDiscovered,
+                collection.length
+            );
+        } catch (error) {
+            console.error('Error loading achievements:', error);
+        }
+    }
+
+    /**
+     * Every achievement in display order, with whether and when the active
+     * profile unlocked it
+     */
+    public getAchievements(): AchievementStatus[] {
+        return ACHIEVEMENTS.map(definition => {
+            const unlockedAt = this.progress.unlocked[definition.id] ?? null;
+            return {
+                definition,
+                unlockedAt,
+                progress: unlockedAt
+                    ? definition.goal
+                    : PER_GAME_STATS.includes(definition.stat)
+                      ? null
+                      : Math.min(
+                            this.getStat(definition.stat),
+                            definition.goal
+                        ),
+            };
+        });
+    }
+
+    private handleGameStarted(): void {
+        this.gameStats = { gamePollinations: 0, wave: 1 };
+    }
+
+    private handlePollination(): void {
+        this.progress.stats.pollinations += 1;
+        this.gameStats.gamePollinations += 1;
+        this.checkUnlocks();
+    }
+
+    private handleWaveReached(wave: number): void {
+        this.gameStats.wave = wave;
+        this.checkUnlocks();
+    }
+
+    private handleSpeciesDiscovered(): void {
+        this.progress.stats.speciesDiscovered += 1;
+        this.checkUnlocks();
+    }
+
+    private handleChallengeCompleted({
+        correct,
+        timeLeft,
+    }: ChallengeResultPayload): void {
+        const { stats } = this.progress;
+        if (correct && timeLeft >= PERFECT_CHALLENGE_TIME_LEFT) {
+            stats.perfectChallenges += 1;
+        }
+        stats.quizStreak = correct ? stats.quizStreak + 1 : 0;
+        stats.bestQuizStreak = Math.max(stats.bestQuizStreak, stats.quizStreak);
+        this.checkUnlocks();
+    }
+
+    private getStat(stat: AchievementStat): number {
+        const { stats } = this.progress;
+        const values: Record<AchievementStat, number> = {
+            pollinations: stats.pollinations,
+            gamePollinations: this.gameStats.gamePollinations,
+            wave: this.gameStats.wave,
+            perfectChallenges: stats.perfectChallenges,
+            speciesDiscovered: stats.speciesDiscovered,
+            quizStreak: stats.bestQuizStreak, // Best run so far counts
+        };
+        return values[stat];
+    }
+
+    // Unlocks whatever the latest event completed, then saves the stats
+    private checkUnlocks(): void {
+        const now = new Date();
+        ACHIEVEMENTS.filter(
+            definition =>
+                !this.progress.unlocked[definition.id] &&
+                this.getStat(definition.stat) >= definition.goal
+        ).forEach(({ id, title, description, icon }) => {
+            this.progress.unlocked[id] = now;
+            EventBus.emit(COMMON_EVENTS.ACHIEVEMENT_UNLOCKED, {
+                id,
+                title,
+                description,
+                icon,
+            });
+        });
+
+        storageService
+            .saveAchievements(structuredClone(this.progress))
+            .catch(error => {
+                console.error('Failed to save achievements:', error);
+            });
+    }
+}
+
+// Export singleton instance
+export const achievementManager = AchievementManager.getInstance();
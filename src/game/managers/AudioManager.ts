@@ -0,0 +1,133 @@
+// src/game/managers/AudioManager.ts
+import * as Phaser from 'phaser';
+import EventBus from '../EventBus';
+import storageService from '@/services/StorageService';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+import { SettingsPayload } from '../events';
+import { SOUND_KEYS, SoundKey } from '../utils/audio/soundKeys';
+
+type VolumeSettings = Pick<SettingsPayload, 'musicVolume' | 'soundVolume'>;
+
+// Settings store volumes on a 0-10 scale
+const MAX_VOLUME = 10;
+// Used until a profile saves its own volumes (match Settings)
+const DEFAULT_MUSIC_VOLUME = 5;
+const DEFAULT_SOUND_VOLUME = 7;
+
+/**
+ * AudioManager plays the generated music and sound effects through Phaser's
+ * global sound manager, with separate music and effects volume buses driven
+ * by the persisted settings. Unlike the per-scene managers it lives for the
+ * whole game, so the music keeps playing across scene changes.
+ */
+export class AudioManager {
+    private static instance: AudioManager;
+    private game?: Phaser.Game;
+    private music?: Phaser.Sound.BaseSound;
+    private musicVolume: number = DEFAULT_MUSIC_VOLUME;
+    private soundVolume: number = DEFAULT_SOUND_VOLUME;
+
+    private constructor() {
+        // Apply volume changes from the Settings scene live
+        EventBus.on(
+            COMMON_EVENTS.SETTINGS_CHANGED,
+            this.handleSettingsChanged,
+            this
+        );
+    }
+
+    public static getInstance(): AudioManager {
+        if (!AudioManager.instance) {
+            AudioManager.instance = new AudioManager();
+        }
+        return AudioManager.instance;
+    }
+
+    /**
+     * Attach to the game once the sounds have been generated
+     */
+    public init(game: Phaser.Game): void {
+        this.game = game;
+        this.loadVolumes().catch(error => {
+            console.error('Error initiating volume load:', error);
+        });
+    }
+
+    /**
+     * Apply the active profile's saved volumes (also called after switching
+     * profiles)
+     */
+    public async loadVolumes(): Promise<void> {
+        try {
+            const progress = await storageService.getProgress();
+            this.setVolumes({
+                musicVolume:
+                    progress?.settings?.musicVolume ?? DEFAULT_MUSIC_VOLUME,
+                soundVolume:
+                    progress?.settings?.soundVolume ?? DEFAULT_SOUND_VOLUME,
+            });
+        } catch (error) {
+            console.error('Failed to load volume settings:', error);
+        }
+    }
+
+    private handleSettingsChanged(settings: VolumeSettings): void {
+        this.setVolumes(settings);
+    }
+
+    /**
+     * Update the music and effects buses (values on the 0-10 settings scale)
+     */
+    public setVolumes({ musicVolume, soundVolume }: VolumeSettings): void {
+        if (musicVolume !== undefined) this.musicVolume = musicVolume;
+        if (soundVolume !== undefined) this.soundVolume = soundVolume;
+
+        if (this.music && 'setVolume' in this.music) {
+            (this.music as Phaser.Sound.WebAudioSound).setVolume(
+                this.musicVolume / MAX_VOLUME
+            );
+        }
+    }
+
+    /**
+     * Play a one-shot sound effect on the effects bus
+     */
+    public playSfx(key: SoundKey): void {
+        if (!this.game || this.soundVolume <= 0) return;
+        if (!this.game.cache.audio.exists(key)) return; // Generation skipped (no Web Audio)
+
+        this.game.sound.play(key, { volume: this.soundVolume / MAX_VOLUME });
+    }
+
+    /**
+     * Start the looping background track (no-op if already playing)
+     */
+    public startMusic(): void {
+        if (!this.game || this.music?.isPlaying) return;
+        if (!this.game.cache.audio.exists(SOUND_KEYS.MUSIC)) return;
+
+        // Browsers block audio until the first user gesture
+        if (this.game.sound.locked) {
+            this.game.sound.once(Phaser.Sound.Events.UNLOCKED, () =>
+                this.startMusic()
+            );
+            return;
+        }
+
+        this.music ??= this.game.sound.add(SOUND_KEYS.MUSIC, {
+            loop: true,
+            volume: this.musicVolume / MAX_VOLUME,
+        });
+        this.music.play();
+    }
+
+    /**
+     * Stop the background track
+     */
+    public stopMusic(): void {
+        this.music?.stop();
+    }
+}
+
+// Export singleton instance
+export const audioManager = AudioManager.getInstance();
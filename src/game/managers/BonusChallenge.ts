@@ -2,9 +2,59 @@
 import * as Phaser from 'phaser';
 import EventBus from '../EventBus';
 import { FlowerManager } from './FlowerManager';
-import { QuizService, QuizQuestion, QuestionType } from '../data/quizData';
+import {
+    QuizService,
+    QuizQuestion,
+    MultipleChoiceQuestion,
+    TrueFalseQuestion,
+    MatchingQuestion,
+    OrderingQuestion,
+    NumericQuestion,
+    LabelingQuestion,
+} from '../data/quizData';
+import { FLOWER_DIAGRAM } from '../data/flowerDiagram';
 import { Game } from '../scenes/Game';
 import { createParticles } from '../utils/effects';
+import { SeededRandom } from '../utils/random';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+import { audioManager } from './AudioManager';
+import { SOUND_KEYS } from '../utils/audio/soundKeys';
+import {
+    DEFAULT_DIFFICULTY,
+    DifficultyProfile,
+    getDifficultyProfile,
+} from '../data/difficulty';
+
+// Question types answered over several touches get extra time
+const MULTI_STEP_TYPES: QuizQuestion['type'][] = [
+    'matching',
+    'ordering',
+    'numeric',
+    'labeling',
+];
+const MULTI_STEP_TIME_FACTOR = 1.5;
+// Delay between repeated +/- steps while the bee hovers a numeric flower
+const NUMERIC_STEP_COOLDOWN = 350;
+// How close the bee's center must be to a diagram marker to count as a touch
+const LABEL_MARKER_RADIUS = 20;
+const ANSWER_COLORS = [
+    0xff0000, 0x0000ff, 0xffff00, 0x00ff00, 0xff00ff, 0x00ffff,
+];
+
+export interface BonusChallengeOptions {
+    random?: SeededRandom; // Timing, questions and answer order
+    // Adaptive picks follow the player's history; off when everyone should
+    // get the same questions
+    adaptive?: boolean;
+    // Only ask questions that ship with the game, not ones imported on
+    // this device (the Daily Garden is the same for everyone)
+    bundledOnly?: boolean;
+    // Question ids to ask in order instead of the picked ones (a replay
+    // asks what the recorded run was asked)
+    questions?: string[];
+    // Off for replays, so watching a run doesn't count as answering
+    recordResults?: boolean;
+}
 
 /**
  * BonusChallenge class to manage in-game quiz challenges
@@ -17,15 +67,46 @@ export class BonusChallenge {
     private isFinalizing: boolean = false; // guard to prevent double finalize
     private currentQuestion?: QuizQuestion;
     private answerFlowers: Phaser.Physics.Arcade.Sprite[] = [];
+    // Reaction to the bee touching an answer flower, set per question type
+    private touchHandler?: (flower: Phaser.Physics.Arcade.Sprite) => void;
+    private instructionsText?: Phaser.GameObjects.Text;
+    private diagramImage?: Phaser.GameObjects.Image;
     private challengeContainer?: Phaser.GameObjects.Container;
     private challengeTimer?: Phaser.Time.TimerEvent;
     private challengeTimeoutTimer?: Phaser.Time.TimerEvent;
+    private answerTime: number = 0; // Time allowed for the current question
     private readonly bonusScoreValue: number = 25;
     private readonly quizService: QuizService;
-
-    constructor(scene: Phaser.Scene, flowerManager: FlowerManager) {
+    private readonly difficulty: DifficultyProfile;
+    private readonly random: SeededRandom;
+    private readonly adaptive: boolean;
+    private readonly bundledOnly: boolean;
+    private readonly scriptedQuestions?: string[];
+    private readonly recordResults: boolean;
+    private readonly askedQuestions: string[] = []; // Ids, in order
+
+    constructor(
+        scene: Phaser.Scene,
+        flowerManager: FlowerManager,
+        difficulty: DifficultyProfile = getDifficultyProfile(
+            DEFAULT_DIFFICULTY
+        ),
+        {
+            random = new SeededRandom(),
+            adaptive = true,
+            bundledOnly = false,
+            questions,
+            recordResults = true,
+        }: BonusChallengeOptions = {}
+    ) {
         this.scene = scene;
         this.flowerManager = flowerManager;
+        this.difficulty = difficulty;
+        this.random = random;
+        this.adaptive = adaptive;
+        this.bundledOnly = bundledOnly;
+        this.scriptedQuestions = questions;
+        this.recordResults = recordResults;
         this.quizService = QuizService.getInstance();
     }
 
@@ -33,32 +114,64 @@ export class BonusChallenge {
      * Start a new challenge at random intervals during gameplay
      */
     public scheduleNextChallenge(
-        minDelay: number = 20000,
-        maxDelay: number = 40000
+        minDelay: number = this.difficulty.challengeDelay.min,
+        maxDelay: number = this.difficulty.challengeDelay.max
     ): void {
         // Random time between min and max delay
-        const delay = Phaser.Math.Between(minDelay, maxDelay);
+        const delay = this.random.between(minDelay, maxDelay);
 
         this.challengeTimer = this.scene.time.delayedCall(delay, () => {
             this.startChallenge();
         });
     }
 
+    /**
+     * Hold the countdown to the next scheduled challenge (e.g. while a fact is shown)
+     */
+    public pause(): void {
+        if (this.challengeTimer) this.challengeTimer.paused = true;
+    }
+
+    /**
+     * Continue the countdown to the next scheduled challenge
+     */
+    public resume(): void {
+        if (this.challengeTimer) this.challengeTimer.paused = false;
+    }
+
     /**
      * Start a bonus challenge with a random quiz question
      */
     public startChallenge(): void {
         if (this.active) return; // Don't start if already active
 
-        // Get a random question from the quiz service
-        const questions = this.quizService.getRandomQuizQuestions(1);
+        // Favor questions due for review, from the tiers the player has unlocked
+        const questions = this.adaptive
+            ? this.quizService.getAdaptiveQuizQuestions(
+                  1,
+                  this.difficulty.quizTiers,
+                  this.random
+              )
+            : this.quizService.getRandomQuizQuestions(
+                  1,
+                  this.difficulty.quizTiers,
+                  this.random,
+                  this.bundledOnly
+              );
         if (questions.length === 0) return;
 
-        this.currentQuestion = questions[0];
+        // The pick above still runs for a scripted question, so the answer
+        // order draws the same numbers as it did in the recorded run
+        const scriptedId = this.scriptedQuestions?.[this.askedQuestions.length];
+        this.currentQuestion =
+            this.quizService
+                .getAllQuestions(this.bundledOnly)
+                .find(question => question.id === scriptedId) ?? questions[0];
+        this.askedQuestions.push(this.currentQuestion.id);
         this.active = true;
 
         // Pause normal input while we set up UI
-        EventBus.emit('game:set-input-active', false);
+        EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, false);
         // Disable main game physics overlap to prevent interference with quiz flowers
         (this.scene as Game).setMainPhysicsOverlapActive(false);
         // Dim existing flowers instead of clearing them so progress persists
@@ -68,10 +181,26 @@ export class BonusChallenge {
         this.createChallengeUI();
 
         // Create answer flowers based on question type
-        if (this.currentQuestion.type === QuestionType.MultipleChoice) {
-            this.createMultipleChoiceFlowers();
-        } else {
-            this.createTrueFalseFlowers();
+        const question = this.currentQuestion;
+        switch (question.type) {
+            case 'multipleChoice':
+                this.createMultipleChoiceFlowers(question);
+                break;
+            case 'trueFalse':
+                this.createTrueFalseFlowers(question);
+                break;
+            case 'matching':
+                this.createMatchingFlowers(question);
+                break;
+            case 'ordering':
+                this.createOrderingFlowers(question);
+                break;
+            case 'numeric':
+                this.createNumericFlowers(question);
+                break;
+            case 'labeling':
+                this.createLabelingMarkers(question);
+                break;
         }
 
         // Add a brief "GET READY" delay to prevent accidental selections
@@ -82,22 +211,35 @@ export class BonusChallenge {
             if (this.active) {
                 this.setupFlowerPhysics();
                 // Re-enable input AFTER physics are set up
-                EventBus.emit('game:set-input-active', true);
+                EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, true);
             }
         });
 
         // Set a time limit for the challenge (accounting for the 1.5s setup delay)
-        this.challengeTimeoutTimer = this.scene.time.delayedCall(13500, () => {
-            if (this.active) {
-                console.log('Bonus Challenge: Time ran out!');
-                this.active = false;
-                EventBus.emit('game:set-input-active', false);
-                // Re-enable main game physics overlap on timeout
-                (this.scene as Game).setMainPhysicsOverlapActive(true);
-                this.endChallenge();
-                this.finalizeChallengeReset();
+        this.answerTime = MULTI_STEP_TYPES.includes(question.type)
+            ? this.difficulty.challengeAnswerTime * MULTI_STEP_TIME_FACTOR
+            : this.difficulty.challengeAnswerTime;
+        const timeLimit = 1500 + this.answerTime;
+        this.challengeTimeoutTimer = this.scene.time.delayedCall(
+            timeLimit,
+            () => {
+                if (this.active) {
+                    console.log('Bonus Challenge: Time ran out!');
+                    this.active = false;
+                    if (this.recordResults) {
+                        EventBus.emit(
+                            COMMON_EVENTS.GAMEPLAY_CHALLENGE_COMPLETED,
+                            { correct: false, timeLeft: 0 }
+                        );
+                    }
+                    EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, false);
+                    // Re-enable main game physics overlap on timeout
+                    (this.scene as Game).setMainPhysicsOverlapActive(true);
+                    this.endChallenge();
+                    this.finalizeChallengeReset();
+                }
             }
-        });
+        );
     }
 
     /**
@@ -142,6 +284,7 @@ export class BonusChallenge {
 
         this.challengeContainer.add(readyText);
         this.challengeContainer.add(countdownText);
+        audioManager.playSfx(SOUND_KEYS.COUNTDOWN);
 
         // Animate countdown
         let count = 3;
@@ -153,6 +296,7 @@ export class BonusChallenge {
                     if (countdownText.scene) {
                         // Check if text object is still part of the scene
                         countdownText.setText(count.toString());
+                        audioManager.playSfx(SOUND_KEYS.COUNTDOWN);
                         // Scale animation
                         this.scene.tweens.add({
                             targets: countdownText,
@@ -186,7 +330,7 @@ export class BonusChallenge {
                 gameScene.bee, // Access bee from the Game scene
                 flower,
                 (_bee, flower) => {
-                    this.handleAnswerSelection(
+                    this.handleFlowerTouch(
                         flower as Phaser.Physics.Arcade.Sprite
                     );
                 },
@@ -253,7 +397,7 @@ export class BonusChallenge {
             .text(
                 this.scene.cameras.main.width / 2,
                 200,
-                'Quickly! Fly to the correct flower to answer!',
+                this.getInstructions(this.currentQuestion),
                 {
                     fontFamily: 'Arial',
                     fontSize: '18px',
@@ -267,6 +411,7 @@ export class BonusChallenge {
         this.challengeContainer.add(title);
         this.challengeContainer.add(questionText);
         this.challengeContainer.add(instructions);
+        this.instructionsText = instructions;
 
         // Add appear animation
         this.scene.tweens.add({
@@ -280,17 +425,31 @@ export class BonusChallenge {
     }
 
     /**
-     * Create flowers representing multiple choice options
+     * Opening instructions for each question type
      */
-    private createMultipleChoiceFlowers(): void {
-        const options = this.currentQuestion?.options;
-        // If options is null/undefined (meaning either currentQuestion or its options are missing), return.
-        if (!options) {
-            return;
+    private getInstructions(question: QuizQuestion): string {
+        switch (question.type) {
+            case 'matching':
+                return 'Fly to a left flower, then to its match on the right!';
+            case 'ordering':
+                return 'Visit the flowers in the right order!';
+            case 'numeric':
+                return 'Hover on − or + to set your answer, then fly to Submit!';
+            case 'labeling':
+                return `Find the ${FLOWER_DIAGRAM.parts[question.parts[0]].label}!`;
+            default:
+                return 'Quickly! Fly to the correct flower to answer!';
         }
-        // Now we know 'this.currentQuestion' is defined and has 'options' because of the check above.
-        // Use the non-null assertion operator (!) to assure TypeScript that currentQuestion is defined here.
-        const correctAnswer = this.currentQuestion!.correctAnswer as string;
+    }
+
+    /**
+     * Create flowers representing multiple choice options
+     */
+    private createMultipleChoiceFlowers(
+        question: MultipleChoiceQuestion
+    ): void {
+        const { options, correctAnswer } = question;
+        this.touchHandler = flower => this.handleAnswerSelection(flower);
 
         // Position flowers based on number of options
         const centerX = this.scene.cameras.main.width / 2;
@@ -341,9 +500,7 @@ export class BonusChallenge {
             flower.setData('isCorrect', isCorrect);
 
             // Set visual distinction based on index (more than just color)
-            const colors = [
-                0xff0000, 0x0000ff, 0xffff00, 0x00ff00, 0xff00ff, 0x00ffff,
-            ];
+            const colors = ANSWER_COLORS;
             const scales = [0.7, 0.8, 0.9, 1.0, 0.75, 0.85]; // Different sizes
             const rotations = [
                 0,
@@ -391,10 +548,9 @@ export class BonusChallenge {
     /**
      * Create flowers for true/false questions
      */
-    private createTrueFalseFlowers(): void {
-        if (!this.currentQuestion) return;
-
-        const correctAnswer = this.currentQuestion.correctAnswer as boolean;
+    private createTrueFalseFlowers(question: TrueFalseQuestion): void {
+        const { correctAnswer } = question;
+        this.touchHandler = flower => this.handleAnswerSelection(flower);
         const options = [
             { text: 'True', value: true },
             { text: 'False', value: false },
@@ -466,29 +622,358 @@ export class BonusChallenge {
     }
 
     /**
-     * Handle collision between bee and answer flower
+     * Create flowers for matching questions: left items on the left, their
+     * shuffled matches on the right. Touch a left flower, then its match.
+     */
+    private createMatchingFlowers(question: MatchingQuestion): void {
+        const width = this.scene.cameras.main.width;
+        const rights = this.random.shuffle(
+            question.pairs.map(pair => pair.right)
+        );
+
+        const leftFlowers = question.pairs.map((pair, index) => {
+            const flower = this.addAnswerFlower(
+                220,
+                290 + index * 80,
+                pair.left,
+                ANSWER_COLORS[index % ANSWER_COLORS.length]
+            );
+            flower.setData('match', pair.right);
+            return flower;
+        });
+        rights.forEach((right, index) => {
+            const flower = this.addAnswerFlower(
+                width - 220,
+                290 + index * 80,
+                right,
+                0xffffff
+            );
+            flower.setData('right', right);
+        });
+
+        let selected: Phaser.Physics.Arcade.Sprite | undefined;
+        let matched = 0;
+        this.touchHandler = flower => {
+            if (leftFlowers.includes(flower)) {
+                if (flower === selected) return;
+                selected = flower;
+                this.instructionsText?.setText(
+                    `Now find the match for "${flower.getData('option')}"!`
+                );
+                return;
+            }
+            if (!selected) return; // Right flowers only count after a left one
+
+            if (selected.getData('match') !== flower.getData('right')) {
+                this.resolveAnswer(false, flower.x, flower.y);
+                return;
+            }
+            const tint = selected.tintTopLeft;
+            this.consumeFlower(selected);
+            this.consumeFlower(flower, tint);
+            selected = undefined;
+            matched++;
+            if (matched === question.pairs.length) {
+                this.resolveAnswer(true, flower.x, flower.y);
+            } else {
+                this.instructionsText?.setText(
+                    `${matched} of ${question.pairs.length} matched! Pick another.`
+                );
+            }
+        };
+    }
+
+    /**
+     * Create shuffled flowers for ordering questions; visit them in order
+     */
+    private createOrderingFlowers(question: OrderingQuestion): void {
+        const width = this.scene.cameras.main.width;
+        const count = question.steps.length;
+        const shuffled = this.random.shuffle(
+            question.steps.map((step, order) => ({ step, order }))
+        );
+
+        shuffled.forEach(({ step, order }, index) => {
+            // Zig-zag across two rows so neighbouring labels don't overlap
+            const x = 130 + (index * (width - 260)) / (count - 1);
+            const y = index % 2 === 0 ? 310 : 470;
+            const flower = this.addAnswerFlower(
+                x,
+                y,
+                step,
+                ANSWER_COLORS[index % ANSWER_COLORS.length]
+            );
+            flower.setData('order', order);
+        });
+
+        let next = 0;
+        this.touchHandler = flower => {
+            if (flower.getData('order') !== next) {
+                this.resolveAnswer(false, flower.x, flower.y);
+                return;
+            }
+            this.consumeFlower(flower, 0x00ff00);
+            next++;
+            this.challengeContainer?.add(
+                this.scene.add
+                    .text(flower.x, flower.y, `${next}`, {
+                        fontFamily: 'Arial',
+                        fontSize: '26px',
+                        color: '#FFD700',
+                        stroke: '#000000',
+                        strokeThickness: 4,
+                    })
+                    .setOrigin(0.5)
+            );
+            if (next === count) {
+                this.resolveAnswer(true, flower.x, flower.y);
+            } else {
+                this.instructionsText?.setText(`Step ${next + 1} of ${count}?`);
+            }
+        };
+    }
+
+    /**
+     * Create −, + and Submit flowers for numeric questions
+     */
+    private createNumericFlowers(question: NumericQuestion): void {
+        const centerX = this.scene.cameras.main.width / 2;
+        const unit = question.unit ? ` ${question.unit}` : '';
+        let value = question.min;
+
+        const valueText = this.scene.add
+            .text(centerX, 320, `${value}${unit}`, {
+                fontFamily: 'Arial',
+                fontSize: '40px',
+                color: '#FFD700',
+                stroke: '#000000',
+                strokeThickness: 5,
+            })
+            .setOrigin(0.5);
+        this.challengeContainer?.add(valueText);
+
+        this.addAnswerFlower(centerX - 200, 440, '−', 0xff0000).setData(
+            'step',
+            -1
+        );
+        this.addAnswerFlower(centerX + 200, 440, '+', 0x00ff00).setData(
+            'step',
+            1
+        );
+        this.addAnswerFlower(centerX, 500, 'Submit', 0xffff00);
+
+        // Hovering over −/+ keeps stepping, at a readable pace
+        let lastStepAt = 0;
+        this.touchHandler = flower => {
+            const step = flower.getData('step') as number | undefined;
+            if (step === undefined) {
+                this.resolveAnswer(
+                    value === question.correctAnswer,
+                    flower.x,
+                    flower.y
+                );
+                return;
+            }
+            if (this.scene.time.now - lastStepAt < NUMERIC_STEP_COOLDOWN)
+                return;
+            lastStepAt = this.scene.time.now;
+            value = Phaser.Math.Clamp(value + step, question.min, question.max);
+            valueText.setText(`${value}${unit}`);
+        };
+    }
+
+    /**
+     * Show the flower diagram with a marker on every part; find the asked
+     * parts one after another
+     */
+    private createLabelingMarkers(question: LabelingQuestion): void {
+        const centerX = this.scene.cameras.main.width / 2;
+        const left = centerX - FLOWER_DIAGRAM.width / 2;
+        const top = 255;
+
+        // Kept under the bee (unlike the UI container) so it stays visible
+        this.diagramImage = this.scene.add
+            .image(left, top, FLOWER_DIAGRAM.textureKey)
+            .setOrigin(0)
+            .setDepth(1);
+
+        Object.entries(FLOWER_DIAGRAM.parts).forEach(([part, info]) => {
+            const marker = this.scene.physics.add
+                .sprite(
+                    left + info.x,
+                    top + info.y,
+                    'pollen_particle_generated'
+                )
+                .setScale(2)
+                .setDepth(2);
+            marker.setData('part', part);
+            marker.setData('label', info.label);
+            this.answerFlowers.push(marker);
+            this.scene.tweens.add({
+                targets: marker,
+                scale: 2.6,
+                duration: 600,
+                yoyo: true,
+                repeat: -1,
+                ease: 'Sine.easeInOut',
+            });
+        });
+
+        const bee = (this.scene as Game).bee;
+        let next = 0;
+        this.touchHandler = marker => {
+            // Markers sit close together, so only count the one under the bee
+            const distance = Phaser.Math.Distance.Between(
+                bee.x,
+                bee.y,
+                marker.x,
+                marker.y
+            );
+            if (distance > LABEL_MARKER_RADIUS) return;
+
+            if (marker.getData('part') !== question.parts[next]) {
+                this.resolveAnswer(false, marker.x, marker.y);
+                return;
+            }
+            this.consumeFlower(marker, 0x00ff00);
+            this.challengeContainer?.add(
+                this.scene.add
+                    .text(marker.x + 14, marker.y, marker.getData('label'), {
+                        fontFamily: 'Arial',
+                        fontSize: '16px',
+                        color: '#FFFFFF',
+                        stroke: '#000000',
+                        strokeThickness: 3,
+                    })
+                    .setOrigin(0, 0.5)
+            );
+            next++;
+            if (next === question.parts.length) {
+                this.resolveAnswer(true, marker.x, marker.y);
+            } else {
+                this.instructionsText?.setText(
+                    `Now find the ${FLOWER_DIAGRAM.parts[question.parts[next]].label}!`
+                );
+            }
+        };
+    }
+
+    /**
+     * Add a labelled, pulsing answer flower (used by the multi-step types)
+     */
+    private addAnswerFlower(
+        x: number,
+        y: number,
+        label: string,
+        tint: number
+    ): Phaser.Physics.Arcade.Sprite {
+        const flower = this.scene.physics.add.sprite(
+            x,
+            y,
+            'flower_red_generated'
+        );
+        flower.setScale(0.8).setTint(tint);
+        flower.setData('option', label);
+
+        const labelText = this.scene.add
+            .text(x, y - 50, label, {
+                fontSize: '18px',
+                color: '#FFFFFF',
+                stroke: '#000000',
+                strokeThickness: 3,
+                backgroundColor: '#00000080',
+                padding: { x: 8, y: 4 },
+                wordWrap: { width: 150 },
+                align: 'center',
+            })
+            .setOrigin(0.5);
+
+        this.challengeContainer?.add(labelText);
+        this.answerFlowers.push(flower);
+
+        this.scene.tweens.add({
+            targets: flower,
+            scale: 0.9,
+            duration: 600,
+            yoyo: true,
+            repeat: -1,
+            ease: 'Sine.easeInOut',
+        });
+        return flower;
+    }
+
+    /**
+     * Mark a flower as used: stop its pulse and ignore further touches
+     */
+    private consumeFlower(
+        flower: Phaser.Physics.Arcade.Sprite,
+        tint?: number
+    ): void {
+        this.scene.tweens.killTweensOf(flower);
+        flower.disableBody(false, false);
+        flower.setAlpha(0.5);
+        if (tint !== undefined) flower.setTint(tint);
+        createParticles(
+            this.scene,
+            flower.x,
+            flower.y,
+            'pollen_particle_generated',
+            0xffff00,
+            10
+        );
+    }
+
+    /**
+     * Route a bee/answer flower touch to the current question type
+     */
+    private handleFlowerTouch(flower: Phaser.Physics.Arcade.Sprite): void {
+        if (!this.active || !flower.body?.enable) return;
+        this.touchHandler?.(flower);
+    }
+
+    /**
+     * Handle collision between bee and a multiple choice or true/false flower
      */
     public handleAnswerSelection(flower: Phaser.Physics.Arcade.Sprite): void {
+        this.resolveAnswer(
+            flower.getData('isCorrect') as boolean,
+            flower.x,
+            flower.y
+        );
+    }
+
+    /**
+     * End the challenge with the player's answer, with feedback at (x, y)
+     */
+    private resolveAnswer(isCorrect: boolean, x: number, y: number): void {
         if (!this.active) return;
         this.active = false; // Deactivate challenge immediately
 
         // *** Remove the challenge timeout timer as it's no longer needed ***
+        const remaining = this.challengeTimeoutTimer?.getRemaining() ?? 0;
         if (this.challengeTimeoutTimer) {
             this.challengeTimeoutTimer.remove();
             this.challengeTimeoutTimer = undefined;
         }
+        if (this.recordResults) {
+            EventBus.emit(COMMON_EVENTS.GAMEPLAY_CHALLENGE_COMPLETED, {
+                correct: isCorrect,
+                timeLeft: Phaser.Math.Clamp(remaining / this.answerTime, 0, 1),
+            });
+        }
 
-        EventBus.emit('game:set-input-active', false);
+        EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, false);
         (this.scene as Game).setMainPhysicsOverlapActive(true);
 
-        const isCorrect = flower.getData('isCorrect') as boolean;
-
-        // Create visual feedback
+        // Create visual and audio feedback
+        audioManager.playSfx(
+            isCorrect ? SOUND_KEYS.CORRECT : SOUND_KEYS.INCORRECT
+        );
         if (isCorrect) {
             createParticles(
                 this.scene,
-                flower.x,
-                flower.y,
+                x,
+                y,
                 'pollen_particle_generated',
                 0x00ff00,
                 30
@@ -499,12 +984,12 @@ export class BonusChallenge {
             );
 
             // Record correct answer in quiz service
-            this.quizService.recordQuizResults(1, 1);
+            this.recordAnswer(true);
         } else {
             createParticles(
                 this.scene,
-                flower.x,
-                flower.y,
+                x,
+                y,
                 'pollen_particle_generated',
                 0xff0000,
                 15
@@ -515,7 +1000,17 @@ export class BonusChallenge {
             );
 
             // Record incorrect answer in quiz service
-            this.quizService.recordQuizResults(0, 1);
+            this.recordAnswer(false);
+        }
+    }
+
+    // Feeds the answer into the per-question spaced repetition history
+    private recordAnswer(isCorrect: boolean): void {
+        if (!this.recordResults) return;
+        if (this.currentQuestion) {
+            this.quizService.recordAnswer(this.currentQuestion.id, isCorrect);
+        } else {
+            this.quizService.recordQuizResults(isCorrect ? 1 : 0, 1);
         }
     }
 
@@ -654,13 +1149,16 @@ export class BonusChallenge {
             }
         });
         this.answerFlowers = [];
+        this.touchHandler = undefined;
+        this.diagramImage?.destroy();
+        this.diagramImage = undefined;
 
         // Immediately destroy the main challenge UI container
         if (this.challengeContainer) {
             this.challengeContainer.destroy();
             this.challengeContainer = undefined; // Clear reference
         }
-        // Note: active flag is managed by handleAnswerSelection and the timeout
+        // Note: active flag is managed by resolveAnswer and the timeout
     }
 
     /**
@@ -669,7 +1167,7 @@ export class BonusChallenge {
     private resetGameToNormal(): void {
         console.log('Bonus Challenge: Resetting game to normal state.');
         // Re-enable regular gameplay input and timer
-        EventBus.emit('game:set-input-active', true);
+        EventBus.emit(COMMON_EVENTS.GAME_SET_INPUT_ACTIVE, true);
         // Re-enable main game physics overlap
         (this.scene as Game).setMainPhysicsOverlapActive(true);
         console.log('Bonus Challenge: Input re-enabled.');
@@ -685,6 +1183,7 @@ export class BonusChallenge {
         this.challengeTimer?.remove();
         this.challengeTimeoutTimer?.remove(); // Ensure timeout timer is removed on destroy
         this.challengeContainer?.destroy();
+        this.diagramImage?.destroy();
         this.answerFlowers.forEach(flower => {
             if (flower?.scene) flower.destroy();
         });
@@ -696,6 +1195,13 @@ export class BonusChallenge {
         console.log('BonusChallenge destroyed.');
     }
 
+    /**
+     * Ids of the questions asked so far this run, in order
+     */
+    public getAskedQuestions(): string[] {
+        return [...this.askedQuestions];
+    }
+
     /**
      * Check if a bonus challenge is active
      */
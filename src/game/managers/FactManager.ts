@@ -0,0 +1,86 @@
+// src/game/managers/FactManager.ts
+import { getFlowerById } from '../data/flowerTypes';
+import { SeededRandom } from '../utils/random';
+
+// Remaining fact indices per species. Kept at module level so the rotation
+// carries over between runs and a player works through every fact before
+// seeing one again.
+const factQueues = new Map<string, number[]>();
+const lastShownFact = new Map<string, number>();
+
+/**
+ * FactManager picks which "Knowledge Nectar" fact to show after a pollination.
+ * Each species shows at most one fact per run, and facts rotate across runs.
+ */
+export class FactManager {
+    private enabled: boolean = true;
+    private readonly speciesShownThisRun = new Set<string>();
+    private readonly random: SeededRandom; // Shuffles refilled fact queues
+
+    constructor(random: SeededRandom = new SeededRandom()) {
+        this.random = random;
+    }
+
+    // Enable or disable fact popups (mirrors the knowledgeNectar setting)
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Get the fact to show after pollinating a species, or null if facts are
+     * disabled, the species has no facts, or it already had one this run.
+     */
+    public getFactForPollination(flowerId: string): string | null {
+        const flower = getFlowerById(flowerId);
+        if (!flower || !this.isFactDue(flowerId)) return null;
+
+        const factIndex = this.nextFactIndex(flowerId, flower.facts.length);
+        this.speciesShownThisRun.add(flowerId);
+        return `${flower.name}: ${flower.facts[factIndex]}`;
+    }
+
+    /**
+     * Use up the species' fact for this run without taking one from the
+     * rotation, as a replay does to follow the recorded run unread.
+     * Returns true if a fact would have been shown.
+     */
+    public skipFactForPollination(flowerId: string): boolean {
+        if (!this.isFactDue(flowerId)) return false;
+        this.speciesShownThisRun.add(flowerId);
+        return true;
+    }
+
+    private isFactDue(flowerId: string): boolean {
+        const flower = getFlowerById(flowerId);
+        return (
+            this.enabled &&
+            !this.speciesShownThisRun.has(flowerId) &&
+            !!flower &&
+            flower.facts.length > 0
+        );
+    }
+
+    // Pops the next fact from the species' shuffled queue, refilling when empty
+    private nextFactIndex(flowerId: string, factCount: number): number {
+        let queue = factQueues.get(flowerId);
+        if (!queue || queue.length === 0) {
+            queue = this.random.shuffle(
+                Array.from({ length: factCount }, (_, i) => i)
+            );
+            // Don't repeat the last fact straight after a refill
+            const last = lastShownFact.get(flowerId);
+            if (queue.length > 1 && queue[0] === last) {
+                queue.push(queue.shift()!);
+            }
+            factQueues.set(flowerId, queue);
+        }
+
+        const index = queue.shift()!;
+        lastShownFact.set(flowerId, index);
+        return index;
+    }
+}
@@ -1,9 +1,17 @@
 // src/game/managers/FlowerManager.ts
 import * as Phaser from 'phaser';
+import {
+    FLOWER_COLOR_KEYS,
+    FlowerColorKey,
+    getFlowersByColor,
+    getFlowerTextureKey,
+    getSpeciesTextureKey,
+} from '../data/flowerTypes';
+import { SeededRandom } from '../utils/random';
 
 // Define interface for Flower data
 export interface FlowerData {
-    type: 'red' | 'blue';
+    type: FlowerColorKey;
     hasPollen: boolean;
     isPollinated: boolean;
     flowerId?: string;
@@ -17,13 +25,16 @@ export class FlowerManager {
     private scene: Phaser.Scene;
     private flowers: Phaser.Physics.Arcade.StaticGroup;
     private dimmed: boolean = false;
+    private readonly random: SeededRandom; // Decides colors, species and positions
 
     constructor(
         scene: Phaser.Scene,
-        flowerGroup: Phaser.Physics.Arcade.StaticGroup
+        flowerGroup: Phaser.Physics.Arcade.StaticGroup,
+        random: SeededRandom = new SeededRandom()
     ) {
         this.scene = scene;
         this.flowers = flowerGroup;
+        this.random = random;
     }
 
     // Get the underlying flower group
@@ -31,30 +42,33 @@ export class FlowerManager {
         return this.flowers;
     }
 
+    // Pick a random set of distinct colors for a wave
+    public pickWaveColors(colorCount: number): FlowerColorKey[] {
+        const shuffled = this.random.shuffle([...FLOWER_COLOR_KEYS]);
+        return shuffled.slice(0, Math.min(colorCount, shuffled.length));
+    }
+
+    // Spawn a wave with the same number of flowers of each given color.
+    // Flowers go down a round at a time (one per color), so if the garden
+    // runs out of room every color is cut back evenly.
+    public spawnWave(perColor: number, colors: FlowerColorKey[]): void {
+        // Every color needs at least two flowers so its pollen can be delivered
+        const rounds = Math.max(2, perColor);
+        for (let round = 0; round < rounds; round++) {
+            colors.forEach(color => this.spawnFlowers(1, color));
+        }
+    }
+
     // Spawn flowers of a specific type
-    public spawnFlowers(count: number, type: 'red' | 'blue'): void {
-        const texture = `flower_${type}_generated`;
+    public spawnFlowers(count: number, type: FlowerColorKey): void {
         const margin = 60,
             spacing = 80,
             maxAttempts = 20;
 
         // Get available flower types for this color category
-        const availableFlowerIds: string[] = [];
-        if (type === 'red') {
-            availableFlowerIds.push(
-                'red_poppy',
-                'red_rose',
-                'red_tulip',
-                'red_dahlia'
-            );
-        } else if (type === 'blue') {
-            availableFlowerIds.push(
-                'blue_cornflower',
-                'blue_bluebell',
-                'blue_delphinium',
-                'blue_forget_me_not'
-            );
-        }
+        const availableFlowerIds = getFlowersByColor(type).map(
+            flower => flower.id
+        );
 
         // Create the specified number of flowers
         for (let i = 0; i < count; i++) {
@@ -66,11 +80,11 @@ export class FlowerManager {
             // Find a valid position for the flower
             do {
                 validPosition = true;
-                x = Phaser.Math.Between(
+                x = this.random.between(
                     margin,
                     this.scene.cameras.main.width - margin
                 );
-                y = Phaser.Math.Between(
+                y = this.random.between(
                     margin + 60,
                     this.scene.cameras.main.height - margin
                 );
@@ -101,11 +115,18 @@ export class FlowerManager {
 
             // If found a valid position, create the flower
             if (validPosition) {
+                // Randomly select a species of this color; the registry is
+                // validated at startup so every color has at least one
+                const flowerId =
+                    availableFlowerIds.length > 0
+                        ? this.random.pick(availableFlowerIds)
+                        : undefined;
+                const texture = flowerId
+                    ? getSpeciesTextureKey(flowerId)
+                    : getFlowerTextureKey(type);
+
                 const flower = this.flowers.create(x, y, texture);
                 if (flower) {
-                    // Randomly select a specific flower type
-                    const flowerId = Phaser.Math.RND.pick(availableFlowerIds);
-
                     // Set data, physics, and appearance
                     flower.setData('flowerData', {
                         type: type,
@@ -143,7 +164,7 @@ export class FlowerManager {
     public assignInitialPollen(): void {
         const flowerChildren =
             this.flowers.getChildren() as Phaser.Physics.Arcade.Sprite[];
-        Phaser.Utils.Array.Shuffle(flowerChildren);
+        this.random.shuffle(flowerChildren);
 
         let pollenCount = 0;
         const maxPollen = Math.ceil(flowerChildren.length / 2);
@@ -207,7 +228,7 @@ export class FlowerManager {
                 return d && !d.isPollinated && !d.hasPollen;
             });
             if (unpollinated.length > 0) {
-                const flowerToAdd = Phaser.Math.RND.pick(unpollinated);
+                const flowerToAdd = this.random.pick(unpollinated);
                 const d = flowerToAdd.getData('flowerData') as
                     | FlowerData
                     | undefined;
@@ -0,0 +1,218 @@
+// src/game/managers/InputController.ts
+import * as Phaser from 'phaser';
+import {
+    DIRECTIONS,
+    Direction,
+    GAMEPAD_START_BUTTON,
+    KeyBindings,
+    MovementVector,
+    POINTER_SLOWDOWN_RADIUS,
+    RESERVED_KEYS,
+    TouchControls,
+    applyDeadzone,
+    toDigitalVector,
+    toTouchControls,
+} from '../data/controls';
+import { SettingsPayload } from '../events';
+import {
+    COMMON_EVENTS,
+    EventHandler,
+    registerEventHandlers,
+    unregisterEventHandlers,
+} from '../utils/eventUtils';
+
+// Closer than this to the pointer, the bee stops instead of jittering
+const POINTER_STOP_DISTANCE = 4;
+
+const NO_MOVEMENT: MovementVector = { x: 0, y: 0 };
+
+export interface InputControllerOptions {
+    keyBindings: KeyBindings;
+    touchControls: TouchControls;
+    onPause?: () => void; // Start on a gamepad
+}
+
+/**
+ * InputController merges every way of steering the bee into one movement
+ * vector: the player's key bindings, a gamepad's left stick and D-pad, the
+ * on-screen D-pad and joystick (dpad and joystick events from React) and
+ * holding the mouse or a finger on the garden. Keys and buttons fly at full
+ * speed; the sticks and the pointer can fly slower.
+ */
+export class InputController {
+    private readonly scene: Phaser.Scene;
+    private readonly onPause?: () => void;
+    private keys: Record<Direction, Phaser.Input.Keyboard.Key[]> = {
+        up: [],
+        down: [],
+        left: [],
+        right: [],
+    };
+    private dpadState: Record<Direction, boolean> = {
+        up: false,
+        down: false,
+        left: false,
+        right: false,
+    };
+    private joystick: MovementVector = NO_MOVEMENT;
+    private touchControls: TouchControls;
+    // Where a tap sent the bee, kept after the finger lifts (Tap to Fly)
+    private pointerTarget?: { x: number; y: number };
+    private eventHandlers: EventHandler[] = [];
+
+    constructor(
+        scene: Phaser.Scene,
+        { keyBindings, touchControls, onPause }: InputControllerOptions
+    ) {
+        this.scene = scene;
+        this.onPause = onPause;
+        this.touchControls = touchControls;
+        this.setKeyBindings(keyBindings);
+
+        scene.input.gamepad?.on(
+            Phaser.Input.Gamepad.Events.BUTTON_DOWN,
+            this.handleGamepadButton,
+            this
+        );
+        // Controls changed from Settings while the run is paused
+        this.eventHandlers = [
+            {
+                event: COMMON_EVENTS.SETTINGS_CHANGED,
+                handler: this.handleSettingsChanged,
+                context: this,
+            },
+        ];
+        registerEventHandlers(this.eventHandlers);
+    }
+
+    public setKeyBindings(bindings: KeyBindings): void {
+        const keyboard = this.scene.input.keyboard;
+        if (!keyboard) return;
+        this.removeKeys();
+
+        const codes = Phaser.Input.Keyboard.KeyCodes as Record<string, number>;
+        DIRECTIONS.forEach(direction => {
+            this.keys[direction] = bindings[direction]
+                .filter(
+                    name =>
+                        codes[name] !== undefined &&
+                        !RESERVED_KEYS.includes(name)
+                )
+                .map(name => keyboard.addKey(codes[name]));
+        });
+    }
+
+    // Tracks the on-screen D-pad
+    public setDpad(direction: Direction, active: boolean): void {
+        this.dpadState[direction] = active;
+    }
+
+    // Tracks the on-screen joystick
+    public setJoystick(vector: MovementVector): void {
+        this.joystick = vector;
+    }
+
+    // Lets go of everything (e.g. when input is turned off for a fact)
+    public reset(): void {
+        this.scene.input.keyboard?.resetKeys();
+        DIRECTIONS.forEach(direction => {
+            this.dpadState[direction] = false;
+        });
+        this.joystick = NO_MOVEMENT;
+        this.pointerTarget = undefined;
+    }
+
+    /**
+     * Where the player is steering this frame. Keys and D-pads come first,
+     * then the gamepad stick, the on-screen joystick and the pointer.
+     * @param from The bee's position, for steering toward the pointer
+     */
+    public getMovement(from: { x: number; y: number }): MovementVector {
+        const pad = this.scene.input.gamepad?.getAll()[0];
+
+        const held = {} as Record<Direction, boolean>;
+        DIRECTIONS.forEach(direction => {
+            held[direction] =
+                this.keys[direction].some(key => key.isDown) ||
+                this.dpadState[direction] ||
+                !!pad?.[direction];
+        });
+        const stick = pad
+            ? applyDeadzone(pad.leftStick.x, pad.leftStick.y)
+            : NO_MOVEMENT;
+        const movement = [toDigitalVector(held), stick, this.joystick].find(
+            vector => vector.x !== 0 || vector.y !== 0
+        );
+        if (movement) {
+            this.pointerTarget = undefined; // Other controls take over
+            return movement;
+        }
+
+        return this.getPointerMovement(from);
+    }
+
+    // Toward the pointer while it's held down (or, with Tap to Fly, the
+    // last place tapped), slowing on approach
+    private getPointerMovement(from: { x: number; y: number }): MovementVector {
+        const pointer = this.scene.input.activePointer;
+        let target = this.pointerTarget;
+        if (pointer.isDown) {
+            target = { x: pointer.worldX, y: pointer.worldY };
+            if (this.touchControls === 'Tap to Fly') {
+                this.pointerTarget = target;
+            }
+        }
+        if (!target) return NO_MOVEMENT;
+
+        const dx = target.x - from.x;
+        const dy = target.y - from.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance < POINTER_STOP_DISTANCE) {
+            this.pointerTarget = undefined; // Arrived
+            return NO_MOVEMENT;
+        }
+
+        const strength = Math.min(1, distance / POINTER_SLOWDOWN_RADIUS);
+        return {
+            x: (dx / distance) * strength,
+            y: (dy / distance) * strength,
+        };
+    }
+
+    private handleGamepadButton(
+        _pad: Phaser.Input.Gamepad.Gamepad,
+        button: Phaser.Input.Gamepad.Button
+    ): void {
+        if (button.index === GAMEPAD_START_BUTTON) this.onPause?.();
+    }
+
+    private handleSettingsChanged({
+        keyBindings,
+        touchControls,
+    }: SettingsPayload): void {
+        if (keyBindings) this.setKeyBindings(keyBindings);
+        if (touchControls) {
+            this.touchControls = toTouchControls(touchControls);
+            this.pointerTarget = undefined;
+        }
+    }
+
+    private removeKeys(): void {
+        DIRECTIONS.forEach(direction => {
+            this.keys[direction].forEach(key =>
+                this.scene.input.keyboard?.removeKey(key, true, true)
+            );
+            this.keys[direction] = [];
+        });
+    }
+
+    public destroy(): void {
+        unregisterEventHandlers(this.eventHandlers);
+        this.scene.input.gamepad?.off(
+            Phaser.Input.Gamepad.Events.BUTTON_DOWN,
+            this.handleGamepadButton,
+            this
+        );
+        this.removeKeys();
+    }
+}
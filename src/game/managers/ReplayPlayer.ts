@@ -0,0 +1,61 @@
+// src/game/managers/ReplayPlayer.ts
+import { MovementVector } from '../data/controls';
+import { fromInputCode } from '../data/replays';
+import { ReplayRecording } from './ReplayRecorder';
+
+/**
+ * ReplayPlayer feeds a recorded run back one frame at a time, in place of
+ * the player's controls
+ */
+export class ReplayPlayer {
+    private readonly recording: ReplayRecording;
+    private elapsed: number = 0; // Milliseconds of movement so far
+    private runIndex: number = 0; // Index of the current [code, ms] run
+    private runEnd: number; // When the current run's input changes
+    private nextSample: number = 0;
+
+    constructor(recording: ReplayRecording) {
+        this.recording = recording;
+        this.runEnd = recording.inputs[1] ?? 0;
+    }
+
+    /**
+     * Advance one frame where the bee can move
+     * @param delta Frame length in milliseconds
+     * @returns The movement, and where the recorded bee was if a
+     * position was sampled at this point (null otherwise)
+     */
+    public next(delta: number): {
+        movement: MovementVector;
+        position: { x: number; y: number } | null;
+    } {
+        const { inputs, path, pathInterval } = this.recording;
+        // Judged at the middle of the frame, so rounding in the saved
+        // durations can't move a change of direction to the wrong frame
+        const midFrame = this.elapsed + delta / 2;
+        while (this.runIndex < inputs.length && midFrame >= this.runEnd) {
+            this.runIndex += 2;
+            this.runEnd += inputs[this.runIndex + 1] ?? 0;
+        }
+
+        let position: { x: number; y: number } | null = null;
+        while (
+            this.nextSample < path.length / 2 &&
+            this.nextSample * pathInterval <= this.elapsed
+        ) {
+            position = {
+                x: path[this.nextSample * 2],
+                y: path[this.nextSample * 2 + 1],
+            };
+            this.nextSample++;
+        }
+
+        this.elapsed += delta;
+        // The bee stops once the recording runs out
+        const movement =
+            this.runIndex < inputs.length
+                ? fromInputCode(inputs[this.runIndex])
+                : { x: 0, y: 0 };
+        return { movement, position };
+    }
+}
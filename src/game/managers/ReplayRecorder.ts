@@ -0,0 +1,60 @@
+// src/game/managers/ReplayRecorder.ts
+import { MovementVector } from '../data/controls';
+import { PATH_INTERVAL_MS, toInputCode } from '../data/replays';
+
+export interface ReplayRecording {
+    inputs: number[];
+    path: number[];
+    pathInterval: number;
+}
+
+/**
+ * ReplayRecorder keeps a run's input compactly: movement as
+ * [input code, milliseconds] runs, plus the bee's position every PATH_INTERVAL_MS
+ * for the ghost bee and to keep playback on course. Only frames where the
+ * bee can move are recorded, so pauses, facts and challenge intros don't
+ * take up space.
+ */
+export class ReplayRecorder {
+    private readonly inputs: number[] = [];
+    private readonly path: number[] = [];
+    private elapsed: number = 0; // Milliseconds of movement so far
+
+    /**
+     * Record one frame, before the bee moves
+     * @param movement Where the player steered this frame
+     * @param delta Frame length in milliseconds
+     * @param x The bee's position at the start of the frame
+     */
+    public record(
+        movement: MovementVector,
+        delta: number,
+        x: number,
+        y: number
+    ): void {
+        while ((this.path.length / 2) * PATH_INTERVAL_MS <= this.elapsed) {
+            this.path.push(Math.round(x), Math.round(y));
+        }
+
+        // Extend the current run while the input stays the same
+        const code = toInputCode(movement);
+        const last = this.inputs.length - 2;
+        if (last >= 0 && this.inputs[last] === code) {
+            this.inputs[last + 1] += delta;
+        } else {
+            this.inputs.push(code, delta);
+        }
+        this.elapsed += delta;
+    }
+
+    public getRecording(): ReplayRecording {
+        return {
+            // Hundredths of a millisecond are plenty and keep saves small
+            inputs: this.inputs.map((value, i) =>
+                i % 2 === 1 ? Math.round(value * 100) / 100 : value
+            ),
+            path: [...this.path],
+            pathInterval: PATH_INTERVAL_MS,
+        };
+    }
+}
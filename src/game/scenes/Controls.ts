@@ -0,0 +1,415 @@
+// src/game/scenes/Controls.ts
+import { Input, Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import storageService from '@/services/StorageService';
+import {
+    DEFAULT_KEY_BINDINGS,
+    DIRECTIONS,
+    Direction,
+    KeyBindings,
+    RESERVED_KEYS,
+    DEFAULT_TOUCH_CONTROLS,
+    TOUCH_CONTROLS,
+    TouchControls,
+    bindKey,
+    getKeyLabel,
+    toKeyBindings,
+    toTouchControls,
+} from '../data/controls';
+import {
+    SettingControl,
+    createOptionSelector,
+    createStyledText,
+    addButtonInteractions,
+} from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// Key table: one row per direction, a main and an alternate key each
+const FIRST_ROW_Y = 175;
+const ROW_SPACING = 44;
+const SLOT_XS = [450, 600];
+const SLOT_COLOR = '#4B4B6B';
+const SLOT_HOVER_COLOR = '#6A6A8F';
+const SLOT_WAITING_COLOR = '#B8860B';
+
+const DIRECTION_LABELS: Record<Direction, string> = {
+    up: 'Up',
+    down: 'Down',
+    left: 'Left',
+    right: 'Right',
+};
+
+const KEY_HINT = 'Click a key, then press the new one. Esc cancels.';
+
+const TOUCH_HINTS: Record<TouchControls, string> = {
+    Joystick: 'Touch the lower left and drag: the further, the faster.',
+    'D-Pad': 'Four arrow buttons in the lower left.',
+    'Tap to Fly': 'Tap or drag on the garden and the bee flies there.',
+};
+
+export class Controls extends Scene {
+    private returnTo: string = 'MainMenu'; // Passed back to Settings
+    private keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS;
+    private touchControls: TouchControls = DEFAULT_TOUCH_CONTROLS;
+    private isLoadingSettings: boolean = false;
+    // The key slot waiting for a key press, if any
+    private waitingFor?: { direction: Direction; slot: number };
+    private slotButtons: Partial<Record<Direction, Phaser.GameObjects.Text[]>> =
+        {};
+    private messageText?: Phaser.GameObjects.Text;
+    private gamepadText?: Phaser.GameObjects.Text;
+    private touchSelector?: SettingControl<TouchControls>;
+    private touchHintText?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('Controls');
+    }
+
+    init(data: { returnTo?: string }) {
+        this.returnTo = data?.returnTo ?? 'MainMenu';
+        this.waitingFor = undefined;
+
+        // Drop references from a previous visit
+        this.slotButtons = {};
+        this.messageText = undefined;
+        this.gamepadText = undefined;
+        this.touchSelector = undefined;
+        this.touchHintText = undefined;
+
+        this.loadSettings().catch(error => {
+            console.error('Error initiating controls load:', error);
+        });
+    }
+
+    async loadSettings() {
+        this.isLoadingSettings = true;
+        try {
+            const settings = (await storageService.getProgress())?.settings;
+            this.keyBindings = toKeyBindings(settings?.keyBindings);
+            this.touchControls = toTouchControls(settings?.touchControls);
+            this.isLoadingSettings = false;
+
+            // Redraw if the scene was created before the settings arrived
+            this.updateSlots();
+            this.updateTouchControls();
+        } catch (error) {
+            console.error('Failed to load controls:', error);
+            this.isLoadingSettings = false;
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'Controls');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 50, 'Controls', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        const backButton = createStyledText(this, 70, 50, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        // --- Keyboard ---
+        const panel = this.add.graphics().setAlpha(0);
+        panel.fillStyle(0x000000, 0.55);
+        panel.fillRoundedRect(centerX - 290, 105, 580, 270, 16);
+
+        const headers = [
+            { x: 250, text: 'Keyboard' },
+            { x: SLOT_XS[0], text: 'Key' },
+            { x: SLOT_XS[1], text: 'Alternate' },
+        ].map(({ x, text }) =>
+            createStyledText(this, x, 140, text, 'subtitle')
+                .setFontSize('22px')
+                .setColor('#ffdd00')
+                .setAlpha(0)
+        );
+
+        const rowElements: Phaser.GameObjects.Text[] = [];
+        DIRECTIONS.forEach((direction, row) => {
+            const y = FIRST_ROW_Y + row * ROW_SPACING;
+            rowElements.push(
+                createStyledText(
+                    this,
+                    250,
+                    y,
+                    DIRECTION_LABELS[direction],
+                    'body'
+                )
+                    .setFontSize('20px')
+                    .setAlpha(0)
+            );
+            this.slotButtons[direction] = SLOT_XS.map((x, slot) => {
+                const button = createStyledText(this, x, y, '', 'body')
+                    .setFontSize('18px')
+                    .setBackgroundColor(SLOT_COLOR)
+                    .setPadding(12, 4)
+                    .setFixedSize(120, 0)
+                    .setAlign('center')
+                    .setAlpha(0);
+                addButtonInteractions(button, this, {
+                    onHover: () => {
+                        if (!this.isWaitingFor(direction, slot)) {
+                            button.setBackgroundColor(SLOT_HOVER_COLOR);
+                        }
+                    },
+                    onOut: () => {
+                        if (!this.isWaitingFor(direction, slot)) {
+                            button.setBackgroundColor(SLOT_COLOR);
+                        }
+                    },
+                    onClick: () => this.startRebinding(direction, slot),
+                });
+                rowElements.push(button);
+                return button;
+            });
+        });
+
+        this.messageText = createStyledText(
+            this,
+            centerX,
+            350,
+            KEY_HINT,
+            'body'
+        )
+            .setFontSize('15px')
+            .setColor('#dddddd')
+            .setAlpha(0);
+
+        const resetButton = createStyledText(
+            this,
+            centerX,
+            405,
+            'Reset Keys',
+            'body'
+        )
+            .setFontSize('18px')
+            .setBackgroundColor('#8B5A2B')
+            .setPadding(14, 6)
+            .setAlpha(0);
+
+        // --- Touch screens ---
+        const touchLabel = createStyledText(
+            this,
+            centerX - 235,
+            452,
+            'Touch',
+            'subtitle'
+        )
+            .setFontSize('22px')
+            .setColor('#ffdd00')
+            .setAlpha(0);
+
+        this.touchSelector = createOptionSelector(
+            this,
+            centerX - 175,
+            452,
+            TOUCH_CONTROLS,
+            this.touchControls,
+            value => this.applyTouchControls(value)
+        );
+        this.touchSelector.container.setAlpha(0);
+
+        this.touchHintText = createStyledText(this, centerX, 490, '', 'body')
+            .setFontSize('15px')
+            .setColor('#dddddd')
+            .setAlpha(0);
+        this.updateTouchControls();
+
+        // --- Gamepad and mouse ---
+        const otherControls = createStyledText(
+            this,
+            centerX,
+            533,
+            'Gamepad: left stick or D-pad to fly (a gentle push flies slower), Start to pause.\nMouse: hold on the garden and the bee flies toward it.',
+            'body'
+        )
+            .setFontSize('15px')
+            .setAlign('center')
+            .setLineSpacing(6)
+            .setAlpha(0);
+
+        this.gamepadText = createStyledText(this, centerX, 578, '', 'body')
+            .setFontSize('15px')
+            .setColor('#90ee90')
+            .setAlpha(0);
+        this.updateGamepadStatus();
+        this.input.gamepad?.on(
+            Input.Gamepad.Events.CONNECTED,
+            this.updateGamepadStatus,
+            this
+        );
+        this.input.gamepad?.on(
+            Input.Gamepad.Events.DISCONNECTED,
+            this.updateGamepadStatus,
+            this
+        );
+
+        this.input.keyboard?.on('keydown', this.handleKeyDown, this);
+
+        if (!this.isLoadingSettings) {
+            this.updateSlots();
+        }
+
+        const elements = [
+            title,
+            backButton,
+            panel,
+            ...headers,
+            ...rowElements,
+            this.messageText,
+            resetButton,
+            touchLabel,
+            this.touchSelector.container,
+            this.touchHintText,
+            otherControls,
+            this.gamepadText,
+        ];
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' }).to(
+            elements.slice(1),
+            { alpha: 1, duration: 0.4, stagger: 0.02 },
+            '-=0.3'
+        );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                this.waitingFor = undefined;
+                createTransitionOut(this, elements, () => {
+                    this.scene.start('Settings', { returnTo: this.returnTo });
+                });
+            },
+        });
+
+        addButtonInteractions(resetButton, this, {
+            onHover: () => resetButton.setBackgroundColor('#A0522D'),
+            onOut: () => resetButton.setBackgroundColor('#8B5A2B'),
+            onClick: () => {
+                this.waitingFor = undefined;
+                this.applyBindings(DEFAULT_KEY_BINDINGS);
+                this.messageText?.setText('Keys reset to the arrows and WASD.');
+            },
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private isWaitingFor(direction: Direction, slot: number): boolean {
+        return (
+            this.waitingFor?.direction === direction &&
+            this.waitingFor.slot === slot
+        );
+    }
+
+    private startRebinding(direction: Direction, slot: number): void {
+        if (this.isLoadingSettings) return;
+        this.waitingFor = { direction, slot };
+        this.updateSlots();
+        this.messageText?.setText(
+            `Press a key for ${DIRECTION_LABELS[direction]} (Esc cancels)`
+        );
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        if (!this.waitingFor) return;
+        const { direction, slot } = this.waitingFor;
+        this.waitingFor = undefined;
+
+        const codes = Input.Keyboard.KeyCodes as Record<string, number>;
+        const key = Object.keys(codes).find(
+            name => codes[name] === event.keyCode
+        );
+        if (!key || RESERVED_KEYS.includes(key)) {
+            this.updateSlots();
+            this.messageText?.setText(
+                key ? KEY_HINT : "That key can't be used. " + KEY_HINT
+            );
+            return;
+        }
+
+        this.applyBindings(bindKey(this.keyBindings, direction, slot, key));
+        this.messageText?.setText(
+            `${DIRECTION_LABELS[direction]} is now ${getKeyLabel(key)}.`
+        );
+    }
+
+    // Shows, broadcasts (for a paused run) and saves new bindings
+    private applyBindings(bindings: KeyBindings): void {
+        this.keyBindings = bindings;
+        this.updateSlots();
+        EventBus.emit(COMMON_EVENTS.SETTINGS_CHANGED, {
+            keyBindings: bindings,
+        });
+        storageService.saveSettings({ keyBindings: bindings }).catch(error => {
+            console.error('Failed to save key bindings:', error);
+        });
+    }
+
+    // Shows, broadcasts (for a paused run) and saves the touch controls
+    private applyTouchControls(touchControls: TouchControls): void {
+        this.touchControls = touchControls;
+        this.updateTouchControls();
+        EventBus.emit(COMMON_EVENTS.SETTINGS_CHANGED, { touchControls });
+        storageService.saveSettings({ touchControls }).catch(error => {
+            console.error('Failed to save touch controls:', error);
+        });
+    }
+
+    private updateTouchControls(): void {
+        this.touchSelector?.setValue(this.touchControls);
+        this.touchHintText?.setText(TOUCH_HINTS[this.touchControls]);
+    }
+
+    // Updates the key slots to the current bindings
+    private updateSlots(): void {
+        DIRECTIONS.forEach(direction => {
+            this.slotButtons[direction]?.forEach((button, slot) => {
+                const waiting = this.isWaitingFor(direction, slot);
+                button
+                    .setText(
+                        waiting
+                            ? '...'
+                            : getKeyLabel(this.keyBindings[direction][slot])
+                    )
+                    .setBackgroundColor(
+                        waiting ? SLOT_WAITING_COLOR : SLOT_COLOR
+                    );
+            });
+        });
+    }
+
+    private updateGamepadStatus(): void {
+        const pad = this.input.gamepad?.getAll()[0];
+        this.gamepadText?.setText(
+            pad
+                ? `Gamepad connected: ${pad.id}`
+                : 'No gamepad found. Press a button on it to connect.'
+        );
+    }
+}
@@ -0,0 +1,439 @@
+// src/game/scenes/DailyGarden.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import storageService, { DailyResult } from '@/services/StorageService';
+import { getActiveProfile } from '../data/profiles';
+import {
+    fromDateKey,
+    getDailySeed,
+    getDailyStreak,
+    toDateKey,
+} from '../data/dailyGarden';
+import { GameStartData } from './Game';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// Calendar grid (a month is at most 6 weeks of 7 days)
+const CALENDAR_CENTER_X = 230;
+const CELL_SIZE = 54;
+const GRID_TOP = 215;
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Right-hand column: streak, today's attempt and today's leaderboard
+const SIDE_X = 610;
+
+export class DailyGarden extends Scene {
+    private today: string = toDateKey(new Date());
+    private viewMonth: Date = new Date(); // First day of the month shown
+    private results: DailyResult[] = [];
+    private leaderboard: DailyResult[] = [];
+    private isLoadingResults: boolean = false;
+    private calendarContainer?: Phaser.GameObjects.Container;
+    private monthText?: Phaser.GameObjects.Text;
+    private streakText?: Phaser.GameObjects.Text;
+    private statusText?: Phaser.GameObjects.Text;
+    private playButton?: Phaser.GameObjects.Text;
+    private leaderboardText?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('DailyGarden');
+    }
+
+    init() {
+        this.today = toDateKey(new Date());
+        const todayDate = fromDateKey(this.today);
+        this.viewMonth = new Date(
+            todayDate.getFullYear(),
+            todayDate.getMonth(),
+            1
+        );
+
+        // Drop references from a previous visit
+        this.calendarContainer = undefined;
+        this.monthText = undefined;
+        this.streakText = undefined;
+        this.statusText = undefined;
+        this.playButton = undefined;
+        this.leaderboardText = undefined;
+
+        this.loadResults().catch(error => {
+            console.error('Error initiating daily results load:', error);
+        });
+    }
+
+    async loadResults() {
+        this.isLoadingResults = true;
+        try {
+            [this.results, this.leaderboard] = await Promise.all([
+                storageService.getDailyResults(),
+                storageService.getDailyLeaderboard(this.today),
+            ]);
+            this.isLoadingResults = false;
+
+            // Redraw if the scene was created before the data arrived
+            this.updateDisplay();
+        } catch (error) {
+            console.error('Failed to load daily results:', error);
+            this.isLoadingResults = false;
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'DailyGarden');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 48, 'Daily Garden', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        const dateText = createStyledText(
+            this,
+            centerX,
+            92,
+            `${fromDateKey(this.today).toLocaleDateString(undefined, {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+            })} · the same garden for everyone today`,
+            'body'
+        )
+            .setFontSize('17px')
+            .setAlpha(0);
+
+        const backButton = createStyledText(this, 70, 48, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        // --- Calendar (left) ---
+        const panels = this.add.graphics().setAlpha(0);
+        panels.fillStyle(0x000000, 0.6);
+        panels.fillRoundedRect(30, 120, 400, 450, 16);
+        panels.fillRoundedRect(450, 120, 320, 450, 16);
+
+        const prevButton = createStyledText(
+            this,
+            CALENDAR_CENTER_X - 160,
+            150,
+            '◀',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(10, 4)
+            .setAlpha(0);
+        const nextButton = createStyledText(
+            this,
+            CALENDAR_CENTER_X + 160,
+            150,
+            '▶',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(10, 4)
+            .setAlpha(0);
+        this.monthText = createStyledText(
+            this,
+            CALENDAR_CENTER_X,
+            150,
+            '',
+            'subtitle'
+        )
+            .setFontSize('24px')
+            .setAlpha(0);
+
+        const weekdayLabels = WEEKDAYS.map((day, col) =>
+            createStyledText(this, this.cellX(col), 188, day, 'body')
+                .setFontSize('15px')
+                .setColor('#dddddd')
+                .setAlpha(0)
+        );
+
+        this.calendarContainer = this.add.container(0, 0).setAlpha(0);
+
+        // --- Today (right) ---
+        this.streakText = createStyledText(this, SIDE_X, 170, '', 'body')
+            .setFontSize('20px')
+            .setAlign('center')
+            .setAlpha(0);
+
+        this.statusText = createStyledText(this, SIDE_X, 240, '', 'body')
+            .setFontSize('16px')
+            .setAlign('center')
+            .setWordWrapWidth(290)
+            .setAlpha(0);
+
+        this.playButton = createStyledText(
+            this,
+            SIDE_X,
+            300,
+            "Play Today's Garden",
+            'body'
+        )
+            .setFontSize('22px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(18, 10)
+            .setAlpha(0);
+
+        const leaderboardTitle = createStyledText(
+            this,
+            SIDE_X,
+            365,
+            "Today's Leaderboard",
+            'body'
+        )
+            .setFontSize('20px')
+            .setColor('#ffdd00')
+            .setAlpha(0);
+
+        this.leaderboardText = createStyledText(
+            this,
+            SIDE_X,
+            390,
+            'Loading...',
+            'body'
+        )
+            .setOrigin(0.5, 0)
+            .setFontSize('16px')
+            .setAlign('center')
+            .setLineSpacing(8)
+            .setAlpha(0);
+
+        if (!this.isLoadingResults) {
+            this.updateDisplay();
+        }
+
+        const contentElements = [
+            panels,
+            prevButton,
+            nextButton,
+            this.monthText,
+            ...weekdayLabels,
+            this.calendarContainer,
+            this.streakText,
+            this.statusText,
+            this.playButton,
+            leaderboardTitle,
+            this.leaderboardText,
+        ];
+        // Everything that fades out when leaving
+        const sceneElements = [title, dateText, backButton, ...contentElements];
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' })
+            .to([dateText, backButton], { alpha: 1, duration: 0.4 }, '-=0.3')
+            .to(
+                contentElements,
+                { alpha: 1, duration: 0.4, stagger: 0.02 },
+                '-=0.2'
+            );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                createTransitionOut(this, sceneElements, () => {
+                    this.scene.start('MainMenu');
+                });
+            },
+        });
+
+        addButtonInteractions(prevButton, this, {
+            onClick: () => this.changeMonth(-1),
+        });
+        addButtonInteractions(nextButton, this, {
+            onClick: () => this.changeMonth(1),
+        });
+
+        let isStarting = false;
+        addButtonInteractions(this.playButton, this, {
+            onHover: () => this.playButton!.setBackgroundColor('#3CB371'),
+            onOut: () => this.playButton!.setBackgroundColor('#2E8B57'),
+            onClick: () => {
+                if (this.isLoadingResults || isStarting) return;
+                isStarting = true;
+                this.startAttempt().then(data => {
+                    createTransitionOut(this, sceneElements, () => {
+                        this.scene.start('Game', data);
+                    });
+                });
+            },
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private getTodayResult(): DailyResult | undefined {
+        return this.results.find(result => result.date === this.today);
+    }
+
+    /**
+     * Records today's attempt before the run starts, so quitting part way
+     * still uses it up. Once it's used, the garden can only be practiced.
+     */
+    private async startAttempt(): Promise<GameStartData> {
+        const seed = getDailySeed(this.today);
+        if (this.getTodayResult()) {
+            return { mode: 'daily', seed };
+        }
+
+        try {
+            const profile = await getActiveProfile();
+            await storageService.saveDailyResult({
+                date: this.today,
+                profileName: profile?.name,
+                score: 0,
+                wave: 1,
+                completedFlowers: 0,
+                bonusAnswered: 0,
+                bonusCorrect: 0,
+                finished: false,
+                playedAt: new Date(),
+            });
+        } catch (error) {
+            console.error('Failed to record daily attempt:', error);
+        }
+        return { mode: 'daily', seed, dailyDate: this.today };
+    }
+
+    private changeMonth(direction: number): void {
+        const month = new Date(
+            this.viewMonth.getFullYear(),
+            this.viewMonth.getMonth() + direction,
+            1
+        );
+        // Nothing to show past the current month
+        if (month > fromDateKey(this.today)) return;
+        this.viewMonth = month;
+        this.renderCalendar();
+    }
+
+    private updateDisplay(): void {
+        this.renderCalendar();
+
+        const { current, best } = getDailyStreak(
+            this.results.map(result => result.date),
+            this.today
+        );
+        this.streakText?.setText(
+            `🔥 Streak: ${current} day${current === 1 ? '' : 's'}\nBest: ${best}`
+        );
+
+        const todayResult = this.getTodayResult();
+        this.statusText?.setText(
+            !todayResult
+                ? 'One scored attempt per day. Good luck!'
+                : todayResult.finished
+                  ? `Today's score: ${todayResult.score} (wave ${todayResult.wave})\nPlay again for practice.`
+                  : "Today's attempt was left unfinished.\nPlay again for practice."
+        );
+        this.playButton?.setText(
+            todayResult ? 'Practice (unscored)' : "Play Today's Garden"
+        );
+
+        this.leaderboardText?.setText(
+            this.leaderboard.length === 0
+                ? 'No finished runs today yet.'
+                : this.leaderboard
+                      .map(
+                          (result, index) =>
+                              `${index + 1}. ${result.profileName ?? 'Player'} · ${result.score} pts`
+                      )
+                      .join('\n')
+        );
+    }
+
+    private cellX(col: number): number {
+        return CALENDAR_CENTER_X + (col - 3) * CELL_SIZE;
+    }
+
+    // Rebuilds the month grid, marking days with an attempt
+    private renderCalendar(): void {
+        if (!this.calendarContainer) return;
+        this.calendarContainer.removeAll(true);
+
+        const year = this.viewMonth.getFullYear();
+        const month = this.viewMonth.getMonth();
+        this.monthText?.setText(
+            this.viewMonth.toLocaleDateString(undefined, {
+                month: 'long',
+                year: 'numeric',
+            })
+        );
+
+        const resultsByDay = new Map(
+            this.results.map(result => [result.date, result])
+        );
+        const firstWeekday = this.viewMonth.getDay();
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+        for (let day = 1; day <= daysInMonth; day++) {
+            const slot = firstWeekday + day - 1;
+            const x = this.cellX(slot % 7);
+            const y = GRID_TOP + Math.floor(slot / 7) * CELL_SIZE + 20;
+            const dateKey = toDateKey(new Date(year, month, day));
+            const result = resultsByDay.get(dateKey);
+
+            const cell = this.add.graphics();
+            cell.fillStyle(
+                result ? (result.finished ? 0xdaa520 : 0x777777) : 0xffffff,
+                result ? 0.85 : 0.1
+            );
+            cell.fillRoundedRect(x - 24, y - 24, 48, 48, 8);
+            if (dateKey === this.today) {
+                cell.lineStyle(2, 0xffffff, 1);
+                cell.strokeRoundedRect(x - 24, y - 24, 48, 48, 8);
+            }
+            this.calendarContainer.add(cell);
+
+            this.calendarContainer.add(
+                this.add
+                    .text(x, result ? y - 9 : y, String(day), {
+                        fontFamily: 'var(--font-poppins-family)',
+                        fontSize: '15px',
+                        color: '#ffffff',
+                    })
+                    .setOrigin(0.5)
+            );
+            if (result) {
+                this.calendarContainer.add(
+                    this.add
+                        .text(
+                            x,
+                            y + 10,
+                            result.finished ? `${result.score}` : '—',
+                            {
+                                fontFamily: 'var(--font-poppins-family)',
+                                fontSize: '12px',
+                                fontStyle: 'bold',
+                                color: '#3b2000',
+                            }
+                        )
+                        .setOrigin(0.5)
+                );
+            }
+        }
+    }
+}
@@ -3,20 +3,68 @@ import * as Phaser from 'phaser';
 import EventBus from '../EventBus';
 // Import the new components
 import { Bee } from '../entities/Bee';
+import { GhostBee } from '../entities/GhostBee';
 import { FlowerManager, FlowerData } from '../managers/FlowerManager'; // Import interface too
 import { GameTimer } from '../managers/GameTimer';
 import { BonusChallenge } from '../managers/BonusChallenge'; // Import BonusChallenge from its new location
+import { FactManager } from '../managers/FactManager';
+import { ReplayRecorder } from '../managers/ReplayRecorder';
+import { ReplayPlayer } from '../managers/ReplayPlayer';
+import { InputController } from '../managers/InputController';
+import { audioManager } from '../managers/AudioManager';
+import { SOUND_KEYS } from '../utils/audio/soundKeys';
+import {
+    DEFAULT_DIFFICULTY,
+    DifficultyLevel,
+    DifficultyProfile,
+    getDifficultyProfile,
+    toDifficultyLevel,
+} from '../data/difficulty';
+import { DEFAULT_GAME_MODE, GameMode, toGameMode } from '../data/gameModes';
+import { DAILY_DIFFICULTY } from '../data/dailyGarden';
+import { quantizeMovement } from '../data/replays';
+import {
+    DEFAULT_KEY_BINDINGS,
+    DEFAULT_TOUCH_CONTROLS,
+    KeyBindings,
+    MovementVector,
+    TouchControls,
+    toKeyBindings,
+    toTouchControls,
+} from '../data/controls';
+import { SeededRandom, parseSeed } from '../utils/random';
 import { createParticles, addInteractionPulse } from '../utils/effects'; // Import utils
 import { createFloatingScoreTween } from '../utils/animation'; // Import animation utils
+import { getPollenTint, markFlowerCollected } from '../data/flowerTypes';
+import { QuizService } from '../data/quizData';
+import storageService, { ReplayRecord } from '@/services/StorageService';
 import {
     registerEventHandlers,
     unregisterEventHandlers,
     COMMON_EVENTS,
-} from '../utils/eventUtils'; // Import event utils
+    EventHandler,
+} from '../utils/eventUtils';
+import {
+    ChallengeResultPayload,
+    DpadPayload,
+    JoystickPayload,
+    GAME_SCENE_EVENT_SCHEMAS,
+    GameSceneEventArgs,
+    GameSceneEventName,
+    validateEventArgs,
+} from '../events'; // Import event utils
 
 // Keep type alias if needed, or rely on Phaser's types directly
 type ArcadePhysicsCallback = Phaser.Types.Physics.Arcade.ArcadePhysicsCallback;
 
+// How a run is set up when the scene starts
+export interface GameStartData {
+    seed?: number;
+    mode?: GameMode;
+    dailyDate?: string; // Set for the day's scored Daily Garden attempt
+    replay?: ReplayRecord; // Play a recorded run back instead
+}
+
 export class Game extends Phaser.Scene {
     // Entities and Managers
     public bee!: Bee; // Make bee public for BonusChallenge access
@@ -24,12 +72,18 @@ export class Game extends Phaser.Scene {
     private flowerManager!: FlowerManager;
     private gameTimer!: GameTimer;
     private bonusChallenge!: BonusChallenge; // New bonus challenge manager
+    private factManager!: FactManager; // Knowledge Nectar fact rotation
     private mainPhysicsOverlap?: { active: boolean }; // Track main physics overlap
 
     // Input
-    private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
-    private dpadState = { up: false, down: false, left: false, right: false };
+    private controls?: InputController; // Keys, gamepad, D-pad and pointer
+    private keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS;
+    private touchControls: TouchControls = DEFAULT_TOUCH_CONTROLS;
     private inputEnabled: boolean = true;
+    private recorder?: ReplayRecorder; // Live runs
+    private replayPlayer?: ReplayPlayer; // Replays
+    private ghost?: GhostBee; // The best recorded run on this garden
+    private movementTime: number = 0; // Milliseconds the bee could move
 
     // Game State
     private score: number = 0;
@@ -39,32 +93,113 @@ export class Game extends Phaser.Scene {
     private completedFlowers: number = 0;
     private pollinationCount: number = 0;
     private currentWave: number = 1;
+    private bonusAnswered: number = 0; // Bonus challenges this run
+    private bonusCorrect: number = 0;
+    private isShowingFact: boolean = false;
 
     // Event handlers for cleanup
-    private eventHandlers: Array<{
-        event: string;
-        handler: (...args: unknown[]) => void;
-        context: unknown;
-    }> = [];
-
-    // Config
-    private readonly gameDuration: number = 60; // Seconds
+    private eventHandlers: EventHandler[] = [];
+
+    // Config (replaced by the player's difficulty setting in create)
+    private difficulty: DifficultyProfile =
+        getDifficultyProfile(DEFAULT_DIFFICULTY);
+    private difficultyLevel: DifficultyLevel = DEFAULT_DIFFICULTY;
+    private mode: GameMode = DEFAULT_GAME_MODE;
+    private seed: number = 0; // Every random choice in the run follows from this
+    private dailyDate?: string;
+    private replay?: ReplayRecord;
+    private ghostEnabled: boolean = false;
+    private random!: SeededRandom; // In-run rolls (when bonus challenges trigger)
 
     constructor() {
         super('Game');
     }
 
+    init(data: GameStartData) {
+        this.replay = data?.replay;
+        this.mode = this.replay
+            ? toGameMode(this.replay.mode)
+            : (data?.mode ?? DEFAULT_GAME_MODE);
+        this.dailyDate = this.replay ? undefined : data?.dailyDate;
+        // Drop references from a previous run
+        this.recorder = undefined;
+        this.replayPlayer = undefined;
+        this.ghost = undefined;
+        // A seed handed over (Replay Seed, Daily Garden, a replay) or in
+        // the URL repeats that garden
+        this.seed =
+            this.replay?.seed ??
+            data?.seed ??
+            parseSeed(
+                new URLSearchParams(window.location.search).get('seed')
+            ) ??
+            SeededRandom.createSeed();
+    }
+
     async create() {
+        // Settings decide the difficulty profile, so load them before building the round
+        this.factManager = new FactManager(
+            new SeededRandom(this.seed).fork('facts')
+        );
+        await this.loadSettings();
+        if (!this.sys.isActive()) return; // Scene left while settings were loading
+
+        // Separate streams, so the garden doesn't change with how the run goes
+        const random = new SeededRandom(this.seed);
+        this.random = random.fork('events');
+
         this.add.image(400, 300, 'background_generated');
         this.flowers = this.physics.add.staticGroup();
-        this.flowerManager = new FlowerManager(this, this.flowers);
-        this.bee = new Bee(this, 100, this.cameras.main.height / 2); // Create Bee instance
-        this.bonusChallenge = new BonusChallenge(this, this.flowerManager); // Bonus challenge manager
+        this.flowerManager = new FlowerManager(
+            this,
+            this.flowers,
+            random.fork('garden')
+        );
+        this.bee = new Bee(
+            this,
+            100,
+            this.cameras.main.height / 2,
+            this.difficulty.beeSpeed
+        ); // Create Bee instance
+        this.bonusChallenge = new BonusChallenge(
+            this,
+            this.flowerManager,
+            this.difficulty,
+            {
+                random: random.fork('challenges'),
+                // The Daily Garden asks everyone the same questions
+                adaptive: this.mode !== 'daily',
+                bundledOnly: this.mode === 'daily',
+                questions: this.replay?.questions,
+                recordResults: !this.replay,
+            }
+        ); // Bonus challenge manager
+
+        // --- Replay ---
+        if (this.replay) {
+            this.replayPlayer = new ReplayPlayer(this.replay);
+            this.add
+                .text(
+                    this.cameras.main.width / 2,
+                    this.cameras.main.height - 20,
+                    `Replay · Seed ${this.seed}`,
+                    {
+                        fontFamily: 'Arial',
+                        fontSize: '16px',
+                        color: '#FFFFFF',
+                        stroke: '#000000',
+                        strokeThickness: 3,
+                    }
+                )
+                .setOrigin(0.5)
+                .setDepth(20);
+        } else {
+            this.recorder = new ReplayRecorder();
+            if (this.ghostEnabled) this.loadGhost();
+        }
 
         // --- Flower Setup (using Manager) ---
-        this.flowerManager.spawnFlowers(6, 'red'); // (Removed duplicate spawn)
-        this.flowerManager.spawnFlowers(6, 'blue');
-        this.flowerManager.assignInitialPollen();
+        this.spawnWaveFlowers(1);
 
         // --- Physics ---
         this.mainPhysicsOverlap = this.physics.add.overlap(
@@ -76,8 +211,13 @@ export class Game extends Phaser.Scene {
         );
 
         // --- Input ---
+        this.controls = new InputController(this, {
+            keyBindings: this.keyBindings,
+            touchControls: this.touchControls,
+            onPause: () => this.openPauseMenu(),
+        });
         if (this.input.keyboard) {
-            this.cursors = this.input.keyboard.createCursorKeys();
+            this.input.keyboard.on('keydown-ESC', this.openPauseMenu, this);
         } else {
             console.error('Keyboard input plugin not found.');
         }
@@ -89,19 +229,39 @@ export class Game extends Phaser.Scene {
                 handler: this.handleDpadInput,
                 context: this,
             },
+            {
+                event: COMMON_EVENTS.JOYSTICK,
+                handler: this.handleJoystickInput,
+                context: this,
+            },
             {
                 event: COMMON_EVENTS.GAME_SET_INPUT_ACTIVE,
                 handler: this.setInputActive,
                 context: this,
             },
+            {
+                event: COMMON_EVENTS.UI_MODAL_CLOSED,
+                handler: this.handleFactClosed,
+                context: this,
+            },
+            {
+                event: COMMON_EVENTS.GAME_REQUEST_PAUSE,
+                handler: this.openPauseMenu,
+                context: this,
+            },
+            {
+                event: COMMON_EVENTS.GAMEPLAY_CHALLENGE_COMPLETED,
+                handler: this.handleChallengeCompleted,
+                context: this,
+            },
         ];
         registerEventHandlers(this.eventHandlers);
 
         // --- Timer Setup (using Manager) ---
         this.gameTimer = new GameTimer(
             this,
-            this.gameDuration,
-            time => this.events.emit(COMMON_EVENTS.GAME_UPDATE_TIMER, time), // Update callback
+            this.difficulty.gameDuration,
+            time => this.handleTimerUpdate(time), // Update callback
             () => this.handleTimeUp() // Completion callback
         );
 
@@ -110,13 +270,23 @@ export class Game extends Phaser.Scene {
 
         // --- Start Timer ---
         this.gameTimer.start();
+        if (!this.replay) EventBus.emit(COMMON_EVENTS.GAMEPLAY_GAME_STARTED);
 
         // --- Initial UI Events ---
-        this.events.emit(COMMON_EVENTS.GAME_UPDATE_SCORE, this.score);
+        this.emitSceneEvent(COMMON_EVENTS.GAME_UPDATE_SCORE, this.score);
         // Timer manager handles initial emit via its start()
 
         // --- Schedule first bonus challenge ---
-        this.bonusChallenge.scheduleNextChallenge(15000, 25000); // First one appears between 15-25 seconds
+        // First one comes sooner than the rest, and as soon as allowed when
+        // the player has gone a few games without a quiz (not in the Daily
+        // Garden, where everyone's timing matches)
+        const { firstChallengeDelay } = this.difficulty;
+        this.bonusChallenge.scheduleNextChallenge(
+            firstChallengeDelay.min,
+            this.mode !== 'daily' && QuizService.getInstance().isQuizDue()
+                ? firstChallengeDelay.min
+                : firstChallengeDelay.max
+        );
 
         // --- Scene Cleanup ---
         this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
@@ -134,10 +304,14 @@ export class Game extends Phaser.Scene {
         this.bee.setPollenIndicator(null); // Tell bee its indicator is gone
 
         this.inputEnabled = true;
-        this.dpadState = { up: false, down: false, left: false, right: false };
+        this.controls?.reset();
         this.completedFlowers = 0;
         this.pollinationCount = 0;
         this.currentWave = 1;
+        this.bonusAnswered = 0;
+        this.bonusCorrect = 0;
+        this.isShowingFact = false;
+        this.movementTime = 0;
 
         // Reset visual/physics state of bee if restarting scene
         if (this.bee?.body) {
@@ -147,6 +321,120 @@ export class Game extends Phaser.Scene {
         }
     }
 
+    // Typed emit on this scene's own emitter (PhaserGame relays these to React)
+    private emitSceneEvent<K extends GameSceneEventName>(
+        event: K,
+        ...args: GameSceneEventArgs<K>
+    ): void {
+        validateEventArgs(GAME_SCENE_EVENT_SCHEMAS, event, args);
+        this.events.emit(event, ...args);
+    }
+
+    // Pauses the run and opens the Pause overlay (Escape key or UI button)
+    private openPauseMenu(): void {
+        // Not while a fact is up (it already holds the game) or the round is over
+        if (
+            !this.sys.isActive() ||
+            this.isShowingFact ||
+            this.gameTimer.getRemainingTime() <= 0
+        ) {
+            return;
+        }
+
+        // Scene pause freezes physics, Phaser tweens and every scene timer
+        // (GameTimer and the bonus challenge timers included)
+        this.scene.pause();
+        this.bee.pauseAnimations();
+        this.events.once(Phaser.Scenes.Events.RESUME, this.handleResume, this);
+
+        this.scene.launch('Pause', {
+            score: this.score,
+            remainingTime: this.gameTimer.getRemainingTime(),
+            wave: this.currentWave,
+            restartWith: this.getRestartData(),
+        });
+    }
+
+    // How Pause's Restart sets up the next run (undefined for a fresh one)
+    private getRestartData(): GameStartData | undefined {
+        if (this.replay) return { replay: this.replay };
+        // Today's garden again, but the day's scored attempt is used up
+        return this.mode === 'daily'
+            ? { mode: this.mode, seed: this.seed }
+            : undefined;
+    }
+
+    // Called when the Pause overlay resumes the scene
+    private handleResume(): void {
+        this.bee.resumeAnimations();
+    }
+
+    // Tally bonus challenge results for the run's score record
+    private handleChallengeCompleted({
+        correct,
+    }: ChallengeResultPayload): void {
+        this.bonusAnswered++;
+        if (correct) this.bonusCorrect++;
+    }
+
+    // Forwards the time to the UI and ticks through the final seconds
+    private handleTimerUpdate(time: number): void {
+        this.emitSceneEvent(COMMON_EVENTS.GAME_UPDATE_TIMER, time);
+        if (time > 0 && time <= 5) {
+            audioManager.playSfx(SOUND_KEYS.COUNTDOWN);
+        }
+    }
+
+    // Reads the persisted difficulty, Knowledge Nectar and ghost bee
+    // settings (a replay keeps the ones it was recorded with)
+    private async loadSettings(): Promise<void> {
+        if (this.replay) {
+            this.difficultyLevel = toDifficultyLevel(this.replay.difficulty);
+            this.difficulty = getDifficultyProfile(this.difficultyLevel);
+            this.factManager.setEnabled(this.replay.knowledgeNectar);
+            this.ghostEnabled = false;
+            return;
+        }
+        try {
+            const progress = await storageService.getProgress();
+            this.difficultyLevel =
+                this.mode === 'daily'
+                    ? DAILY_DIFFICULTY // Same waves for everyone
+                    : toDifficultyLevel(progress?.settings?.difficulty);
+            this.difficulty = getDifficultyProfile(this.difficultyLevel);
+            // Facts are on by default
+            this.factManager.setEnabled(
+                progress?.settings?.knowledgeNectar ?? true
+            );
+            this.ghostEnabled = progress?.settings?.ghostBee ?? false;
+            this.keyBindings = toKeyBindings(progress?.settings?.keyBindings);
+            this.touchControls = toTouchControls(
+                progress?.settings?.touchControls
+            );
+        } catch (error) {
+            console.error('Failed to load settings, using defaults:', error);
+            this.difficultyLevel =
+                this.mode === 'daily' ? DAILY_DIFFICULTY : DEFAULT_DIFFICULTY;
+            this.difficulty = getDifficultyProfile(this.difficultyLevel);
+        }
+    }
+
+    // Brings in the ghost of the best recorded run on this garden, if any
+    private loadGhost(): void {
+        storageService
+            .getBestReplay(this.seed, this.difficultyLevel)
+            .then(best => {
+                // The scene may have moved on while this was loading
+                if (best && this.sys.isActive() && !this.ghost) {
+                    this.ghost = new GhostBee(this, best);
+                    this.ghost.follow(this.movementTime);
+                }
+            })
+            .catch(error => {
+                console.error('Failed to load ghost bee:', error);
+            });
+    }
+
     // Enable/disable main physics overlap for bonus challenges
     public setMainPhysicsOverlapActive(active: boolean): void {
         if (this.mainPhysicsOverlap) {
@@ -157,7 +445,7 @@ export class Game extends Phaser.Scene {
     // Add bonus score from challenges
     public addBonusScore(points: number): void {
         this.score += points;
-        this.events.emit(COMMON_EVENTS.GAME_UPDATE_SCORE, this.score);
+        this.emitSceneEvent(COMMON_EVENTS.GAME_UPDATE_SCORE, this.score);
 
         // Show floating score text
         const scoreText = this.add
@@ -193,19 +481,12 @@ export class Game extends Phaser.Scene {
 
         this.time.delayedCall(1500, () => {
             if (this.scene.isActive()) {
-                this.scene.start('GameOver', {
-                    score: this.score,
-                    completedFlowers: this.completedFlowers,
-                    totalTime:
-                        this.gameDuration - this.gameTimer.getRemainingTime(),
-                    currentWave: this.currentWave,
-                });
+                this.finishRun();
             }
         });
     }
 
-    private setInputActive(...args: unknown[]): void {
-        const isActive = args[0] as boolean;
+    private setInputActive(isActive: boolean): void {
         if (this.inputEnabled === isActive) return;
         this.inputEnabled = isActive;
 
@@ -213,42 +494,36 @@ export class Game extends Phaser.Scene {
             // --- Disable ---
             // Update loop handles body disable/velocity stop
             this.gameTimer.pause(); // Use timer manager method
-            this.dpadState = {
-                up: false,
-                down: false,
-                left: false,
-                right: false,
-            };
+            this.controls?.reset();
             // Tell bee to stop animating immediately
             this.bee.stopFlappingAnimation(true);
         } else {
             // --- Enable ---
             // Update loop handles body enable
             this.gameTimer.resume(); // Use timer manager method
-            this.input.keyboard?.resetKeys();
-            this.dpadState = {
-                up: false,
-                down: false,
-                left: false,
-                right: false,
-            };
+            this.controls?.reset();
             // Bee animation will restart on movement in update
         }
     }
 
     // Handles DPad input events - Remains in Scene
-    private handleDpadInput(...args: unknown[]): void {
-        const data = args[0] as {
-            direction: 'up' | 'down' | 'left' | 'right';
-            active: boolean;
-        };
-        if (this.inputEnabled && data.direction in this.dpadState) {
-            this.dpadState[data.direction] = data.active;
+    private handleDpadInput(data: DpadPayload): void {
+        if (this.replay) return; // A replay plays the recorded input
+        if (this.inputEnabled) {
+            this.controls?.setDpad(data.direction, data.active);
+        }
+    }
+
+    // Handles the on-screen joystick's direction vector
+    private handleJoystickInput(vector: JoystickPayload): void {
+        if (this.replay) return;
+        if (this.inputEnabled) {
+            this.controls?.setJoystick(vector);
         }
     }
 
     // --- Update Loop ---
-    update(_time: number, _delta: number): void {
+    update(_time: number, delta: number): void {
         if (!this.bee?.body) return; // Guard clause
 
         const beeBody = this.bee.body as Phaser.Physics.Arcade.Body;
@@ -270,7 +545,9 @@ export class Game extends Phaser.Scene {
             }
             // Delegate movement logic to the Bee entity only if body is enabled
             if (beeBody.enable) {
-                this.bee.updateMovement(this.cursors, this.dpadState);
+                this.bee.updateMovement(this.readMovement(delta));
+                this.movementTime += delta;
+                this.ghost?.follow(this.movementTime);
             } else {
                 // This branch should theoretically not be reached if inputEnabled is true,
                 // as the body is enabled just before this check. Leaving warn for safety.
@@ -282,6 +559,31 @@ export class Game extends Phaser.Scene {
         // Note: Pollen indicator position update is now handled within bee.updateMovement
     }
 
+    // Where the bee is steered this frame: recorded from the controls in a
+    // live run, or read back from the recording in a replay
+    private readMovement(delta: number): MovementVector {
+        if (this.replayPlayer) {
+            const { movement, position } = this.replayPlayer.next(delta);
+            // Put the bee back on the recorded path, so small differences
+            // in frame timing don't add up over the run
+            if (position) {
+                (this.bee.body as Phaser.Physics.Arcade.Body).reset(
+                    position.x,
+                    position.y
+                );
+            }
+            return movement;
+        }
+
+        // Steer with the recorded precision, so the replay flies the same path
+        // and its path snapping only has to catch frame timing
+        const movement = quantizeMovement(
+            this.controls?.getMovement(this.bee) ?? { x: 0, y: 0 }
+        );
+        this.recorder?.record(movement, delta, this.bee.x, this.bee.y);
+        return movement;
+    }
+
     // --- Collision Handling - Remains in Scene ---
     handleBeeFlowerCollision(
         beeGO:
@@ -324,6 +626,7 @@ export class Game extends Phaser.Scene {
             this.bee.carryingPollenType = data.type; // Update Bee's state
             data.hasPollen = false;
             flower.clearTint();
+            audioManager.playSfx(SOUND_KEYS.POLLEN_PICKUP);
 
             // Destroy previous indicator if any (safety check)
             this.pollenIndicator?.destroy();
@@ -337,7 +640,7 @@ export class Game extends Phaser.Scene {
                     'pollen_particle_generated'
                 )
                 .setDepth(11)
-                .setTint(data.type === 'red' ? 0xffaaaa : 0xaaaaff)
+                .setTint(getPollenTint(data.type))
                 .setScale(0)
                 .setAlpha(0);
 
@@ -386,7 +689,15 @@ export class Game extends Phaser.Scene {
             this.score += 10;
             this.completedFlowers++;
             this.pollinationCount++;
-            this.events.emit(COMMON_EVENTS.GAME_UPDATE_SCORE, this.score);
+            this.emitSceneEvent(COMMON_EVENTS.GAME_UPDATE_SCORE, this.score);
+            if (!this.replay) EventBus.emit(COMMON_EVENTS.GAMEPLAY_POLLINATION);
+            audioManager.playSfx(SOUND_KEYS.POLLINATION);
+
+            // Add the species to the player's Garden Journal (not when
+            // watching a replay)
+            if (data.flowerId && !this.replay) {
+                this.recordFlowerCollected(data.flowerId);
+            }
 
             // Destroy pollen indicator visually
             if (this.pollenIndicator) {
@@ -420,25 +731,49 @@ export class Game extends Phaser.Scene {
             addInteractionPulse(this, this.bee, 1.05);
 
             // --- Win Logic ---
-            this.handlePollinationOutcome(); // Extract complex logic
+            this.handlePollinationOutcome(data.flowerId); // Extract complex logic
         }
     }
 
+    // Marks a species as discovered and persists its collection count
+    private recordFlowerCollected(flowerId: string): void {
+        markFlowerCollected(flowerId);
+        storageService
+            .recordFlowerCollected(flowerId)
+            .then(entry => {
+                if (entry?.collectionCount === 1) {
+                    EventBus.emit(
+                        COMMON_EVENTS.GAMEPLAY_SPECIES_DISCOVERED,
+                        flowerId
+                    );
+                }
+            })
+            .catch(error => {
+                console.error('Failed to save flower collection:', error);
+            });
+    }
+
     // Extracted logic for handling what happens after successful pollination
-    private handlePollinationOutcome(): void {
-        void this._processPollinationLogic();
+    private handlePollinationOutcome(flowerId?: string): void {
+        void this._processPollinationLogic(flowerId);
     }
 
     // Central function to process the outcome of pollination
-    private _processPollinationLogic(): void {
+    private _processPollinationLogic(flowerId?: string): void {
         try {
             // Priority 1: Check for Win Condition and handle end game if needed
             const winResult = this._checkAndHandleWinCondition();
             if (winResult.shouldEnd) {
                 // Game ending sequence is initiated within _checkAndHandleWinCondition
             } else {
-                // Game continues... check if we should trigger bonus challenge
-                this._tryTriggerBonusChallenge();
+                // Game continues... share a fact about the species, or
+                // otherwise check if we should trigger bonus challenge
+                const factShown = flowerId
+                    ? this._tryShowFact(flowerId)
+                    : false;
+                if (!factShown) {
+                    this._tryTriggerBonusChallenge();
+                }
 
                 // --- Assign More Pollen (only if game isn't ending) ---
                 this._assignPollenAndEffects();
@@ -471,18 +806,60 @@ export class Game extends Phaser.Scene {
         const shouldAttemptTrigger =
             meetsThreshold &&
             challengeInactive &&
-            Phaser.Math.Between(1, 100) <= 40;
+            this.random.between(1, 100) <= 40;
 
         if (shouldAttemptTrigger) {
             this.time.delayedCall(1500, () => {
                 // Double-check state inside the delayed call, as things might change
-                if (this.scene.isActive() && !this.bonusChallenge.isActive()) {
+                if (
+                    this.scene.isActive() &&
+                    !this.bonusChallenge.isActive() &&
+                    !this.isShowingFact
+                ) {
                     this.bonusChallenge.startChallenge();
                 }
             });
         }
     }
 
+    // Shows a Knowledge Nectar fact for the pollinated species, if one is due.
+    // Returns true if a fact popup was opened.
+    private _tryShowFact(flowerId: string): boolean {
+        if (
+            this.isShowingFact ||
+            this.bonusChallenge.isActive() ||
+            this.gameTimer.getRemainingTime() <= 0
+        ) {
+            return false;
+        }
+
+        // A replay goes on without the fact, the way the run did once it
+        // was closed (the timers were held while it was up)
+        if (this.replay) {
+            return this.factManager.skipFactForPollination(flowerId);
+        }
+
+        const fact = this.factManager.getFactForPollination(flowerId);
+        if (!fact) return false;
+
+        this.isShowingFact = true;
+        // Freeze the bee, the game timer and the next bonus challenge while reading
+        this.setInputActive(false);
+        this.bonusChallenge.pause();
+        // PhaserGame forwards this to the GameUI modal, which reports back
+        // with UI_MODAL_CLOSED once the fact has been on screen long enough
+        this.emitSceneEvent(COMMON_EVENTS.GAME_SHOW_FACT, fact);
+        return true;
+    }
+
+    // Called when the GameUI fact modal closes
+    private handleFactClosed(): void {
+        if (!this.isShowingFact) return;
+        this.isShowingFact = false;
+        this.bonusChallenge.resume();
+        // Input (and with it the timer) is re-enabled by PhaserGame on modal close
+    }
+
     // Assigns more pollen if needed and applies visual effects
     private _assignPollenAndEffects(): void {
         const newFlower =
@@ -523,19 +900,18 @@ export class Game extends Phaser.Scene {
 
         // Increment wave counter
         this.currentWave++;
+        if (!this.replay) {
+            EventBus.emit(
+                COMMON_EVENTS.GAMEPLAY_WAVE_REACHED,
+                this.currentWave
+            );
+        }
 
         // Clear completed flowers
         this.flowerManager.clearFlowers();
 
-        // Calculate flower count for this wave (progressive difficulty)
-        const baseFlowerCount = 6;
-        const waveBonus = Math.floor((this.currentWave - 1) / 2); // +1 flower every 2 waves
-        const flowerCount = Math.min(baseFlowerCount + waveBonus, 12); // Cap at 12 flowers
-
         // Spawn new flowers
-        this.flowerManager.spawnFlowers(flowerCount, 'red');
-        this.flowerManager.spawnFlowers(flowerCount, 'blue');
-        this.flowerManager.assignInitialPollen();
+        this.spawnWaveFlowers(this.currentWave);
 
         // Bonus points for completing a wave
         const waveBonusPoints = this.currentWave * 50;
@@ -543,6 +919,7 @@ export class Game extends Phaser.Scene {
 
         // Show wave complete message
         this.showWaveCompleteMessage(this.currentWave);
+        audioManager.playSfx(SOUND_KEYS.WAVE_COMPLETE);
 
         // Add some visual effects
         this.time.delayedCall(500, () => {
@@ -559,6 +936,30 @@ export class Game extends Phaser.Scene {
         });
     }
 
+    // Spawns the flowers for a wave, mixing in more colors as waves progress
+    private spawnWaveFlowers(wave: number): void {
+        // Calculate flower count for this wave (progressive difficulty)
+        const {
+            baseFlowersPerColor,
+            maxFlowersPerColor,
+            startingColors,
+            maxColors,
+            wavesPerStep,
+        } = this.difficulty;
+        const waveBonus = Math.floor((wave - 1) / wavesPerStep); // +1 flower per color every few waves
+        const flowersPerColor = Math.min(
+            baseFlowersPerColor + waveBonus,
+            maxFlowersPerColor
+        );
+
+        // Add one color at the same pace, up to the profile's cap
+        const colorCount = Math.min(startingColors + waveBonus, maxColors);
+        const colors = this.flowerManager.pickWaveColors(colorCount);
+
+        this.flowerManager.spawnWave(flowersPerColor, colors);
+        this.flowerManager.assignInitialPollen();
+    }
+
     // Shows a message when a wave is completed
     private showWaveCompleteMessage(waveNumber: number): void {
         const message = this.add
@@ -594,6 +995,50 @@ export class Game extends Phaser.Scene {
         });
     }
 
+    // What GameOver shows and saves for the run that just ended
+    private getRunSummary() {
+        return {
+            score: this.score,
+            completedFlowers: this.completedFlowers,
+            totalTime:
+                this.difficulty.gameDuration -
+                this.gameTimer.getRemainingTime(),
+            currentWave: this.currentWave,
+            difficulty: this.difficultyLevel,
+            mode: this.mode,
+            bonusAnswered: this.bonusAnswered,
+            bonusCorrect: this.bonusCorrect,
+            seed: this.seed,
+            dailyDate: this.dailyDate,
+            replay: this.getReplay(),
+        };
+    }
+
+    // The run as a replay to save, or undefined when watching one
+    private getReplay(): Omit<ReplayRecord, 'id' | 'profileId'> | undefined {
+        if (!this.recorder) return undefined;
+        return {
+            date: new Date(),
+            seed: this.seed,
+            mode: this.mode,
+            difficulty: this.difficultyLevel,
+            knowledgeNectar: this.factManager.isEnabled(),
+            score: this.score,
+            wave: this.currentWave,
+            questions: this.bonusChallenge.getAskedQuestions(),
+            ...this.recorder.getRecording(),
+        };
+    }
+
+    // Ends the run: on to GameOver, or back to the list after a replay
+    private finishRun(): void {
+        if (this.replay) {
+            this.scene.start('Replays');
+        } else {
+            this.scene.start('GameOver', this.getRunSummary());
+        }
+    }
+
     // Common logic for ending the game when all flowers are done
     private endGameDueToCompletion(): void {
         if (!this.scene.isActive()) return;
@@ -604,13 +1049,7 @@ export class Game extends Phaser.Scene {
         // Use a longer delay to allow the HUD message to be read (matching the HUD display time)
         this.time.delayedCall(2000, () => {
             if (this.scene.isActive()) {
-                this.scene.start('GameOver', {
-                    score: this.score,
-                    completedFlowers: this.completedFlowers,
-                    totalTime:
-                        this.gameDuration - this.gameTimer.getRemainingTime(),
-                    currentWave: this.currentWave,
-                });
+                this.finishRun();
             }
         });
     }
@@ -624,10 +1063,14 @@ export class Game extends Phaser.Scene {
 
         // Clean up EventBus listeners using utility
         unregisterEventHandlers(this.eventHandlers);
+        // A pending resume listener survives if the run was quit while paused
+        this.events.off(Phaser.Scenes.Events.RESUME, this.handleResume, this);
+        this.input.keyboard?.off('keydown-ESC', this.openPauseMenu, this);
 
         // Clean up managers and entities THAT ARE NOT AUTOMATICALLY DESTROYED BY PHASER
         // Phaser handles destroying scene-added game objects (like the Bee sprite)
         // and scene systems (like tweens, time events added directly to the scene)
+        this.controls?.destroy(); // Drops its key bindings and listeners
         this.gameTimer?.destroy(); // Important: Stop the timer's internal Phaser timer event
         this.bonusChallenge?.destroy(); // Clean up the bonus challenge manager
 
@@ -639,7 +1082,8 @@ export class Game extends Phaser.Scene {
         // Phaser's scene shutdown process should handle destroying it.
 
         // Clear local references
-        this.cursors = undefined;
+        this.controls = undefined;
+        this.ghost = undefined;
         this.pollenIndicator = null;
         this.pollenIndicatorTween = null;
         // (bee, flowerManager etc will be garbage collected if scene is destroyed)
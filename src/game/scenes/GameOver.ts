@@ -1,18 +1,55 @@
 // src/game/scenes/GameOver.ts
 import { Scene } from 'phaser';
 import gsap from 'gsap'; // Import GSAP
-import storageService, { GameScore } from '@/services/StorageService';
+import storageService, {
+    GameScore,
+    ReplayRecord,
+} from '@/services/StorageService';
 import EventBus from '@/game/EventBus';
+import { QuizService } from '../data/quizData';
+import { DIFFICULTY_LEVELS } from '../data/difficulty';
+import {
+    DEFAULT_GAME_MODE,
+    GAME_MODES,
+    GAME_MODE_LABELS,
+    GameMode,
+} from '../data/gameModes';
+import { getActiveProfile } from '../data/profiles';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
 import { COMMON_EVENTS } from '../utils/eventUtils'; // Import event constants
 
+// Leaderboard sort orders, applied to the best runs by score
+const SORT_ORDERS = {
+    Score: (a: GameScore, b: GameScore) => b.score - a.score,
+    Wave: (a: GameScore, b: GameScore) => (b.wave ?? 0) - (a.wave ?? 0),
+    Bonus: (a: GameScore, b: GameScore) =>
+        (b.bonusCorrect ?? 0) - (a.bonusCorrect ?? 0),
+    Newest: (a: GameScore, b: GameScore) => b.date.getTime() - a.date.getTime(),
+};
+type SortOrder = keyof typeof SORT_ORDERS;
+
+// How many of the best runs are sorted for the leaderboard
+const LEADERBOARD_RUNS = 50;
+
 export class GameOver extends Scene {
     private score: number = 0;
     private completedFlowers: number = 0;
     private totalTime: number = 60;
     private currentWave: number = 1;
+    private difficulty?: string;
+    private mode: GameMode = DEFAULT_GAME_MODE;
+    private bonusAnswered: number = 0;
+    private bonusCorrect: number = 0;
+    private seed?: number; // Seed the run was played with
+    private dailyDate?: string; // Day of a scored Daily Garden attempt
+    private replay?: Omit<ReplayRecord, 'id' | 'profileId'>; // The run's input
     private highScores: GameScore[] = [];
     private isLoadingScores: boolean = false;
     private showHighScoresOnly: boolean = false;
+    // Leaderboard view ('All' shows every difficulty or mode)
+    private difficultyFilter: string = 'All';
+    private modeFilter: string = 'All';
+    private sortOrder: SortOrder = 'Score';
 
     constructor() {
         super('GameOver');
@@ -23,38 +60,83 @@ export class GameOver extends Scene {
         completedFlowers?: number;
         totalTime?: number;
         currentWave?: number;
+        difficulty?: string;
+        mode?: GameMode;
+        bonusAnswered?: number;
+        bonusCorrect?: number;
+        seed?: number;
+        dailyDate?: string;
+        replay?: Omit<ReplayRecord, 'id' | 'profileId'>;
         showHighScoresOnly?: boolean;
     }) {
         this.score = data.score ?? 0;
         this.completedFlowers = data.completedFlowers ?? 0;
         this.totalTime = data.totalTime ?? 60;
         this.currentWave = data.currentWave ?? 1;
+        this.difficulty = data.difficulty;
+        this.mode = data.mode ?? DEFAULT_GAME_MODE;
+        this.bonusAnswered = data.bonusAnswered ?? 0;
+        this.bonusCorrect = data.bonusCorrect ?? 0;
+        this.seed = data.seed;
+        this.dailyDate = data.dailyDate;
+        this.replay = data.replay;
+        this.difficultyFilter = 'All';
+        this.modeFilter = 'All';
+        this.sortOrder = 'Score';
 
         // Check if we're just viewing high scores from the main menu
         this.showHighScoresOnly = data.showHighScoresOnly ?? false;
 
         // Only save the score and increment games played if it's from an actual game (not just viewing high scores)
-        if (!this.showHighScoresOnly && this.score > 0) {
-            this.saveGameScore().catch(error => {
-                // Log error, although saveGameScore already does
-                console.error('Error saving score from init context:', error);
-            });
+        if (!this.showHighScoresOnly) {
+            QuizService.getInstance().recordGamePlayed();
+            this.saveReplay();
         }
-
-        // Always load high scores
-        this.loadHighScores().catch(error => {
-            console.error('Error initiating high scores load:', error);
-            // High scores display might show loading or error state
-        });
+        const scoreSaved = !this.showHighScoresOnly
+            ? this.saveGameScore()
+            : Promise.resolve();
+
+        // Always load high scores (after saving, so this run can show up)
+        scoreSaved
+            .then(() => this.loadHighScores())
+            .catch(error => {
+                console.error('Error initiating high scores load:', error);
+                // High scores display might show loading or error state
+            });
     }
 
     async saveGameScore() {
+        // Daily Garden practice runs (after the day's attempt) don't count
+        const isScored = this.mode !== 'daily' || this.dailyDate !== undefined;
+        if (!isScored) return;
         try {
+            const profile = await getActiveProfile();
+            if (this.dailyDate) {
+                await storageService.saveDailyResult({
+                    date: this.dailyDate,
+                    profileName: profile?.name,
+                    score: this.score,
+                    wave: this.currentWave,
+                    completedFlowers: this.completedFlowers,
+                    bonusAnswered: this.bonusAnswered,
+                    bonusCorrect: this.bonusCorrect,
+                    finished: true,
+                    playedAt: new Date(),
+                });
+            }
+            if (this.score === 0) return;
             await storageService.saveScore({
                 score: this.score,
                 date: new Date(),
                 completedFlowers: this.completedFlowers,
                 totalTime: this.totalTime,
+                wave: this.currentWave,
+                difficulty: this.difficulty,
+                mode: this.mode,
+                bonusAnswered: this.bonusAnswered,
+                bonusCorrect: this.bonusCorrect,
+                seed: this.seed,
+                profileName: profile?.name,
             });
             console.log('Score saved successfully');
         } catch (error) {
@@ -62,10 +144,38 @@ export class GameOver extends Scene {
         }
     }
 
+    // Keeps the run for the replay list and the ghost bee (runs that
+    // scored nothing aren't worth watching)
+    private saveReplay(): void {
+        if (!this.replay || this.replay.score === 0) return;
+        storageService.saveReplay(this.replay).catch(error => {
+            console.error('Failed to save replay:', error);
+        });
+    }
+
+    // All-time bonus question results for the current player
+    getQuizSummary(): string {
+        const { correctAnswers, totalQuestions } =
+            QuizService.getInstance().getQuizStats();
+        if (totalQuestions === 0) return 'Bonus questions: none answered yet';
+        const accuracy = Math.round((correctAnswers / totalQuestions) * 100);
+        return `Bonus questions: ${correctAnswers}/${totalQuestions} correct (${accuracy}%)`;
+    }
+
     async loadHighScores() {
         this.isLoadingScores = true;
         try {
-            this.highScores = await storageService.getHighScores(5);
+            this.highScores = await storageService.getHighScores(
+                LEADERBOARD_RUNS,
+                {
+                    difficulty:
+                        this.difficultyFilter === 'All'
+                            ? undefined
+                            : this.difficultyFilter,
+                    mode:
+                        this.modeFilter === 'All' ? undefined : this.modeFilter,
+                }
+            );
             this.isLoadingScores = false;
 
             // If high scores loaded after scene is already created, update the display
@@ -96,9 +206,7 @@ export class GameOver extends Scene {
             .text(
                 centerX,
                 this.showHighScoresOnly ? centerY - 160 : centerY - 260,
-                this.showHighScoresOnly
-                    ? 'High Scores'
-                    : 'Pollination Complete!',
+                this.getTitle(),
                 {
                     fontFamily: 'var(--font-luckiest-guy-family)',
                     fontSize: this.showHighScoresOnly ? '60px' : '54px',
@@ -126,7 +234,7 @@ export class GameOver extends Scene {
         if (!this.showHighScoresOnly) {
             const statsPanelY = centerY - 160;
             statsPanel = this.add
-                .rectangle(centerX, statsPanelY, 400, 80, 0x000000, 0.7)
+                .rectangle(centerX, statsPanelY, 400, 110, 0x000000, 0.7)
                 .setOrigin(0.5)
                 .setAlpha(0);
 
@@ -134,7 +242,7 @@ export class GameOver extends Scene {
                 .text(
                     centerX,
                     statsPanelY,
-                    `Score: ${this.score}\nFlowers: ${this.completedFlowers} | Wave: ${this.currentWave} | Time: ${Math.floor(this.totalTime)}s`,
+                    `Score: ${this.score} | Seed: ${this.seed ?? '-'}\nFlowers: ${this.completedFlowers} | Wave: ${this.currentWave} | Time: ${Math.floor(this.totalTime)}s\n${this.getQuizSummary()}`,
                     {
                         fontFamily: 'var(--font-poppins-family)',
                         fontSize: '18px',
@@ -149,14 +257,15 @@ export class GameOver extends Scene {
 
         // High Scores Panel - Adjust position based on context
         const highScoresPanelY = this.showHighScoresOnly
-            ? centerY + 20
+            ? centerY + 30
             : centerY + 40; // Moved down to make room for stats
-        const highScoresPanelHeight = this.showHighScoresOnly ? 260 : 220; // Adjusted height slightly
+        const highScoresPanelHeight = this.showHighScoresOnly ? 300 : 220; // Room for the leaderboard controls
+        const highScoresPanelTop = highScoresPanelY - highScoresPanelHeight / 2;
         const highScoresPanel = this.add
             .rectangle(
                 centerX,
                 highScoresPanelY,
-                500,
+                620,
                 highScoresPanelHeight, // Use adjusted height
                 0x000000,
                 0.7
@@ -165,8 +274,7 @@ export class GameOver extends Scene {
             .setAlpha(0);
 
         // High Scores Title - Only show if not viewing high scores only
-        const highScoresTitleY =
-            highScoresPanelY - highScoresPanelHeight / 2 + 25; // Position relative to panel top
+        const highScoresTitleY = highScoresPanelTop + 25; // Position relative to panel top
         const highScoresTitle = !this.showHighScoresOnly
             ? this.add
                   .text(centerX, highScoresTitleY, 'High Scores', {
@@ -179,51 +287,109 @@ export class GameOver extends Scene {
                   .setAlpha(0)
             : null;
 
-        // High Scores List - Adjust position relative to title or panel center
-        const highScoresListY = this.showHighScoresOnly
-            ? highScoresPanelY
-            : highScoresTitleY + 70; // Position below title or centered
+        // Leaderboard controls: filter by difficulty and mode, pick the sort
+        const controlsY = this.showHighScoresOnly
+            ? highScoresPanelTop + 28
+            : highScoresTitleY + 37;
+        const difficultyOptions = ['All', ...DIFFICULTY_LEVELS];
+        const modeOptions = ['All', ...GAME_MODES];
+        const sortOptions = Object.keys(SORT_ORDERS) as SortOrder[];
+        const leaderboardControls = [
+            this.createLeaderboardControl(
+                centerX - 195,
+                controlsY,
+                () => `Difficulty: ${this.difficultyFilter}`,
+                () => {
+                    this.difficultyFilter = cycle(
+                        difficultyOptions,
+                        this.difficultyFilter
+                    );
+                    this.reloadHighScores();
+                }
+            ),
+            this.createLeaderboardControl(
+                centerX,
+                controlsY,
+                () =>
+                    `Mode: ${this.modeFilter === 'All' ? 'All' : GAME_MODE_LABELS[this.modeFilter as GameMode]}`,
+                () => {
+                    this.modeFilter = cycle(modeOptions, this.modeFilter);
+                    this.reloadHighScores();
+                }
+            ),
+            this.createLeaderboardControl(
+                centerX + 195,
+                controlsY,
+                () => `Sort: ${this.sortOrder}`,
+                () => {
+                    this.sortOrder = cycle(sortOptions, this.sortOrder);
+                    this.updateHighScoresDisplay();
+                }
+            ),
+        ];
+
+        // High Scores List - Rows run down from just below the controls
         const highScoresList = this.add
             .text(
                 centerX,
-                highScoresListY,
+                controlsY + 28,
                 this.isLoadingScores ? 'Loading scores...' : '',
                 {
                     fontFamily: 'var(--font-poppins-family)',
-                    fontSize: this.showHighScoresOnly ? '24px' : '20px',
+                    fontSize: this.showHighScoresOnly ? '18px' : '16px',
                     color: '#ffffff',
                     align: 'center',
-                    lineSpacing: 12,
+                    lineSpacing: this.showHighScoresOnly ? 10 : 8,
                 }
             )
-            .setOrigin(0.5)
+            .setOrigin(0.5, 0)
             .setAlpha(0);
 
         // Adjust button position based on context
         const playAgainButtonY =
             highScoresPanelY + highScoresPanelHeight / 2 + 45; // Position below panel
         const playAgainButton = this.add
-            .text(centerX, playAgainButtonY, 'Home', {
-                fontFamily: 'var(--font-poppins-family)',
-                fontSize: '30px',
-                font: 'bold',
-                color: '#ffffff',
-                backgroundColor: this.showHighScoresOnly
-                    ? '#4682B4'
-                    : '#2E8B57', // Different color for back button
-                padding: { x: 25, y: 12 },
-                shadow: {
-                    offsetX: 2,
-                    offsetY: 2,
-                    color: '#111',
-                    blur: 2,
-                    fill: true,
-                },
-            })
+            .text(
+                this.canReplay() ? centerX - 110 : centerX,
+                playAgainButtonY,
+                'Home',
+                {
+                    fontFamily: 'var(--font-poppins-family)',
+                    fontSize: '30px',
+                    font: 'bold',
+                    color: '#ffffff',
+                    backgroundColor: this.showHighScoresOnly
+                        ? '#4682B4'
+                        : '#2E8B57', // Different color for back button
+                    padding: { x: 25, y: 12 },
+                    shadow: {
+                        offsetX: 2,
+                        offsetY: 2,
+                        color: '#111',
+                        blur: 2,
+                        fill: true,
+                    },
+                }
+            )
             .setOrigin(0.5)
             .setAlpha(0)
             .setScale(0.8); // Start hidden/smaller
 
+        // Plays the same garden again (same seed)
+        const replayButton = this.canReplay()
+            ? createStyledText(
+                  this,
+                  centerX + 110,
+                  playAgainButtonY,
+                  'Replay Seed',
+                  'body'
+              )
+                  .setFontSize('26px')
+                  .setBackgroundColor('#8B5A2B')
+                  .setPadding(20, 10)
+                  .setAlpha(0)
+            : null;
+
         // GSAP Timeline for staggered entrance
         const tl = gsap.timeline({ delay: 0.3 });
 
@@ -262,7 +428,7 @@ export class GameOver extends Scene {
         }
 
         tl.to(
-            highScoresList,
+            [...leaderboardControls, highScoresList],
             { alpha: 1, duration: 0.5, ease: 'power2.out' },
             '-=0.3'
         ).to(
@@ -270,12 +436,38 @@ export class GameOver extends Scene {
             { alpha: 1, scale: 1, duration: 0.5, ease: 'back.out(1.7)' },
             '-=0.2'
         );
+        if (replayButton) {
+            tl.to(replayButton, { alpha: 1, duration: 0.4 }, '-=0.3');
+        }
 
         // Update high scores display if they're already loaded
         if (!this.isLoadingScores) {
             this.updateHighScoresDisplay(highScoresList);
         }
 
+        // Transition out, then go on to the next scene
+        const leave = (onComplete: () => void) => {
+            // Build an array of elements to animate out
+            const elementsToAnimate = [
+                title,
+                highScoresPanel,
+                ...leaderboardControls,
+                highScoresList,
+                playAgainButton,
+            ];
+            if (highScoresTitle) elementsToAnimate.push(highScoresTitle);
+            if (replayButton) elementsToAnimate.push(replayButton);
+
+            gsap.to(elementsToAnimate, {
+                alpha: 0,
+                y: '-=30',
+                duration: 0.3,
+                stagger: 0.1,
+                ease: 'power1.in',
+                onComplete,
+            });
+        };
+
         // Button Interactions (Phaser Tweens remain suitable)
         playAgainButton.setInteractive({ useHandCursor: true });
         const originalScale = 1;
@@ -313,27 +505,17 @@ export class GameOver extends Scene {
                 yoyo: true,
             });
 
-            // Build an array of elements to animate out
-            const elementsToAnimate = [
-                title,
-                highScoresPanel,
-                highScoresList,
-                playAgainButton,
-            ];
-            if (highScoresTitle) elementsToAnimate.push(highScoresTitle);
+            leave(() => this.scene.start('MainMenu'));
+        });
 
-            // Transition Out
-            gsap.to(elementsToAnimate, {
-                alpha: 0,
-                y: '-=30',
-                duration: 0.3,
-                stagger: 0.1,
-                ease: 'power1.in',
-                onComplete: () => {
-                    this.scene.start('MainMenu');
-                },
+        if (replayButton) {
+            addButtonInteractions(replayButton, this, {
+                onHover: () => replayButton.setBackgroundColor('#A0522D'),
+                onOut: () => replayButton.setBackgroundColor('#8B5A2B'),
+                onClick: () =>
+                    leave(() => this.scene.start('Game', { seed: this.seed })),
             });
-        });
+        }
 
         // Store reference to highScoresList for later updates
         this.registry.set('highScoresList', highScoresList);
@@ -342,6 +524,55 @@ export class GameOver extends Scene {
         this.events.emit('scene-ready', this);
     }
 
+    private getTitle(): string {
+        if (this.showHighScoresOnly) return 'High Scores';
+        if (this.mode === 'daily') {
+            return this.dailyDate ? 'Daily Garden Done!' : 'Practice Complete!';
+        }
+        return 'Pollination Complete!';
+    }
+
+    // Only a finished run has a garden to replay (the Daily Garden is
+    // replayed from its own screen)
+    private canReplay(): boolean {
+        return (
+            !this.showHighScoresOnly &&
+            this.seed !== undefined &&
+            this.mode !== 'daily'
+        );
+    }
+
+    // A small button that shows its current setting and cycles it on click
+    private createLeaderboardControl(
+        x: number,
+        y: number,
+        getLabel: () => string,
+        onChange: () => void
+    ): Phaser.GameObjects.Text {
+        const control = createStyledText(this, x, y, getLabel(), 'body')
+            .setFontSize('16px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(10, 4)
+            .setAlpha(0);
+        addButtonInteractions(control, this, {
+            onHover: () => control.setBackgroundColor('#3CB371'),
+            onOut: () => control.setBackgroundColor('#2E8B57'),
+            onClick: () => {
+                onChange();
+                control.setText(getLabel());
+            },
+        });
+        return control;
+    }
+
+    // Fetches the leaderboard again after a filter changes
+    private reloadHighScores(): void {
+        this.registry.get('highScoresList')?.setText('Loading scores...');
+        this.loadHighScores().catch(error => {
+            console.error('Error reloading high scores:', error);
+        });
+    }
+
     updateHighScoresDisplay(textObject?: Phaser.GameObjects.Text) {
         // Use provided text object or get from registry
         const highScoresList =
@@ -350,18 +581,38 @@ export class GameOver extends Scene {
 
         if (this.highScores.length === 0) {
             highScoresList.setText(
-                'No scores yet.\nBe the first to set a high score!'
+                this.difficultyFilter === 'All' && this.modeFilter === 'All'
+                    ? 'No scores yet.\nBe the first to set a high score!'
+                    : 'No scores for this difficulty and mode yet.'
             );
             return;
         }
 
         // Format the high scores
-        let scoreText = '';
-        this.highScores.forEach((score, index) => {
-            const date = new Date(score.date).toLocaleDateString();
-            scoreText += `${index + 1}. ${score.score} pts - ${date}\n`;
-        });
+        const rowCount = this.showHighScoresOnly ? 7 : 4;
+        const rows = [...this.highScores]
+            .sort(SORT_ORDERS[this.sortOrder])
+            .slice(0, rowCount)
+            .map((score, index) => {
+                const details = [
+                    `${index + 1}. ${score.score} pts`,
+                    score.wave !== undefined && `Wave ${score.wave}`,
+                    score.difficulty,
+                    score.mode !== undefined &&
+                        score.mode !== DEFAULT_GAME_MODE &&
+                        GAME_MODE_LABELS[score.mode as GameMode],
+                    score.bonusAnswered &&
+                        `Quiz ${score.bonusCorrect ?? 0}/${score.bonusAnswered}`,
+                    new Date(score.date).toLocaleDateString(),
+                ];
+                return details.filter(Boolean).join(' · ');
+            });
 
-        highScoresList.setText(scoreText);
+        highScoresList.setText(rows.join('\n'));
     }
 }
+
+// The option after `current`, wrapping back to the first
+function cycle<T>(options: readonly T[], current: T): T {
+    return options[(options.indexOf(current) + 1) % options.length];
+}
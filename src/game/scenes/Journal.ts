@@ -0,0 +1,323 @@
+// src/game/scenes/Journal.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import storageService from '@/services/StorageService';
+import FLOWERS, {
+    FLOWER_COLORS,
+    FlowerType,
+    applyFlowerCollection,
+    getSpeciesTextureKey,
+} from '../data/flowerTypes';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// Card grid layout (2 x 2 cards per page)
+const CARDS_PER_PAGE = 4;
+const CARD_WIDTH = 370;
+const CARD_HEIGHT = 205;
+const CARD_POSITIONS = [
+    { x: 210, y: 230 },
+    { x: 590, y: 230 },
+    { x: 210, y: 447 },
+    { x: 590, y: 447 },
+];
+
+export class Journal extends Scene {
+    private currentPage: number = 0;
+    private isLoadingCollection: boolean = false;
+    private pageContainer?: Phaser.GameObjects.Container;
+    private progressText?: Phaser.GameObjects.Text;
+    private pageText?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('Journal');
+    }
+
+    init() {
+        this.currentPage = 0;
+        this.pageContainer = undefined; // Drop references from a previous visit
+        // Refresh discoveries from IndexedDB every time the journal opens
+        this.loadCollection().catch(error => {
+            console.error('Error initiating collection load:', error);
+        });
+    }
+
+    async loadCollection() {
+        this.isLoadingCollection = true;
+        try {
+            const entries = await storageService.getFlowerCollection();
+            applyFlowerCollection(entries);
+            this.isLoadingCollection = false;
+
+            // Redraw if the scene was created before the data arrived
+            if (this.pageContainer) {
+                this.renderPage();
+            }
+        } catch (error) {
+            console.error('Failed to load flower collection:', error);
+            this.isLoadingCollection = false;
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'Journal');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 50, 'Garden Journal', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        this.progressText = createStyledText(this, centerX, 98, '', 'body')
+            .setFontSize('18px')
+            .setAlpha(0);
+
+        // --- Navigation ---
+        const backButton = createStyledText(this, 70, 50, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        const prevButton = createStyledText(
+            this,
+            centerX - 150,
+            575,
+            '◀ Prev',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 4)
+            .setAlpha(0);
+
+        const nextButton = createStyledText(
+            this,
+            centerX + 150,
+            575,
+            'Next ▶',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 4)
+            .setAlpha(0);
+
+        this.pageText = createStyledText(this, centerX, 575, '', 'body')
+            .setFontSize('18px')
+            .setAlpha(0);
+
+        this.pageContainer = this.add.container(0, 0).setAlpha(0);
+        this.renderPage();
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' })
+            .to(
+                [this.progressText, backButton],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            )
+            .to(this.pageContainer, { alpha: 1, duration: 0.5 }, '-=0.2')
+            .to(
+                [prevButton, nextButton, this.pageText],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                createTransitionOut(
+                    this,
+                    [
+                        title,
+                        this.progressText,
+                        backButton,
+                        this.pageContainer,
+                        prevButton,
+                        nextButton,
+                        this.pageText,
+                    ],
+                    () => {
+                        this.scene.start('MainMenu');
+                    }
+                );
+            },
+        });
+
+        addButtonInteractions(prevButton, this, {
+            onClick: () => this.changePage(-1),
+        });
+        addButtonInteractions(nextButton, this, {
+            onClick: () => this.changePage(1),
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private getPageCount(): number {
+        return Math.max(1, Math.ceil(FLOWERS.length / CARDS_PER_PAGE));
+    }
+
+    private changePage(direction: number): void {
+        const pageCount = this.getPageCount();
+        this.currentPage =
+            (this.currentPage + direction + pageCount) % pageCount;
+        this.renderPage();
+    }
+
+    // Rebuilds the cards for the current page and updates the counters
+    private renderPage(): void {
+        if (!this.pageContainer) return;
+        this.pageContainer.removeAll(true);
+
+        const discoveredCount = FLOWERS.filter(f => f.discovered).length;
+        this.progressText?.setText(
+            this.isLoadingCollection
+                ? 'Loading your discoveries...'
+                : `Discovered ${discoveredCount} of ${FLOWERS.length} species`
+        );
+        this.pageText?.setText(
+            `Page ${this.currentPage + 1} / ${this.getPageCount()}`
+        );
+
+        const start = this.currentPage * CARDS_PER_PAGE;
+        FLOWERS.slice(start, start + CARDS_PER_PAGE).forEach((flower, i) => {
+            const { x, y } = CARD_POSITIONS[i];
+            this.pageContainer!.add(this.createCard(flower, x, y));
+        });
+    }
+
+    // Builds a single species card centered at (x, y)
+    private createCard(
+        flower: FlowerType,
+        x: number,
+        y: number
+    ): Phaser.GameObjects.Container {
+        const card = this.add.container(x, y);
+        const left = -CARD_WIDTH / 2;
+        const top = -CARD_HEIGHT / 2;
+
+        const panel = this.add.graphics();
+        panel.fillStyle(0x000000, flower.discovered ? 0.72 : 0.55);
+        panel.fillRoundedRect(left, top, CARD_WIDTH, CARD_HEIGHT, 14);
+        panel.lineStyle(
+            2,
+            flower.discovered ? FLOWER_COLORS[flower.colorType].hex : 0x666666,
+            0.8
+        );
+        panel.strokeRoundedRect(left, top, CARD_WIDTH, CARD_HEIGHT, 14);
+        card.add(panel);
+
+        const image = this.add
+            .image(left + 48, top + 50, getSpeciesTextureKey(flower.id))
+            .setScale(1.5);
+        card.add(image);
+
+        if (!flower.discovered) {
+            // Locked silhouette for species the player hasn't pollinated yet
+            image.setTintFill(0x1b1b1b).setAlpha(0.8);
+            card.add(
+                this.add
+                    .text(left + 48, top + 50, '🔒', { fontSize: '22px' })
+                    .setOrigin(0.5)
+            );
+            card.add(
+                this.add.text(left + 100, top + 22, '???', {
+                    fontFamily: 'var(--font-poppins-family)',
+                    fontSize: '22px',
+                    fontStyle: 'bold',
+                    color: '#aaaaaa',
+                })
+            );
+            card.add(
+                this.add.text(
+                    left + 100,
+                    top + 58,
+                    `Pollinate a ${FLOWER_COLORS[flower.colorType].name.toLowerCase()} flower\nto discover this species!`,
+                    {
+                        fontFamily: 'var(--font-poppins-family)',
+                        fontSize: '14px',
+                        color: '#cccccc',
+                        lineSpacing: 4,
+                    }
+                )
+            );
+            return card;
+        }
+
+        const textStyle = {
+            fontFamily: 'var(--font-poppins-family)',
+            fontSize: '13px',
+            color: '#ffffff',
+            wordWrap: { width: CARD_WIDTH - 110 },
+        };
+
+        card.add(
+            this.add.text(left + 100, top + 10, flower.name, {
+                ...textStyle,
+                fontSize: '19px',
+                fontStyle: 'bold',
+                color: '#ffdd00',
+            })
+        );
+        card.add(
+            this.add.text(left + 100, top + 36, flower.scientificName, {
+                ...textStyle,
+                fontSize: '14px',
+                fontStyle: 'italic',
+            })
+        );
+        card.add(
+            this.add.text(
+                left + 100,
+                top + 56,
+                `Family: ${flower.family}  ·  Collected ×${flower.collectionCount}`,
+                textStyle
+            )
+        );
+        card.add(
+            this.add.text(
+                left + 100,
+                top + 74,
+                `Found in: ${flower.regions.join(', ')}`,
+                textStyle
+            )
+        );
+        card.add(
+            this.add.text(
+                left + 14,
+                top + 104,
+                flower.facts.map(fact => `• ${fact}`).join('\n'),
+                {
+                    ...textStyle,
+                    fontSize: '12px',
+                    lineSpacing: 2,
+                    wordWrap: { width: CARD_WIDTH - 28 },
+                }
+            )
+        );
+
+        return card;
+    }
+}
@@ -2,7 +2,8 @@
 import { Scene } from 'phaser';
 import gsap from 'gsap'; // Import GSAP
 import EventBus from '../EventBus'; // Import EventBus if needed for settings icon
-import storageService from '@/services/StorageService'; // Import storage service
+import storageService, { PlayerProfile } from '@/services/StorageService'; // Import storage service
+import { getActiveProfile } from '../data/profiles';
 import { createStyledText, addButtonInteractions } from '../utils/ui'; // Import UI utilities
 import { createTransitionOut } from '../utils/animation'; // Import animation utilities
 import { COMMON_EVENTS } from '../utils/eventUtils'; // Import event constants
@@ -10,6 +11,11 @@ import { COMMON_EVENTS } from '../utils/eventUtils'; // Import event constants
 export class MainMenu extends Scene {
     private hasHighScores: boolean = false;
     private highScoresButton?: Phaser.GameObjects.Text;
+    private activeProfile: PlayerProfile | null = null;
+    private profileAvatar?: Phaser.GameObjects.Arc;
+    private profileButton?: Phaser.GameObjects.Text;
+    private isStorageTemporary: boolean = false;
+    private storageNotice?: Phaser.GameObjects.Text;
 
     constructor() {
         super('MainMenu');
@@ -18,6 +24,47 @@ export class MainMenu extends Scene {
     init() {
         // Check if there are high scores when the scene initializes
         this.checkForHighScores();
+
+        // Drop references from a previous visit before the profile loads
+        this.profileAvatar = undefined;
+        this.profileButton = undefined;
+        this.loadActiveProfile();
+
+        this.storageNotice = undefined;
+        this.checkStorage();
+    }
+
+    // Warns when this browser can't keep progress between visits
+    async checkStorage() {
+        try {
+            const { isPersistent } = await storageService.getStorageStatus();
+            this.isStorageTemporary = !isPersistent;
+            this.updateStorageNotice();
+        } catch (error) {
+            console.error('Failed to check storage:', error);
+        }
+    }
+
+    updateStorageNotice() {
+        if (this.isStorageTemporary && this.storageNotice?.alpha === 0) {
+            gsap.to(this.storageNotice, { alpha: 1, duration: 0.4 });
+        }
+    }
+
+    async loadActiveProfile() {
+        try {
+            this.activeProfile = await getActiveProfile();
+            this.updateProfileDisplay();
+        } catch (error) {
+            console.error('Failed to load active profile:', error);
+        }
+    }
+
+    // Shows who's playing once the profile has loaded
+    updateProfileDisplay() {
+        if (!this.activeProfile) return;
+        this.profileAvatar?.setFillStyle(this.activeProfile.color);
+        this.profileButton?.setText(`${this.activeProfile.name}  ·  Switch`);
     }
 
     async checkForHighScores() {
@@ -79,6 +126,25 @@ export class MainMenu extends Scene {
             .setAlpha(0)
             .setInteractive({ useHandCursor: true });
 
+        // --- Player (top left) ---
+        this.profileAvatar = this.add
+            .circle(36, topRightY, 16, 0xffffff)
+            .setStrokeStyle(3, 0xffffff)
+            .setAlpha(0);
+        this.profileButton = createStyledText(
+            this,
+            62,
+            topRightY,
+            'Switch Player',
+            'body'
+        )
+            .setOrigin(0, 0.5)
+            .setFontSize('18px')
+            .setBackgroundColor('#00000088')
+            .setPadding(12, 6)
+            .setAlpha(0);
+        this.updateProfileDisplay();
+
         // --- Animate UI Elements In ---
         const title = this.add
             .text(centerX, centerY - 150, 'Pollination Fun!', {
@@ -109,7 +175,7 @@ export class MainMenu extends Scene {
             .text(
                 centerX,
                 centerY - 45,
-                'Use Arrow Keys (or D-Pad on mobile)\nto move the Bee. Collect pollen from a\nglowing flower & deliver it to another\nof the SAME color!',
+                'Use Arrow Keys or WASD, a gamepad or the\nD-Pad on mobile to move the Bee. Collect\npollen from a glowing flower & deliver it\nto another of the SAME color!',
                 {
                     fontFamily: 'var(--font-poppins-family)',
                     fontSize: '20px',
@@ -124,7 +190,7 @@ export class MainMenu extends Scene {
 
         const startButton = createStyledText(
             this,
-            centerX,
+            centerX - 130,
             centerY + 65,
             'Start Game',
             'subtitle'
@@ -135,6 +201,20 @@ export class MainMenu extends Scene {
         startButton.setAlpha(0); // Start invisible
         startButton.setScale(0.8); // Start smaller
 
+        // Daily Garden - the same seeded garden for everyone each day
+        const dailyButton = createStyledText(
+            this,
+            centerX + 140,
+            centerY + 65,
+            'Daily Garden',
+            'subtitle'
+        );
+        dailyButton.setFontSize('28px');
+        dailyButton.setBackgroundColor('#20B2AA'); // Light sea green
+        dailyButton.setPadding(24, 14);
+        dailyButton.setAlpha(0);
+        dailyButton.setScale(0.8);
+
         // High Scores button - only shown if there are high scores
         this.highScoresButton = createStyledText(
             this,
@@ -149,6 +229,77 @@ export class MainMenu extends Scene {
         this.highScoresButton.setAlpha(0); // Start invisible
         this.highScoresButton.setScale(0.8); // Start smaller
 
+        // Garden Journal, Trophies and Replays buttons - always available
+        const journalButton = createStyledText(
+            this,
+            centerX - 200,
+            centerY + 205,
+            'Garden Journal',
+            'body'
+        );
+        journalButton.setFontSize('24px');
+        journalButton.setBackgroundColor('#8B5A2B'); // Leather brown
+        journalButton.setPadding(22, 10);
+        journalButton.setAlpha(0);
+        journalButton.setScale(0.8);
+
+        const trophiesButton = createStyledText(
+            this,
+            centerX,
+            centerY + 205,
+            'Trophies',
+            'body'
+        );
+        trophiesButton.setFontSize('24px');
+        trophiesButton.setBackgroundColor('#B8860B'); // Dark gold
+        trophiesButton.setPadding(22, 10);
+        trophiesButton.setAlpha(0);
+        trophiesButton.setScale(0.8);
+
+        const replaysButton = createStyledText(
+            this,
+            centerX + 200,
+            centerY + 205,
+            'Replays',
+            'body'
+        );
+        replaysButton.setFontSize('24px');
+        replaysButton.setBackgroundColor('#6A5ACD'); // Slate blue
+        replaysButton.setPadding(22, 10);
+        replaysButton.setAlpha(0);
+        replaysButton.setScale(0.8);
+
+        // Only shown when saving isn't possible (see checkStorage)
+        this.storageNotice = createStyledText(
+            this,
+            centerX,
+            this.cameras.main.height - 24,
+            "Progress won't be saved in this browser (storage is unavailable, e.g. private browsing).",
+            'body'
+        )
+            .setFontSize('15px')
+            .setColor('#ffb347')
+            .setBackgroundColor('#000000aa')
+            .setPadding(12, 6)
+            .setAlpha(0);
+
+        // Everything that fades out when leaving the menu
+        const menuElements = [
+            title,
+            instructionBg,
+            instructions,
+            startButton,
+            dailyButton,
+            this.highScoresButton,
+            journalButton,
+            trophiesButton,
+            replaysButton,
+            settingsIcon,
+            this.profileAvatar,
+            this.profileButton,
+            this.storageNotice,
+        ];
+
         // GSAP Timeline for staggered entrance
         const tl = gsap.timeline({ delay: 0.3 }); // Start after background fade
 
@@ -169,14 +320,25 @@ export class MainMenu extends Scene {
                 '-=0.3'
             ) // Instructions fade in
             .to(
-                startButton,
+                [startButton, dailyButton],
                 { alpha: 1, scale: 1, duration: 0.5, ease: 'back.out(1.7)' },
                 '-=0.2'
-            ) // Button pops in
-            .to(settingsIcon, { alpha: 0.8, duration: 0.4 }, '-=0.3'); // Fade in settings icon
+            ) // Buttons pop in
+            .to(
+                [journalButton, trophiesButton, replaysButton],
+                { alpha: 1, scale: 1, duration: 0.4, ease: 'back.out(1.7)' },
+                '-=0.3'
+            )
+            .to(settingsIcon, { alpha: 0.8, duration: 0.4 }, '-=0.3') // Fade in settings icon
+            .to(
+                [this.profileAvatar, this.profileButton],
+                { alpha: 1, duration: 0.4 },
+                '<'
+            );
 
         // Update high scores button visibility based on stored state
         this.updateHighScoresButtonVisibility();
+        this.updateStorageNotice();
 
         // --- End Entrance Animation ---
 
@@ -210,24 +372,14 @@ export class MainMenu extends Scene {
                 yoyo: true,
             });
             // Transition Out (Fade everything except maybe background)
-            gsap.to(
-                [
-                    title,
-                    instructionBg,
-                    instructions,
-                    startButton,
-                    this.highScoresButton,
-                    settingsIcon,
-                ],
-                {
-                    alpha: 0,
-                    duration: 0.3,
-                    ease: 'power1.in',
-                    onComplete: () => {
-                        this.scene.start('Settings'); // Go to Settings scene
-                    },
-                }
-            );
+            gsap.to(menuElements, {
+                alpha: 0,
+                duration: 0.3,
+                ease: 'power1.in',
+                onComplete: () => {
+                    this.scene.start('Settings'); // Go to Settings scene
+                },
+            });
         });
 
         // Add button interactions using utility
@@ -236,20 +388,19 @@ export class MainMenu extends Scene {
             onOut: () => startButton.setBackgroundColor('#2E8B57'),
             onClick: () => {
                 // Transition Out Animation
-                createTransitionOut(
-                    this,
-                    [
-                        title,
-                        instructionBg,
-                        instructions,
-                        startButton,
-                        this.highScoresButton,
-                        settingsIcon,
-                    ],
-                    () => {
-                        this.scene.start('Game');
-                    }
-                );
+                createTransitionOut(this, menuElements, () => {
+                    this.scene.start('Game');
+                });
+            },
+        });
+
+        addButtonInteractions(dailyButton, this, {
+            onHover: () => dailyButton.setBackgroundColor('#3CC9C0'),
+            onOut: () => dailyButton.setBackgroundColor('#20B2AA'),
+            onClick: () => {
+                createTransitionOut(this, menuElements, () => {
+                    this.scene.start('DailyGarden');
+                });
             },
         });
 
@@ -262,28 +413,59 @@ export class MainMenu extends Scene {
                     this.highScoresButton!.setBackgroundColor('#4682B4'),
                 onClick: () => {
                     // Go directly to the GameOver scene which shows high scores
-                    createTransitionOut(
-                        this,
-                        [
-                            title,
-                            instructionBg,
-                            instructions,
-                            startButton,
-                            this.highScoresButton,
-                            settingsIcon,
-                        ],
-                        () => {
-                            // Pass 0 score to just show high scores without current game score emphasis
-                            this.scene.start('GameOver', {
-                                score: 0,
-                                showHighScoresOnly: true,
-                            });
-                        }
-                    );
+                    createTransitionOut(this, menuElements, () => {
+                        // Pass 0 score to just show high scores without current game score emphasis
+                        this.scene.start('GameOver', {
+                            score: 0,
+                            showHighScoresOnly: true,
+                        });
+                    });
                 },
             });
         }
 
+        // Back to the profile picker
+        addButtonInteractions(this.profileButton, this, {
+            onHover: () => this.profileButton!.setBackgroundColor('#000000cc'),
+            onOut: () => this.profileButton!.setBackgroundColor('#00000088'),
+            onClick: () => {
+                createTransitionOut(this, menuElements, () => {
+                    this.scene.start('Profiles');
+                });
+            },
+        });
+
+        // Garden Journal button interaction
+        addButtonInteractions(journalButton, this, {
+            onHover: () => journalButton.setBackgroundColor('#A0522D'), // Lighter brown
+            onOut: () => journalButton.setBackgroundColor('#8B5A2B'),
+            onClick: () => {
+                createTransitionOut(this, menuElements, () => {
+                    this.scene.start('Journal');
+                });
+            },
+        });
+
+        addButtonInteractions(trophiesButton, this, {
+            onHover: () => trophiesButton.setBackgroundColor('#DAA520'), // Goldenrod
+            onOut: () => trophiesButton.setBackgroundColor('#B8860B'),
+            onClick: () => {
+                createTransitionOut(this, menuElements, () => {
+                    this.scene.start('Trophies');
+                });
+            },
+        });
+
+        addButtonInteractions(replaysButton, this, {
+            onHover: () => replaysButton.setBackgroundColor('#7B68EE'), // Medium slate blue
+            onOut: () => replaysButton.setBackgroundColor('#6A5ACD'),
+            onClick: () => {
+                createTransitionOut(this, menuElements, () => {
+                    this.scene.start('Replays');
+                });
+            },
+        });
+
         // Emit scene readiness for potential future use by PhaserGame bridge
         this.events.emit('scene-ready', this);
     }
@@ -0,0 +1,161 @@
+// src/game/scenes/Pause.ts
+import { Input, Scene } from 'phaser';
+import { createInteractiveButton, createStyledText } from '../utils/ui';
+import { GAMEPAD_START_BUTTON } from '../data/controls';
+import { GameStartData } from './Game';
+
+// Snapshot of the run shown on the overlay
+export interface PauseData {
+    score: number;
+    remainingTime: number;
+    wave: number;
+    restartWith?: GameStartData; // How Restart sets up the new run
+}
+
+/**
+ * Pause overlay launched on top of the paused Game scene.
+ * Game stays paused (physics, tweens and timers frozen) until Resume.
+ */
+export class Pause extends Scene {
+    private pauseData: PauseData = { score: 0, remainingTime: 0, wave: 1 };
+
+    constructor() {
+        super('Pause');
+    }
+
+    init(data: Partial<PauseData>) {
+        this.pauseData = {
+            score: data.score ?? 0,
+            remainingTime: data.remainingTime ?? 0,
+            wave: data.wave ?? 1,
+            restartWith: data.restartWith,
+        };
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Dim the frozen game underneath (also swallows clicks meant for it)
+        this.add
+            .rectangle(
+                centerX,
+                centerY,
+                this.cameras.main.width,
+                this.cameras.main.height,
+                0x000000,
+                0.6
+            )
+            .setInteractive();
+
+        const panel = this.add.graphics();
+        panel.fillStyle(0x000000, 0.7);
+        panel.fillRoundedRect(centerX - 200, centerY - 220, 400, 440, 18);
+
+        this.add
+            .text(centerX, centerY - 170, 'Paused', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '54px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5);
+
+        const { score, remainingTime, wave } = this.pauseData;
+        createStyledText(
+            this,
+            centerX,
+            centerY - 110,
+            `Score: ${score}  ·  Wave ${wave}  ·  ${remainingTime}s left`,
+            'body'
+        );
+
+        // --- Menu Buttons ---
+        const buttons = [
+            {
+                text: 'Resume',
+                color: '#2E8B57',
+                hover: '#3CB371',
+                onClick: () => this.resumeGame(),
+            },
+            {
+                text: 'Restart',
+                color: '#DAA520',
+                hover: '#F0B93A',
+                onClick: () => this.restartGame(),
+            },
+            {
+                text: 'Settings',
+                color: '#4682B4',
+                hover: '#5A9BDC',
+                onClick: () => this.openSettings(),
+            },
+            {
+                text: 'Quit to Main Menu',
+                color: '#B22222',
+                hover: '#CD3333',
+                onClick: () => this.quitToMenu(),
+            },
+        ];
+
+        buttons.forEach(({ text, color, hover, onClick }, i) => {
+            const button = createInteractiveButton(
+                this,
+                {
+                    text,
+                    x: centerX,
+                    y: centerY - 40 + i * 70,
+                    backgroundColor: color,
+                    hoverColor: hover,
+                    fontSize: '24px',
+                    padding: { x: 22, y: 10 },
+                },
+                {
+                    onHover: () => button.setBackgroundColor(hover),
+                    onOut: () => button.setBackgroundColor(color),
+                    onClick,
+                }
+            );
+        });
+
+        // Escape (or Start on a gamepad) closes the menu again
+        this.input.keyboard?.on('keydown-ESC', this.resumeGame, this);
+        this.input.gamepad?.on(
+            Input.Gamepad.Events.BUTTON_DOWN,
+            this.handleGamepadButton,
+            this
+        );
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private handleGamepadButton(
+        _pad: Phaser.Input.Gamepad.Gamepad,
+        button: Phaser.Input.Gamepad.Button
+    ): void {
+        if (button.index === GAMEPAD_START_BUTTON) this.resumeGame();
+    }
+
+    private resumeGame(): void {
+        this.scene.stop();
+        this.scene.resume('Game');
+    }
+
+    private restartGame(): void {
+        // Starting a paused scene shuts it down and runs it fresh
+        this.scene.start('Game', this.pauseData.restartWith);
+    }
+
+    private openSettings(): void {
+        // Keep this overlay asleep underneath; Settings wakes it on Back
+        this.scene.sleep();
+        this.scene.launch('Settings', { returnTo: 'Pause' });
+    }
+
+    private quitToMenu(): void {
+        this.scene.stop('Game');
+        this.scene.start('MainMenu');
+    }
+}
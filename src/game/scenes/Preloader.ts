@@ -2,13 +2,27 @@
 import { Scene } from 'phaser';
 import { BackgroundGenerator } from '@/game/utils/textures/BackgroundGenerator';
 import { BeeGenerator } from '@/game/utils/textures/BeeGenerator';
-import { FlowerGenerator } from '@/game/utils/textures/FlowerGenerator';
+import {
+    FlowerGenerator,
+    COLOR_TEXTURE_SPECIES,
+} from '@/game/utils/textures/FlowerGenerator';
 import { PollenGenerator } from '@/game/utils/textures/PollenGenerator';
 import { GearGenerator } from '@/game/utils/textures/GearGenerator';
+import { DiagramGenerator } from '@/game/utils/textures/DiagramGenerator';
+import { SfxGenerator } from '@/game/utils/audio/SfxGenerator';
+import { MusicGenerator } from '@/game/utils/audio/MusicGenerator';
+import { audioManager } from '@/game/managers/AudioManager';
+import { loadStoredQuestionBanks } from '@/game/data/questionBank/storedBanks';
+import FLOWERS, {
+    FLOWER_COLOR_KEYS,
+    getFlowerTextureKey,
+    getSpeciesTextureKey,
+    validateFlowerRegistry,
+} from '@/game/data/flowerTypes';
 
 // --- Constants ---
 const SCENE_KEY = 'Preloader';
-const MAIN_MENU_SCENE_KEY = 'MainMenu';
+const PROFILES_SCENE_KEY = 'Profiles';
 const LOGO_TEXTURE_KEY = 'logo';
 
 const REGISTRY_KEYS = {
@@ -41,9 +55,13 @@ const GENERATOR_CONSTRUCTORS = [
     FlowerGenerator,
     PollenGenerator,
     GearGenerator,
+    DiagramGenerator,
+    // Procedural audio
+    SfxGenerator,
+    MusicGenerator,
 ];
 
-// Interface for Generators (assuming they have generate and destroy)
+// Interface for Generators (texture and sound; both have generate and destroy)
 interface ITextureGenerator {
     generate(): void;
     destroy(): void;
@@ -86,7 +104,12 @@ export class Preloader extends Scene {
     }
 
     create() {
-        console.log(`${SCENE_KEY}: Starting texture generation...`);
+        // 0. Fail loudly before generating anything if the flower registry is broken
+        this.runValidation(() =>
+            validateFlowerRegistry(Object.values(COLOR_TEXTURE_SPECIES))
+        );
+
+        console.log(`${SCENE_KEY}: Starting asset generation...`);
 
         const generators: ITextureGenerator[] = [];
         const generatorOptions: IGeneratorOptions = {
@@ -117,19 +140,67 @@ export class Preloader extends Scene {
         generators.forEach(generator => {
             generator.destroy();
         });
-        console.log(`${SCENE_KEY}: Texture generation complete.`);
+        console.log(`${SCENE_KEY}: Asset generation complete.`);
+
+        // 4. Every flower texture that gameplay relies on must now exist
+        this.runValidation(() => this.validateFlowerTextures());
+
+        // 5. Hook up audio now that the sounds are cached (music waits for the
+        // first user gesture if the browser has audio locked)
+        audioManager.init(this.game);
+        audioManager.startMusic();
+
+        // 6. Merge teacher-imported question banks into the quiz pool
+        loadStoredQuestionBanks().catch(error => {
+            console.error(
+                `${SCENE_KEY}: Failed to load question banks.`,
+                error
+            );
+        });
 
-        // 4. Schedule cleanup and scene transition
+        // 7. Schedule cleanup and scene transition
         this.time.delayedCall(CLEANUP_DELAY_MS, () => {
             console.log(`${SCENE_KEY}: Cleaning up loader visuals.`);
             this.cleanupLoaderUI();
-            console.log(`${SCENE_KEY}: Starting ${MAIN_MENU_SCENE_KEY} scene.`);
-            this.scene.start(MAIN_MENU_SCENE_KEY);
+            console.log(`${SCENE_KEY}: Starting ${PROFILES_SCENE_KEY} scene.`);
+            this.scene.start(PROFILES_SCENE_KEY);
         });
     }
 
     // --- Private Helper Methods ---
 
+    /**
+     * Runs a startup validation step. On failure the error is shown on the
+     * loader and rethrown so the game never reaches the main menu.
+     */
+    private runValidation(validate: () => void): void {
+        try {
+            validate();
+        } catch (error) {
+            console.error(`${SCENE_KEY}: Startup validation failed.`, error);
+            this.loadingText
+                ?.setText('Failed to load game data')
+                .setColor('#ff6b6b');
+            throw error;
+        }
+    }
+
+    /**
+     * Checks that a texture was generated for every color and species.
+     */
+    private validateFlowerTextures(): void {
+        const expectedKeys = [
+            ...FLOWER_COLOR_KEYS.map(getFlowerTextureKey),
+            ...FLOWERS.map(flower => getSpeciesTextureKey(flower.id)),
+        ];
+        const missing = expectedKeys.filter(key => !this.textures.exists(key));
+        if (missing.length > 0) {
+            throw new Error(
+                `Missing generated flower textures: ${missing.join(', ')}`
+            );
+        }
+    }
+
     /**
      * Sets up the initial values in the Phaser Registry for progress tracking.
      */
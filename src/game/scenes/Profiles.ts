@@ -0,0 +1,517 @@
+// src/game/scenes/Profiles.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import { PlayerProfile } from '@/services/StorageService';
+import {
+    MAX_PROFILES,
+    MAX_PROFILE_NAME_LENGTH,
+    PROFILE_COLORS,
+    createProfile,
+    deleteProfile,
+    loadProfiles,
+    normalizeProfileName,
+    pickProfileColor,
+    renameProfile,
+    selectProfile,
+} from '../data/profiles';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// Profile card grid (3 x 2)
+const GRID_COLUMNS = 3;
+const COLUMN_SPACING = 220;
+const ROW_POSITIONS = [215, 405];
+const AVATAR_RADIUS = 48;
+const BEE_SCALE = 2;
+// Name / delete dialog
+const PANEL_WIDTH = 440;
+const PANEL_HEIGHT = 280;
+const SWATCH_SPACING = 52;
+
+const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Profile picker shown before the main menu, so players sharing a device
+ * each keep their own scores, settings, quiz progress and discoveries
+ */
+export class Profiles extends Scene {
+    private profiles: PlayerProfile[] = [];
+    private isBusy: boolean = false;
+    private gridContainer?: Phaser.GameObjects.Container;
+    private hintText?: Phaser.GameObjects.Text;
+    private title?: Phaser.GameObjects.Text;
+    private dialog?: Phaser.GameObjects.Container;
+    private nameInput?: Phaser.GameObjects.DOMElement;
+
+    constructor() {
+        super('Profiles');
+    }
+
+    init() {
+        this.profiles = [];
+        this.isBusy = false;
+        // Drop references from a previous visit
+        this.gridContainer = undefined;
+        this.dialog = undefined;
+        this.nameInput = undefined;
+
+        this.loadProfileList().catch(error => {
+            console.error('Error initiating profile load:', error);
+        });
+    }
+
+    async loadProfileList() {
+        try {
+            this.profiles = await loadProfiles();
+            this.renderProfiles();
+        } catch (error) {
+            console.error('Failed to load profiles:', error);
+            this.hintText?.setText('Could not load players.');
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'Profiles');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 1, duration: 0.7, ease: 'power1.inOut' });
+
+        this.title = this.add
+            .text(centerX, 60, "Who's Playing?", {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '52px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 9,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0)
+            .setScale(0.5);
+
+        this.hintText = createStyledText(this, centerX, 560, '', 'body')
+            .setFontSize('16px')
+            .setWordWrapWidth(700)
+            .setAlign('center')
+            .setAlpha(0);
+
+        this.gridContainer = this.add.container(0, 0).setAlpha(0);
+        this.renderProfiles();
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.3 });
+        tl.to(this.title, {
+            alpha: 1,
+            scale: 1,
+            duration: 0.6,
+            ease: 'back.out(1.7)',
+        }).to(
+            [this.gridContainer, this.hintText],
+            { alpha: 1, duration: 0.5 },
+            '-=0.3'
+        );
+
+        // Keep the DOM input from outliving the scene
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+            this.closeDialog()
+        );
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    // Rebuilds the profile cards, plus a "New Player" card if there's room
+    private renderProfiles(): void {
+        if (!this.gridContainer) return;
+        this.gridContainer.removeAll(true);
+
+        const centerX = this.cameras.main.width / 2;
+        const slots: (PlayerProfile | null)[] = [...this.profiles];
+        if (slots.length < MAX_PROFILES) slots.push(null);
+
+        slots.forEach((profile, index) => {
+            const column = index % GRID_COLUMNS;
+            const row = Math.floor(index / GRID_COLUMNS);
+            const x = centerX + (column - 1) * COLUMN_SPACING;
+            const y = ROW_POSITIONS[row];
+            this.gridContainer!.add(
+                profile
+                    ? this.createProfileCard(profile, x, y)
+                    : this.createNewProfileCard(x, y)
+            );
+        });
+
+        this.hintText?.setText(
+            this.profiles.length === 0
+                ? 'Add a player to start. Scores and discoveries are saved for each player.'
+                : 'Tap your bee to play!'
+        );
+    }
+
+    private createProfileCard(
+        profile: PlayerProfile,
+        x: number,
+        y: number
+    ): Phaser.GameObjects.GameObject[] {
+        const avatar = this.add
+            .circle(x, y, AVATAR_RADIUS, profile.color)
+            .setStrokeStyle(4, 0xffffff)
+            .setInteractive({ useHandCursor: true });
+        const bee = this.add.image(x, y, 'bee_generated').setScale(BEE_SCALE);
+        const name = createStyledText(
+            this,
+            x,
+            y + AVATAR_RADIUS + 22,
+            profile.name,
+            'body'
+        ).setFontSize('22px');
+
+        const hoverTo = (scale: number) => {
+            this.tweens.add({ targets: avatar, scale, duration: 150 });
+            this.tweens.add({
+                targets: bee,
+                scale: BEE_SCALE * scale,
+                duration: 150,
+            });
+        };
+        avatar.on('pointerover', () => hoverTo(1.08));
+        avatar.on('pointerout', () => hoverTo(1));
+        avatar.on('pointerdown', () => this.playAs(profile));
+
+        const renameButton = this.createSmallButton(
+            x - 42,
+            y + AVATAR_RADIUS + 58,
+            'Rename',
+            '#4682B4',
+            '#5A9BDC',
+            () => this.openNameDialog(profile)
+        );
+        const deleteButton = this.createSmallButton(
+            x + 42,
+            y + AVATAR_RADIUS + 58,
+            'Delete',
+            '#B22222',
+            '#DC3C3C',
+            () => this.openDeleteDialog(profile)
+        );
+
+        return [avatar, bee, name, renameButton, deleteButton];
+    }
+
+    private createNewProfileCard(
+        x: number,
+        y: number
+    ): Phaser.GameObjects.GameObject[] {
+        const circle = this.add
+            .circle(x, y, AVATAR_RADIUS, 0x000000, 0.4)
+            .setStrokeStyle(4, 0xffffff, 0.8)
+            .setInteractive({ useHandCursor: true });
+        const plus = createStyledText(this, x, y - 4, '+', 'title');
+        const label = createStyledText(
+            this,
+            x,
+            y + AVATAR_RADIUS + 22,
+            'New Player',
+            'body'
+        ).setFontSize('22px');
+
+        circle.on('pointerover', () => circle.setFillStyle(0x000000, 0.6));
+        circle.on('pointerout', () => circle.setFillStyle(0x000000, 0.4));
+        circle.on('pointerdown', () => this.openNameDialog());
+
+        return [circle, plus, label];
+    }
+
+    private createSmallButton(
+        x: number,
+        y: number,
+        label: string,
+        color: string,
+        hoverColor: string,
+        onClick: () => void
+    ): Phaser.GameObjects.Text {
+        const button = createStyledText(this, x, y, label, 'body')
+            .setFontSize('14px')
+            .setBackgroundColor(color)
+            .setPadding(8, 3);
+        addButtonInteractions(button, this, {
+            onHover: () => button.setBackgroundColor(hoverColor),
+            onOut: () => button.setBackgroundColor(color),
+            onClick,
+        });
+        return button;
+    }
+
+    private async playAs(profile: PlayerProfile): Promise<void> {
+        if (this.isBusy || this.dialog) return;
+        this.isBusy = true;
+        try {
+            await selectProfile(profile);
+            createTransitionOut(
+                this,
+                [this.title, this.gridContainer, this.hintText],
+                () => {
+                    this.scene.start('MainMenu');
+                }
+            );
+        } catch (error) {
+            console.error('Failed to select profile:', error);
+            this.hintText?.setText(`Could not load ${profile.name}.`);
+            this.isBusy = false;
+        }
+    }
+
+    // --- Dialogs ---
+
+    /**
+     * Dims the scene and opens an empty panel; returns its top edge
+     */
+    private openDialog(heading: string): number {
+        this.closeDialog();
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+        const top = centerY - PANEL_HEIGHT / 2;
+
+        // The shade swallows clicks meant for the cards underneath
+        const shade = this.add
+            .rectangle(
+                centerX,
+                centerY,
+                this.cameras.main.width,
+                this.cameras.main.height,
+                0x000000,
+                0.6
+            )
+            .setInteractive();
+        const panel = this.add.graphics();
+        panel.fillStyle(0x1e3a1e, 0.95);
+        panel.fillRoundedRect(
+            centerX - PANEL_WIDTH / 2,
+            top,
+            PANEL_WIDTH,
+            PANEL_HEIGHT,
+            16
+        );
+        panel.lineStyle(3, 0xffd700);
+        panel.strokeRoundedRect(
+            centerX - PANEL_WIDTH / 2,
+            top,
+            PANEL_WIDTH,
+            PANEL_HEIGHT,
+            16
+        );
+        const headingText = createStyledText(
+            this,
+            centerX,
+            top + 36,
+            heading,
+            'subtitle'
+        ).setFontSize('26px');
+
+        this.dialog = this.add
+            .container(0, 0, [shade, panel, headingText])
+            .setDepth(10)
+            .setAlpha(0);
+        gsap.to(this.dialog, { alpha: 1, duration: 0.25 });
+        return top;
+    }
+
+    private closeDialog(): void {
+        if (this.nameInput) {
+            this.nameInput.destroy();
+            this.nameInput = undefined;
+            // Let the game capture arrow keys and space again
+            this.input.keyboard?.enableGlobalCapture();
+        }
+        this.dialog?.destroy();
+        this.dialog = undefined;
+    }
+
+    /**
+     * Name and color picker for a new profile, or for renaming one
+     */
+    private openNameDialog(profile?: PlayerProfile): void {
+        if (this.isBusy) return;
+        const centerX = this.cameras.main.width / 2;
+        const top = this.openDialog(profile ? 'Rename Player' : 'New Player');
+        let color = profile?.color ?? pickProfileColor(this.profiles);
+
+        // A real input so tablets bring up their on-screen keyboard
+        this.input.keyboard?.disableGlobalCapture();
+        this.nameInput = this.add
+            .dom(centerX, top + 100)
+            .createElement(
+                'input',
+                'width: 280px; padding: 8px 12px; font-size: 22px; border-radius: 8px; border: 2px solid #ffd700; text-align: center;'
+            )
+            .setDepth(11);
+        const input = this.nameInput.node as HTMLInputElement;
+        input.maxLength = MAX_PROFILE_NAME_LENGTH;
+        input.placeholder = 'Your name';
+        input.value = profile?.name ?? '';
+        input.addEventListener('keydown', event => {
+            if (event.key === 'Enter') save();
+            if (event.key === 'Escape') this.closeDialog();
+        });
+        input.focus();
+
+        const swatches = PROFILE_COLORS.map((swatchColor, index) => {
+            const swatch = this.add
+                .circle(
+                    centerX +
+                        (index - (PROFILE_COLORS.length - 1) / 2) *
+                            SWATCH_SPACING,
+                    top + 165,
+                    18,
+                    swatchColor
+                )
+                .setInteractive({ useHandCursor: true });
+            swatch.on('pointerdown', () => {
+                color = swatchColor;
+                updateSwatches();
+            });
+            return swatch;
+        });
+        const updateSwatches = () => {
+            swatches.forEach((swatch, index) =>
+                swatch.setStrokeStyle(
+                    PROFILE_COLORS[index] === color ? 4 : 0,
+                    0xffffff
+                )
+            );
+            input.style.borderColor = toCssColor(color);
+        };
+        updateSwatches();
+
+        const errorText = createStyledText(this, centerX, top + 200, '', 'body')
+            .setFontSize('14px')
+            .setColor('#ffb347');
+
+        const save = () => {
+            const name = normalizeProfileName(input.value);
+            if (!name) {
+                errorText.setText('Type a name first.');
+                return;
+            }
+            const taken = this.profiles.some(
+                other =>
+                    other.id !== profile?.id &&
+                    other.name.toLowerCase() === name.toLowerCase()
+            );
+            if (taken) {
+                errorText.setText(`There's already a player called ${name}.`);
+                return;
+            }
+            this.saveProfile(name, color, profile).catch(error => {
+                console.error('Error saving profile:', error);
+            });
+        };
+
+        const saveButton = this.createSmallButton(
+            centerX - 70,
+            top + 240,
+            'Save',
+            '#2E8B57',
+            '#3CB371',
+            save
+        ).setFontSize('20px');
+        const cancelButton = this.createSmallButton(
+            centerX + 70,
+            top + 240,
+            'Cancel',
+            '#696969',
+            '#808080',
+            () => this.closeDialog()
+        ).setFontSize('20px');
+
+        this.dialog?.add([...swatches, errorText, saveButton, cancelButton]);
+    }
+
+    private async saveProfile(
+        name: string,
+        color: number,
+        existing?: PlayerProfile
+    ): Promise<void> {
+        if (this.isBusy) return;
+        this.isBusy = true;
+        try {
+            if (existing) {
+                await renameProfile({ ...existing, color }, name);
+            } else {
+                await createProfile(name, color);
+            }
+            this.closeDialog();
+            this.profiles = await loadProfiles();
+            this.renderProfiles();
+        } catch (error) {
+            console.error('Failed to save profile:', error);
+            this.hintText?.setText(`Could not save ${name}.`);
+        } finally {
+            this.isBusy = false;
+        }
+    }
+
+    private openDeleteDialog(profile: PlayerProfile): void {
+        if (this.isBusy) return;
+        const centerX = this.cameras.main.width / 2;
+        const top = this.openDialog(`Delete ${profile.name}?`);
+
+        const warning = createStyledText(
+            this,
+            centerX,
+            top + 120,
+            `All of ${profile.name}'s scores, settings, quiz progress and journal discoveries will be removed for good.`,
+            'body'
+        )
+            .setFontSize('18px')
+            .setWordWrapWidth(PANEL_WIDTH - 60)
+            .setAlign('center');
+
+        const deleteButton = this.createSmallButton(
+            centerX - 70,
+            top + 220,
+            'Delete',
+            '#B22222',
+            '#DC3C3C',
+            () => {
+                this.removeProfile(profile).catch(error => {
+                    console.error('Error deleting profile:', error);
+                });
+            }
+        ).setFontSize('20px');
+        const keepButton = this.createSmallButton(
+            centerX + 70,
+            top + 220,
+            'Keep',
+            '#696969',
+            '#808080',
+            () => this.closeDialog()
+        ).setFontSize('20px');
+
+        this.dialog?.add([warning, deleteButton, keepButton]);
+    }
+
+    private async removeProfile(profile: PlayerProfile): Promise<void> {
+        if (this.isBusy) return;
+        this.isBusy = true;
+        try {
+            await deleteProfile(profile);
+            this.closeDialog();
+            this.profiles = await loadProfiles();
+            this.renderProfiles();
+        } catch (error) {
+            console.error('Failed to delete profile:', error);
+            this.hintText?.setText(`Could not delete ${profile.name}.`);
+        } finally {
+            this.isBusy = false;
+        }
+    }
+}
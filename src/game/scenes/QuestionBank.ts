@@ -0,0 +1,380 @@
+// src/game/scenes/QuestionBank.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import { QuestionBankRecord } from '@/services/StorageService';
+import { QUIZ_QUESTIONS, quizService } from '../data/quizData';
+import {
+    QUESTION_BANK_FILES,
+    QUESTION_BANK_FORMATS,
+    QuestionBankFormat,
+    detectQuestionBankFormat,
+    exportQuestionBank,
+    importQuestionBank,
+} from '../data/questionBank';
+import {
+    deleteQuestionBank,
+    loadStoredQuestionBanks,
+    saveQuestionBank,
+} from '../data/questionBank/storedBanks';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { downloadTextFile, pickTextFile } from '../utils/files';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// Bank list layout
+const MAX_LISTED_BANKS = 4;
+const LIST_TOP = 150;
+const ROW_HEIGHT = 44;
+const ROW_WIDTH = 600;
+// Import errors shown on screen (the full list goes to the console)
+const MAX_SHOWN_ERRORS = 3;
+const EXPORT_FILE_NAME = 'pollination-questions';
+
+export class QuestionBank extends Scene {
+    private returnTo: string = 'MainMenu'; // Passed back to Settings
+    private banks: QuestionBankRecord[] = [];
+    private isBusy: boolean = false;
+    private listContainer?: Phaser.GameObjects.Container;
+    private summaryText?: Phaser.GameObjects.Text;
+    private messageText?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('QuestionBank');
+    }
+
+    init(data: { returnTo?: string }) {
+        this.returnTo = data?.returnTo ?? 'MainMenu';
+        this.banks = [];
+        this.isBusy = false;
+        this.listContainer = undefined; // Drop references from a previous visit
+
+        this.loadBanks().catch(error => {
+            console.error('Error initiating question bank load:', error);
+        });
+    }
+
+    async loadBanks() {
+        try {
+            this.banks = await loadStoredQuestionBanks();
+            this.renderBanks();
+        } catch (error) {
+            console.error('Failed to load question banks:', error);
+            this.showMessage('Could not load saved question banks.', true);
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'QuestionBank');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 50, 'Question Banks', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        this.summaryText = createStyledText(this, centerX, 100, '', 'body')
+            .setFontSize('18px')
+            .setWordWrapWidth(700)
+            .setAlpha(0);
+
+        const backButton = createStyledText(this, 70, 50, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        this.listContainer = this.add.container(0, 0).setAlpha(0);
+        this.renderBanks();
+
+        // --- Import / export ---
+        const importButton = this.createActionButton(
+            centerX,
+            370,
+            'Import CSV / GIFT / Moodle XML',
+            '#2E8B57',
+            '#3CB371',
+            () => this.importFile()
+        );
+
+        const exportLabel = createStyledText(
+            this,
+            centerX,
+            415,
+            'Export the active question bank:',
+            'body'
+        )
+            .setFontSize('16px')
+            .setAlpha(0);
+
+        const exportButtons = QUESTION_BANK_FORMATS.map((format, index) =>
+            this.createActionButton(
+                centerX + (index - 1) * 170,
+                452,
+                QUESTION_BANK_FILES[format].label,
+                '#6A5ACD',
+                '#7B68EE',
+                () => this.exportBank(format)
+            )
+        );
+
+        // Grows downwards as import problems are listed
+        this.messageText = createStyledText(this, centerX, 484, '', 'body')
+            .setOrigin(0.5, 0)
+            .setFontSize('14px')
+            .setWordWrapWidth(720)
+            .setAlign('center')
+            .setAlpha(0);
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' })
+            .to(
+                [this.summaryText, backButton],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            )
+            .to(this.listContainer, { alpha: 1, duration: 0.5 }, '-=0.2')
+            .to(
+                [importButton, exportLabel, ...exportButtons, this.messageText],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                createTransitionOut(
+                    this,
+                    [
+                        title,
+                        this.summaryText,
+                        backButton,
+                        this.listContainer,
+                        importButton,
+                        exportLabel,
+                        ...exportButtons,
+                        this.messageText,
+                    ],
+                    () => {
+                        this.scene.start('Settings', {
+                            returnTo: this.returnTo,
+                        });
+                    }
+                );
+            },
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private createActionButton(
+        x: number,
+        y: number,
+        label: string,
+        color: string,
+        hoverColor: string,
+        onClick: () => void
+    ): Phaser.GameObjects.Text {
+        const button = createStyledText(this, x, y, label, 'body')
+            .setFontSize('18px')
+            .setBackgroundColor(color)
+            .setPadding(14, 6)
+            .setAlpha(0);
+        addButtonInteractions(button, this, {
+            onHover: () => button.setBackgroundColor(hoverColor),
+            onOut: () => button.setBackgroundColor(color),
+            onClick,
+        });
+        return button;
+    }
+
+    // Rebuilds the list of imported banks and the question count summary
+    private renderBanks(): void {
+        if (!this.listContainer) return;
+        this.listContainer.removeAll(true);
+
+        const total = quizService.getAllQuestions().length;
+        const imported = this.banks.reduce(
+            (sum, bank) => sum + bank.questions.length,
+            0
+        );
+        this.summaryText?.setText(
+            imported > 0
+                ? `Active bank: ${total} questions, ${imported} from imported banks`
+                : `Active bank: the ${QUIZ_QUESTIONS.length} built-in questions`
+        );
+
+        const left = this.cameras.main.width / 2 - ROW_WIDTH / 2;
+        if (this.banks.length === 0) {
+            this.listContainer.add(
+                createStyledText(
+                    this,
+                    this.cameras.main.width / 2,
+                    LIST_TOP + ROW_HEIGHT,
+                    'No imported banks yet. Import a file from your spreadsheet or LMS!',
+                    'body'
+                )
+                    .setFontSize('16px')
+                    .setWordWrapWidth(ROW_WIDTH)
+                    .setAlign('center')
+            );
+            return;
+        }
+
+        this.banks.slice(0, MAX_LISTED_BANKS).forEach((bank, index) => {
+            const y = LIST_TOP + index * ROW_HEIGHT;
+            const row = this.add.graphics();
+            row.fillStyle(0x000000, 0.6);
+            row.fillRoundedRect(left, y - 18, ROW_WIDTH, 36, 8);
+
+            const label = this.add
+                .text(
+                    left + 14,
+                    y,
+                    `${bank.name}  ·  ${bank.questions.length} questions  ·  ${bank.importedAt.toLocaleDateString()}`,
+                    {
+                        fontFamily: 'var(--font-poppins-family)',
+                        fontSize: '15px',
+                        color: '#ffffff',
+                    }
+                )
+                .setOrigin(0, 0.5);
+
+            const removeButton = createStyledText(
+                this,
+                left + ROW_WIDTH - 50,
+                y,
+                'Remove',
+                'body'
+            )
+                .setFontSize('14px')
+                .setBackgroundColor('#B22222')
+                .setPadding(8, 3);
+            addButtonInteractions(removeButton, this, {
+                onHover: () => removeButton.setBackgroundColor('#DC3C3C'),
+                onOut: () => removeButton.setBackgroundColor('#B22222'),
+                onClick: () => this.removeBank(bank),
+            });
+
+            this.listContainer!.add([row, label, removeButton]);
+        });
+
+        if (this.banks.length > MAX_LISTED_BANKS) {
+            this.listContainer.add(
+                createStyledText(
+                    this,
+                    this.cameras.main.width / 2,
+                    LIST_TOP + MAX_LISTED_BANKS * ROW_HEIGHT - 8,
+                    `+${this.banks.length - MAX_LISTED_BANKS} more`,
+                    'body'
+                ).setFontSize('14px')
+            );
+        }
+    }
+
+    private async importFile(): Promise<void> {
+        if (this.isBusy) return;
+        this.isBusy = true;
+        try {
+            const file = await pickTextFile('.csv,.gift,.txt,.xml');
+            if (!file) return;
+
+            const format = detectQuestionBankFormat(file.name);
+            if (!format) {
+                this.showMessage(
+                    `${file.name} isn't a CSV, GIFT (.gift/.txt) or Moodle XML file.`,
+                    true
+                );
+                return;
+            }
+
+            const result = importQuestionBank(file.text, format);
+            if (result.errors.length > 0) {
+                console.warn(`Problems importing ${file.name}:`, result.errors);
+            }
+            if (result.questions.length > 0) {
+                this.banks = await saveQuestionBank(
+                    file.name,
+                    format,
+                    result.questions
+                );
+                this.renderBanks();
+            }
+
+            const lines = [
+                `Imported ${result.questions.length} question${result.questions.length === 1 ? '' : 's'} from ${file.name}.`,
+                ...result.errors
+                    .slice(0, MAX_SHOWN_ERRORS)
+                    .map(issue => `Line ${issue.line}: ${issue.message}`),
+            ];
+            if (result.errors.length > MAX_SHOWN_ERRORS) {
+                lines.push(
+                    `...and ${result.errors.length - MAX_SHOWN_ERRORS} more problems (see the browser console).`
+                );
+            }
+            this.showMessage(lines.join('\n'), result.errors.length > 0);
+        } catch (error) {
+            console.error('Failed to import question bank:', error);
+            this.showMessage('Could not import that file.', true);
+        } finally {
+            this.isBusy = false;
+        }
+    }
+
+    private exportBank(format: QuestionBankFormat): void {
+        const questions = quizService.getAllQuestions();
+        const { label, extension, mimeType } = QUESTION_BANK_FILES[format];
+        const result = exportQuestionBank(questions, format);
+        downloadTextFile(
+            `${EXPORT_FILE_NAME}${extension}`,
+            result.text,
+            mimeType
+        );
+
+        const exported = questions.length - result.skipped.length;
+        this.showMessage(
+            result.skipped.length > 0
+                ? `Exported ${exported} questions as ${label}. ${result.skipped.length} can't be written in ${label} and were left out.`
+                : `Exported ${exported} questions as ${label}.`
+        );
+    }
+
+    private async removeBank(bank: QuestionBankRecord): Promise<void> {
+        if (this.isBusy) return;
+        this.isBusy = true;
+        try {
+            this.banks = await deleteQuestionBank(bank.id);
+            this.renderBanks();
+            this.showMessage(`Removed ${bank.name}.`);
+        } catch (error) {
+            console.error('Failed to remove question bank:', error);
+            this.showMessage(`Could not remove ${bank.name}.`, true);
+        } finally {
+            this.isBusy = false;
+        }
+    }
+
+    private showMessage(text: string, isWarning: boolean = false): void {
+        this.messageText
+            ?.setText(text)
+            .setColor(isWarning ? '#ffb347' : '#ffffff');
+    }
+}
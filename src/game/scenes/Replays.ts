@@ -0,0 +1,293 @@
+// src/game/scenes/Replays.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import storageService, { ReplayRecord } from '@/services/StorageService';
+import { GAME_MODE_LABELS, toGameMode } from '../data/gameModes';
+import { GameStartData } from './Game';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// One row per recorded run, newest first
+const ROWS_PER_PAGE = 6;
+const ROW_WIDTH = 680;
+const ROW_HEIGHT = 62;
+const FIRST_ROW_Y = 160;
+const ROW_SPACING = 72;
+
+export class Replays extends Scene {
+    private currentPage: number = 0;
+    private replays: ReplayRecord[] = [];
+    private isLoadingReplays: boolean = false;
+    private pageContainer?: Phaser.GameObjects.Container;
+    private pageText?: Phaser.GameObjects.Text;
+    // Set in create(): fades the scene out before starting another
+    private leave?: (onComplete: () => void) => void;
+
+    constructor() {
+        super('Replays');
+    }
+
+    init() {
+        this.currentPage = 0;
+
+        // Drop references from a previous visit
+        this.pageContainer = undefined;
+        this.pageText = undefined;
+        this.leave = undefined;
+
+        this.loadReplays().catch(error => {
+            console.error('Error initiating replays load:', error);
+        });
+    }
+
+    async loadReplays() {
+        this.isLoadingReplays = true;
+        try {
+            this.replays = await storageService.getReplays();
+            this.isLoadingReplays = false;
+
+            // Redraw if the scene was created before the data arrived
+            this.renderPage();
+        } catch (error) {
+            console.error('Failed to load replays:', error);
+            this.isLoadingReplays = false;
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'Replays');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 50, 'Replays', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        const subtitle = createStyledText(
+            this,
+            centerX,
+            98,
+            'Watch your recent runs again, move for move',
+            'body'
+        )
+            .setFontSize('18px')
+            .setAlpha(0);
+
+        // --- Navigation ---
+        const backButton = createStyledText(this, 70, 50, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        const prevButton = createStyledText(
+            this,
+            centerX - 150,
+            565,
+            '◀ Prev',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 4)
+            .setAlpha(0);
+
+        const nextButton = createStyledText(
+            this,
+            centerX + 150,
+            565,
+            'Next ▶',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 4)
+            .setAlpha(0);
+
+        this.pageText = createStyledText(this, centerX, 565, '', 'body')
+            .setFontSize('18px')
+            .setAlpha(0);
+
+        this.pageContainer = this.add.container(0, 0).setAlpha(0);
+        this.renderPage();
+
+        const sceneElements = [
+            title,
+            subtitle,
+            backButton,
+            this.pageContainer,
+            prevButton,
+            nextButton,
+            this.pageText,
+        ];
+        this.leave = onComplete =>
+            createTransitionOut(this, sceneElements, onComplete);
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' })
+            .to([subtitle, backButton], { alpha: 1, duration: 0.4 }, '-=0.3')
+            .to(this.pageContainer, { alpha: 1, duration: 0.5 }, '-=0.2')
+            .to(
+                [prevButton, nextButton, this.pageText],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                this.leave?.(() => this.scene.start('MainMenu'));
+            },
+        });
+
+        addButtonInteractions(prevButton, this, {
+            onClick: () => this.changePage(-1),
+        });
+        addButtonInteractions(nextButton, this, {
+            onClick: () => this.changePage(1),
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private getPageCount(): number {
+        return Math.max(1, Math.ceil(this.replays.length / ROWS_PER_PAGE));
+    }
+
+    private changePage(direction: number): void {
+        const pageCount = this.getPageCount();
+        this.currentPage =
+            (this.currentPage + direction + pageCount) % pageCount;
+        this.renderPage();
+    }
+
+    // Rebuilds the rows for the current page
+    private renderPage(): void {
+        if (!this.pageContainer) return;
+        this.pageContainer.removeAll(true);
+
+        this.pageText?.setText(
+            `Page ${this.currentPage + 1} / ${this.getPageCount()}`
+        );
+
+        if (this.isLoadingReplays || this.replays.length === 0) {
+            this.pageContainer.add(
+                createStyledText(
+                    this,
+                    this.cameras.main.width / 2,
+                    300,
+                    this.isLoadingReplays
+                        ? 'Loading...'
+                        : 'No replays yet. Finish a run with a score to record one!',
+                    'body'
+                ).setFontSize('20px')
+            );
+            return;
+        }
+
+        const start = this.currentPage * ROWS_PER_PAGE;
+        this.replays
+            .slice(start, start + ROWS_PER_PAGE)
+            .forEach((replay, i) => {
+                this.pageContainer!.add(
+                    this.createRow(
+                        replay,
+                        this.cameras.main.width / 2,
+                        FIRST_ROW_Y + i * ROW_SPACING
+                    )
+                );
+            });
+    }
+
+    // Builds a single replay row centered at (x, y)
+    private createRow(
+        replay: ReplayRecord,
+        x: number,
+        y: number
+    ): Phaser.GameObjects.Container {
+        const row = this.add.container(x, y);
+        const left = -ROW_WIDTH / 2;
+
+        const panel = this.add.graphics();
+        panel.fillStyle(0x000000, 0.6);
+        panel.fillRoundedRect(left, -ROW_HEIGHT / 2, ROW_WIDTH, ROW_HEIGHT, 12);
+        row.add(panel);
+
+        row.add(
+            this.add.text(
+                left + 20,
+                -22,
+                `${replay.score} pts · Wave ${replay.wave}`,
+                {
+                    fontFamily: 'var(--font-poppins-family)',
+                    fontSize: '20px',
+                    fontStyle: 'bold',
+                    color: '#ffdd00',
+                }
+            )
+        );
+        row.add(
+            this.add.text(
+                left + 20,
+                6,
+                [
+                    GAME_MODE_LABELS[toGameMode(replay.mode)],
+                    replay.difficulty,
+                    `Seed ${replay.seed}`,
+                    replay.date.toLocaleString(undefined, {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                    }),
+                ].join(' · '),
+                {
+                    fontFamily: 'var(--font-poppins-family)',
+                    fontSize: '14px',
+                    color: '#dddddd',
+                }
+            )
+        );
+
+        const watchButton = createStyledText(
+            this,
+            ROW_WIDTH / 2 - 70,
+            0,
+            'Watch',
+            'body'
+        )
+            .setFontSize('18px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(16, 6);
+        row.add(watchButton);
+
+        addButtonInteractions(watchButton, this, {
+            onHover: () => watchButton.setBackgroundColor('#3CB371'),
+            onOut: () => watchButton.setBackgroundColor('#2E8B57'),
+            onClick: () => {
+                const data: GameStartData = { replay };
+                this.leave?.(() => this.scene.start('Game', data));
+            },
+        });
+
+        return row;
+    }
+}
@@ -0,0 +1,272 @@
+// src/game/scenes/SaveData.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import { ImportMode } from '@/services/StorageService';
+import { getActiveProfile } from '../data/profiles';
+import {
+    SaveFileError,
+    applySaveFile,
+    createSaveFile,
+    readSaveFile,
+} from '../data/saveFile';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { downloadTextFile, pickTextFile } from '../utils/files';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// How long "Replace" waits for the confirming second tap
+const REPLACE_CONFIRM_MS = 4000;
+
+export class SaveData extends Scene {
+    private returnTo: string = 'MainMenu'; // Passed back to Settings
+    private isBusy: boolean = false;
+    private confirmReplaceUntil: number = 0;
+    private summaryText?: Phaser.GameObjects.Text;
+    private messageText?: Phaser.GameObjects.Text;
+    private replaceButton?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('SaveData');
+    }
+
+    init(data: { returnTo?: string }) {
+        this.returnTo = data?.returnTo ?? 'MainMenu';
+        this.isBusy = false;
+        this.confirmReplaceUntil = 0;
+    }
+
+    // Names the player once their profile has loaded
+    async loadProfileName() {
+        try {
+            const profile = await getActiveProfile();
+            if (profile) {
+                this.summaryText?.setText(
+                    `Saving ${profile.name}'s scores, settings, quiz progress and journal.`
+                );
+            }
+        } catch (error) {
+            console.error('Failed to load active profile:', error);
+        }
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'SaveData');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 50, 'Save Data', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        this.summaryText = createStyledText(
+            this,
+            centerX,
+            115,
+            "Saving this player's scores, settings, quiz progress and journal.",
+            'body'
+        )
+            .setFontSize('18px')
+            .setWordWrapWidth(680)
+            .setAlign('center')
+            .setAlpha(0);
+        this.loadProfileName().catch(error => {
+            console.error('Error loading profile name:', error);
+        });
+
+        const backButton = createStyledText(this, 70, 50, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        const hint = createStyledText(
+            this,
+            centerX,
+            160,
+            'Download a save file to keep a copy, or to carry on in another browser or device.',
+            'body'
+        )
+            .setFontSize('15px')
+            .setColor('#dddddd')
+            .setWordWrapWidth(640)
+            .setAlign('center')
+            .setAlpha(0);
+
+        const exportButton = this.createActionButton(
+            centerX,
+            225,
+            'Download Save File',
+            '#2E8B57',
+            '#3CB371',
+            () => this.exportSave()
+        );
+
+        const importLabel = createStyledText(
+            this,
+            centerX,
+            300,
+            'Load a save file:',
+            'body'
+        )
+            .setFontSize('16px')
+            .setAlpha(0);
+
+        const mergeButton = this.createActionButton(
+            centerX - 150,
+            345,
+            'Merge with mine',
+            '#6A5ACD',
+            '#7B68EE',
+            () => this.importSave('merge')
+        );
+        this.replaceButton = this.createActionButton(
+            centerX + 150,
+            345,
+            'Replace mine',
+            '#B22222',
+            '#DC3C3C',
+            () => this.importSave('replace')
+        );
+
+        this.messageText = createStyledText(this, centerX, 390, '', 'body')
+            .setOrigin(0.5, 0)
+            .setFontSize('15px')
+            .setWordWrapWidth(680)
+            .setAlign('center')
+            .setAlpha(0);
+
+        const elements = [
+            title,
+            this.summaryText,
+            backButton,
+            hint,
+            exportButton,
+            importLabel,
+            mergeButton,
+            this.replaceButton,
+            this.messageText,
+        ];
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' }).to(
+            elements.slice(1),
+            { alpha: 1, duration: 0.4, stagger: 0.04 },
+            '-=0.3'
+        );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                createTransitionOut(this, elements, () => {
+                    this.scene.start('Settings', { returnTo: this.returnTo });
+                });
+            },
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private createActionButton(
+        x: number,
+        y: number,
+        label: string,
+        color: string,
+        hoverColor: string,
+        onClick: () => void
+    ): Phaser.GameObjects.Text {
+        const button = createStyledText(this, x, y, label, 'body')
+            .setFontSize('20px')
+            .setBackgroundColor(color)
+            .setPadding(16, 8)
+            .setAlpha(0);
+        addButtonInteractions(button, this, {
+            onHover: () => button.setBackgroundColor(hoverColor),
+            onOut: () => button.setBackgroundColor(color),
+            onClick,
+        });
+        return button;
+    }
+
+    private async exportSave(): Promise<void> {
+        if (this.isBusy) return;
+        this.isBusy = true;
+        try {
+            const { fileName, text } = await createSaveFile();
+            downloadTextFile(fileName, text, 'application/json');
+            this.showMessage(`Saved ${fileName}.`);
+        } catch (error) {
+            console.error('Failed to export save data:', error);
+            this.showMessage('Could not create a save file.', true);
+        } finally {
+            this.isBusy = false;
+        }
+    }
+
+    private async importSave(mode: ImportMode): Promise<void> {
+        if (this.isBusy) return;
+
+        // Replacing wipes the current progress, so ask for a second tap
+        if (mode === 'replace' && this.time.now > this.confirmReplaceUntil) {
+            this.confirmReplaceUntil = this.time.now + REPLACE_CONFIRM_MS;
+            this.replaceButton?.setText('Tap to confirm');
+            this.time.delayedCall(REPLACE_CONFIRM_MS, () =>
+                this.replaceButton?.setText('Replace mine')
+            );
+            this.showMessage(
+                "Replacing deletes this player's current progress first.",
+                true
+            );
+            return;
+        }
+        this.confirmReplaceUntil = 0;
+        this.replaceButton?.setText('Replace mine');
+
+        this.isBusy = true;
+        try {
+            const file = await pickTextFile('.json,application/json');
+            if (!file) return;
+
+            const data = await readSaveFile(file.text);
+            await applySaveFile(data, mode);
+            this.showMessage(
+                mode === 'merge'
+                    ? `Merged ${data.profile.name}'s save into this player.`
+                    : `Replaced this player's progress with ${data.profile.name}'s save.`
+            );
+        } catch (error) {
+            if (error instanceof SaveFileError) {
+                this.showMessage(error.message, true);
+            } else {
+                console.error('Failed to import save data:', error);
+                this.showMessage('Could not load that save file.', true);
+            }
+        } finally {
+            this.isBusy = false;
+        }
+    }
+
+    private showMessage(text: string, isWarning: boolean = false): void {
+        this.messageText
+            ?.setText(text)
+            .setColor(isWarning ? '#ffb347' : '#ffffff');
+    }
+}
@@ -1,20 +1,61 @@
 // src/game/scenes/Settings.ts
 import { Scene } from 'phaser';
 import gsap from 'gsap';
+import EventBus from '../EventBus';
 import storageService from '@/services/StorageService';
+import {
+    SettingControl,
+    createOptionSelector,
+    addButtonInteractions,
+    createSlider,
+    createStyledText,
+    createToggle,
+} from '../utils/ui';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+import { audioManager } from '../managers/AudioManager';
+import { SOUND_KEYS } from '../utils/audio/soundKeys';
+import {
+    DEFAULT_DIFFICULTY,
+    DIFFICULTY_LEVELS,
+    DifficultyLevel,
+    toDifficultyLevel,
+} from '../data/difficulty';
+
+// Delay before persisting, so dragging a slider doesn't write on every step
+const SAVE_DEBOUNCE_MS = 300;
 
 export class Settings extends Scene {
     private musicVolume: number = 5; // Default volume (0-10)
     private soundVolume: number = 7; // Default volume (0-10)
-    private difficulty: string = 'Easy'; // Default difficulty
+    private difficulty: string = DEFAULT_DIFFICULTY;
     private knowledgeNectar: boolean = true; // Default state for fact popups
+    private ghostBee: boolean = false; // Race your best run on the same seed
     private isLoadingSettings: boolean = false;
+    private saveTimer?: Phaser.Time.TimerEvent;
+    private returnTo: string = 'MainMenu'; // Scene to go back to (MainMenu or Pause)
+
+    // Controls, kept so values loaded after create() can be shown
+    private musicSlider?: SettingControl<number>;
+    private soundSlider?: SettingControl<number>;
+    private difficultySelector?: SettingControl<DifficultyLevel>;
+    private nectarToggle?: SettingControl<boolean>;
+    private ghostToggle?: SettingControl<boolean>;
 
     constructor() {
         super('Settings');
     }
 
-    init() {
+    init(data: { returnTo?: string }) {
+        this.returnTo = data?.returnTo ?? 'MainMenu';
+
+        // Drop references from a previous visit
+        this.musicSlider = undefined;
+        this.soundSlider = undefined;
+        this.difficultySelector = undefined;
+        this.nectarToggle = undefined;
+        this.ghostToggle = undefined;
+        this.saveTimer = undefined;
+
         // Load settings from IndexedDB when the scene initializes
         this.loadSettings().catch(error => {
             console.error('Error initiating settings load:', error);
@@ -25,15 +66,14 @@ export class Settings extends Scene {
     async loadSettings() {
         this.isLoadingSettings = true;
         try {
-            const progress = await storageService.getProgress();
-            if (progress?.settings) {
-                // Update local settings from stored values
-                this.musicVolume = progress.settings.musicVolume ?? 5;
-                this.soundVolume = progress.settings.soundVolume ?? 7;
-                this.difficulty = progress.settings.difficulty ?? 'Easy';
-                this.knowledgeNectar =
-                    progress.settings.knowledgeNectar ?? true;
-            }
+            // Update local settings from stored values (defaults for a
+            // profile that hasn't saved any, rather than the last profile's)
+            const settings = (await storageService.getProgress())?.settings;
+            this.musicVolume = settings?.musicVolume ?? 5;
+            this.soundVolume = settings?.soundVolume ?? 7;
+            this.difficulty = toDifficultyLevel(settings?.difficulty);
+            this.knowledgeNectar = settings?.knowledgeNectar ?? true;
+            this.ghostBee = settings?.ghostBee ?? false;
             this.isLoadingSettings = false;
 
             // Update UI if it's already created
@@ -51,6 +91,7 @@ export class Settings extends Scene {
                 soundVolume: this.soundVolume,
                 difficulty: this.difficulty,
                 knowledgeNectar: this.knowledgeNectar,
+                ghostBee: this.ghostBee,
             });
             console.log('Settings saved successfully');
         } catch (error) {
@@ -60,13 +101,52 @@ export class Settings extends Scene {
 
     // Updates the UI to display current settings
     updateSettingsDisplay() {
-        // No settings to display
+        this.musicSlider?.setValue(this.musicVolume);
+        this.soundSlider?.setValue(this.soundVolume);
+        this.difficultySelector?.setValue(toDifficultyLevel(this.difficulty));
+        this.nectarToggle?.setValue(this.knowledgeNectar);
+        this.ghostToggle?.setValue(this.ghostBee);
+    }
+
+    // Broadcasts the change for live listeners and schedules a save
+    private applySettingChange() {
+        EventBus.emit(COMMON_EVENTS.SETTINGS_CHANGED, {
+            musicVolume: this.musicVolume,
+            soundVolume: this.soundVolume,
+            difficulty: this.difficulty,
+            knowledgeNectar: this.knowledgeNectar,
+            ghostBee: this.ghostBee,
+        });
+
+        this.saveTimer?.remove();
+        this.saveTimer = this.time.delayedCall(SAVE_DEBOUNCE_MS, () => {
+            this.saveTimer = undefined;
+            this.saveSettings().catch(error => {
+                console.error('Error saving settings:', error);
+            });
+        });
+    }
+
+    // Save right away instead of waiting for the debounce (before leaving)
+    private flushPendingSave() {
+        this.saveTimer?.remove();
+        this.saveTimer = undefined;
+        this.saveSettings().catch(error => {
+            console.error(
+                'Error saving settings before scene transition:',
+                error
+            );
+            // Continue with transition even if save fails
+        });
     }
 
     create() {
         const centerX = this.cameras.main.width / 2;
         const centerY = this.cameras.main.height / 2;
 
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'Settings');
+
         // Background
         const bg = this.add
             .image(centerX, centerY, 'background_generated')
@@ -75,7 +155,7 @@ export class Settings extends Scene {
 
         // Title
         const title = this.add
-            .text(centerX, centerY - 150, 'Settings', {
+            .text(centerX, centerY - 220, 'Settings', {
                 fontFamily: 'var(--font-luckiest-guy-family)',
                 fontSize: '50px',
                 color: '#ffffff',
@@ -94,43 +174,195 @@ export class Settings extends Scene {
             .setAlpha(0)
             .setScale(0.5);
 
-        // Message
-        const message = this.add
-            .text(centerX, centerY, 'Nothing to customize... yet!', {
-                fontFamily: 'var(--font-poppins-family)',
-                fontSize: '40px',
-                color: '#ffffff',
-                align: 'center',
-            })
-            .setOrigin(0.5)
+        // Panel behind the controls
+        const panel = this.add.graphics().setAlpha(0);
+        panel.fillStyle(0x000000, 0.55);
+        panel.fillRoundedRect(centerX - 300, centerY - 160, 600, 315, 16);
+
+        // --- Setting rows (label on the left, control on the right) ---
+        const labelX = centerX - 270;
+        const controlX = centerX - 40;
+        const rowY = (row: number) => centerY - 125 + row * 56;
+
+        const labels = [
+            'Music Volume',
+            'Sound Volume',
+            'Difficulty',
+            'Knowledge Nectar',
+            'Ghost Bee',
+        ].map((label, row) =>
+            createStyledText(this, labelX, rowY(row), label, 'subtitle')
+                .setFontSize('22px')
+                .setOrigin(0, 0.5)
+        );
+
+        this.musicSlider = createSlider(this, controlX, rowY(0), {
+            min: 0,
+            max: 10,
+            value: this.musicVolume,
+            onChange: value => {
+                this.musicVolume = value;
+                this.applySettingChange();
+            },
+        });
+
+        this.soundSlider = createSlider(this, controlX, rowY(1), {
+            min: 0,
+            max: 10,
+            value: this.soundVolume,
+            onChange: value => {
+                this.soundVolume = value;
+                this.applySettingChange();
+                // Preview the new effects volume
+                audioManager.playSfx(SOUND_KEYS.COUNTDOWN);
+            },
+        });
+
+        this.difficultySelector = createOptionSelector(
+            this,
+            controlX,
+            rowY(2),
+            DIFFICULTY_LEVELS,
+            toDifficultyLevel(this.difficulty),
+            value => {
+                this.difficulty = value;
+                this.applySettingChange();
+            }
+        );
+
+        this.nectarToggle = createToggle(
+            this,
+            controlX,
+            rowY(3),
+            this.knowledgeNectar,
+            value => {
+                this.knowledgeNectar = value;
+                this.applySettingChange();
+            }
+        );
+
+        this.ghostToggle = createToggle(
+            this,
+            controlX,
+            rowY(4),
+            this.ghostBee,
+            value => {
+                this.ghostBee = value;
+                this.applySettingChange();
+            }
+        );
+
+        const controls = [
+            this.musicSlider.container,
+            this.soundSlider.container,
+            this.difficultySelector.container,
+            this.nectarToggle.container,
+            this.ghostToggle.container,
+        ];
+        controls.forEach(control => control.setAlpha(0));
+        labels.forEach(label => label.setAlpha(0));
+
+        // Hint explaining the toggles
+        const hint = createStyledText(
+            this,
+            centerX,
+            centerY + 128,
+            'Knowledge Nectar shows a flower fact after pollinating a new species. Ghost Bee races your best run on the same seed.',
+            'body'
+        )
+            .setFontSize('14px')
+            .setColor('#dddddd')
+            .setWordWrapWidth(560)
+            .setAlpha(0);
+
+        // Opens the teacher tools for importing and exporting questions
+        const questionBankButton = createStyledText(
+            this,
+            centerX - 175,
+            centerY + 185,
+            'Question Banks',
+            'body'
+        )
+            .setFontSize('18px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 6)
+            .setAlpha(0);
+
+        // Save file export / import for the current player
+        const saveDataButton = createStyledText(
+            this,
+            centerX,
+            centerY + 185,
+            'Save Data',
+            'body'
+        )
+            .setFontSize('18px')
+            .setBackgroundColor('#8B5A2B')
+            .setPadding(14, 6)
+            .setAlpha(0);
+
+        // Key bindings, gamepad and pointer controls
+        const controlsButton = createStyledText(
+            this,
+            centerX + 155,
+            centerY + 185,
+            'Controls',
+            'body'
+        )
+            .setFontSize('18px')
+            .setBackgroundColor('#6A5ACD')
+            .setPadding(14, 6)
             .setAlpha(0);
 
         // Back button
         const backButton = this.add
-            .text(centerX, centerY + 150, 'Back to Menu', {
-                fontFamily: 'var(--font-poppins-family)',
-                fontSize: '28px',
-                color: '#ffffff',
-                backgroundColor: '#4682B4', // Steel Blue
-                padding: { x: 25, y: 12 },
-                shadow: {
-                    offsetX: 2,
-                    offsetY: 2,
-                    color: '#111',
-                    blur: 2,
-                    fill: true,
-                },
-            })
+            .text(
+                centerX,
+                centerY + 237,
+                this.returnTo === 'Pause' ? 'Back' : 'Back to Menu',
+                {
+                    fontFamily: 'var(--font-poppins-family)',
+                    fontSize: '28px',
+                    color: '#ffffff',
+                    backgroundColor: '#4682B4', // Steel Blue
+                    padding: { x: 25, y: 12 },
+                    shadow: {
+                        offsetX: 2,
+                        offsetY: 2,
+                        color: '#111',
+                        blur: 2,
+                        fill: true,
+                    },
+                }
+            )
             .setOrigin(0.5)
             .setAlpha(0)
             .setScale(0.8);
 
+        // Values may have loaded before create() ran
+        if (!this.isLoadingSettings) {
+            this.updateSettingsDisplay();
+        }
+
         // Animation timeline for staggered entrance
         const tl = gsap.timeline({ delay: 0.2 });
         tl.to(title, { alpha: 1, scale: 1, duration: 0.5, ease: 'back.out' })
             .to(
-                message,
-                { alpha: 1, duration: 0.4, ease: 'power1.inOut' },
+                [
+                    panel,
+                    ...labels,
+                    ...controls,
+                    hint,
+                    questionBankButton,
+                    saveDataButton,
+                    controlsButton,
+                ],
+                {
+                    alpha: 1,
+                    duration: 0.4,
+                    stagger: 0.04,
+                    ease: 'power1.inOut',
+                },
                 '-=0.2'
             )
             .to(
@@ -139,6 +371,33 @@ export class Settings extends Scene {
                 '-=0.2'
             );
 
+        addButtonInteractions(questionBankButton, this, {
+            onHover: () => questionBankButton.setBackgroundColor('#3CB371'),
+            onOut: () => questionBankButton.setBackgroundColor('#2E8B57'),
+            onClick: () => {
+                this.flushPendingSave();
+                this.scene.start('QuestionBank', { returnTo: this.returnTo });
+            },
+        });
+
+        addButtonInteractions(saveDataButton, this, {
+            onHover: () => saveDataButton.setBackgroundColor('#A0522D'),
+            onOut: () => saveDataButton.setBackgroundColor('#8B5A2B'),
+            onClick: () => {
+                this.flushPendingSave();
+                this.scene.start('SaveData', { returnTo: this.returnTo });
+            },
+        });
+
+        addButtonInteractions(controlsButton, this, {
+            onHover: () => controlsButton.setBackgroundColor('#7B68EE'),
+            onOut: () => controlsButton.setBackgroundColor('#6A5ACD'),
+            onClick: () => {
+                this.flushPendingSave();
+                this.scene.start('Controls', { returnTo: this.returnTo });
+            },
+        });
+
         // Button interaction
         backButton.setInteractive({ useHandCursor: true });
         const originalScale = 1;
@@ -169,26 +428,38 @@ export class Settings extends Scene {
                 yoyo: true,
             });
 
-            // Save settings before transition
-            this.saveSettings().catch(error => {
-                console.error(
-                    'Error saving settings before scene transition:',
-                    error
-                );
-                // Continue with transition even if save fails
-            });
+            this.flushPendingSave();
 
             // Transition Out
-            gsap.to([title, message, backButton], {
-                alpha: 0,
-                y: '-=20',
-                duration: 0.3,
-                stagger: 0.05,
-                ease: 'power1.in',
-                onComplete: () => {
-                    this.scene.start('MainMenu');
-                },
-            });
+            gsap.to(
+                [
+                    title,
+                    panel,
+                    ...labels,
+                    ...controls,
+                    hint,
+                    questionBankButton,
+                    saveDataButton,
+                    controlsButton,
+                    backButton,
+                ],
+                {
+                    alpha: 0,
+                    y: '-=20',
+                    duration: 0.3,
+                    stagger: 0.03,
+                    ease: 'power1.in',
+                    onComplete: () => {
+                        if (this.returnTo === 'Pause') {
+                            // Back to the sleeping pause overlay over the game
+                            this.scene.stop();
+                            this.scene.wake('Pause');
+                        } else {
+                            this.scene.start('MainMenu');
+                        }
+                    },
+                }
+            );
         });
 
         // Emit scene readiness
@@ -0,0 +1,268 @@
+// src/game/scenes/Trophies.ts
+import { Scene } from 'phaser';
+import gsap from 'gsap';
+import EventBus from '../EventBus';
+import {
+    AchievementStatus,
+    achievementManager,
+} from '../managers/AchievementManager';
+import { createStyledText, addButtonInteractions } from '../utils/ui';
+import { createTransitionOut } from '../utils/animation';
+import { COMMON_EVENTS } from '../utils/eventUtils';
+
+// Card grid layout (2 x 3 cards per page)
+const CARDS_PER_PAGE = 6;
+const CARD_WIDTH = 370;
+const CARD_HEIGHT = 118;
+const CARD_POSITIONS = [
+    { x: 210, y: 180 },
+    { x: 590, y: 180 },
+    { x: 210, y: 315 },
+    { x: 590, y: 315 },
+    { x: 210, y: 450 },
+    { x: 590, y: 450 },
+];
+
+export class Trophies extends Scene {
+    private currentPage: number = 0;
+    private achievements: AchievementStatus[] = [];
+    private pageContainer?: Phaser.GameObjects.Container;
+    private pageText?: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('Trophies');
+    }
+
+    init() {
+        this.currentPage = 0;
+        this.pageContainer = undefined; // Drop references from a previous visit
+        this.achievements = achievementManager.getAchievements();
+    }
+
+    create() {
+        const centerX = this.cameras.main.width / 2;
+        const centerY = this.cameras.main.height / 2;
+
+        // Signal scene change through EventBus
+        EventBus.emit(COMMON_EVENTS.SCENE_CHANGED, 'Trophies');
+
+        // Background - Fade in
+        const bg = this.add
+            .image(centerX, centerY, 'background_generated')
+            .setAlpha(0);
+        gsap.to(bg, { alpha: 0.7, duration: 0.7, ease: 'power1.inOut' });
+
+        const title = this.add
+            .text(centerX, 50, 'Trophy Room', {
+                fontFamily: 'var(--font-luckiest-guy-family)',
+                fontSize: '46px',
+                color: '#ffff00',
+                stroke: '#8B4513',
+                strokeThickness: 8,
+            })
+            .setOrigin(0.5)
+            .setAlpha(0);
+
+        const unlockedCount = this.achievements.filter(
+            a => a.unlockedAt
+        ).length;
+        const progressText = createStyledText(
+            this,
+            centerX,
+            98,
+            `Unlocked ${unlockedCount} of ${this.achievements.length} trophies`,
+            'body'
+        )
+            .setFontSize('18px')
+            .setAlpha(0);
+
+        // --- Navigation ---
+        const backButton = createStyledText(this, 70, 50, 'Back', 'body')
+            .setFontSize('22px')
+            .setBackgroundColor('#4682B4')
+            .setPadding(16, 8)
+            .setAlpha(0);
+
+        const prevButton = createStyledText(
+            this,
+            centerX - 150,
+            565,
+            '◀ Prev',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 4)
+            .setAlpha(0);
+
+        const nextButton = createStyledText(
+            this,
+            centerX + 150,
+            565,
+            'Next ▶',
+            'body'
+        )
+            .setFontSize('20px')
+            .setBackgroundColor('#2E8B57')
+            .setPadding(14, 4)
+            .setAlpha(0);
+
+        this.pageText = createStyledText(this, centerX, 565, '', 'body')
+            .setFontSize('18px')
+            .setAlpha(0);
+
+        this.pageContainer = this.add.container(0, 0).setAlpha(0);
+        this.renderPage();
+
+        // GSAP Timeline for staggered entrance
+        const tl = gsap.timeline({ delay: 0.2 });
+        tl.to(title, { alpha: 1, duration: 0.5, ease: 'power2.out' })
+            .to(
+                [progressText, backButton],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            )
+            .to(this.pageContainer, { alpha: 1, duration: 0.5 }, '-=0.2')
+            .to(
+                [prevButton, nextButton, this.pageText],
+                { alpha: 1, duration: 0.4 },
+                '-=0.3'
+            );
+
+        addButtonInteractions(backButton, this, {
+            onHover: () => backButton.setBackgroundColor('#5A9BDC'),
+            onOut: () => backButton.setBackgroundColor('#4682B4'),
+            onClick: () => {
+                createTransitionOut(
+                    this,
+                    [
+                        title,
+                        progressText,
+                        backButton,
+                        this.pageContainer,
+                        prevButton,
+                        nextButton,
+                        this.pageText,
+                    ],
+                    () => {
+                        this.scene.start('MainMenu');
+                    }
+                );
+            },
+        });
+
+        addButtonInteractions(prevButton, this, {
+            onClick: () => this.changePage(-1),
+        });
+        addButtonInteractions(nextButton, this, {
+            onClick: () => this.changePage(1),
+        });
+
+        // Emit scene readiness
+        this.events.emit('scene-ready', this);
+    }
+
+    private getPageCount(): number {
+        return Math.max(
+            1,
+            Math.ceil(this.achievements.length / CARDS_PER_PAGE)
+        );
+    }
+
+    private changePage(direction: number): void {
+        const pageCount = this.getPageCount();
+        this.currentPage =
+            (this.currentPage + direction + pageCount) % pageCount;
+        this.renderPage();
+    }
+
+    // Rebuilds the cards for the current page
+    private renderPage(): void {
+        if (!this.pageContainer) return;
+        this.pageContainer.removeAll(true);
+
+        this.pageText?.setText(
+            `Page ${this.currentPage + 1} / ${this.getPageCount()}`
+        );
+
+        const start = this.currentPage * CARDS_PER_PAGE;
+        this.achievements
+            .slice(start, start + CARDS_PER_PAGE)
+            .forEach((achievement, i) => {
+                const { x, y } = CARD_POSITIONS[i];
+                this.pageContainer!.add(this.createCard(achievement, x, y));
+            });
+    }
+
+    // Builds a single trophy card centered at (x, y)
+    private createCard(
+        { definition, unlockedAt, progress }: AchievementStatus,
+        x: number,
+        y: number
+    ): Phaser.GameObjects.Container {
+        const card = this.add.container(x, y);
+        const left = -CARD_WIDTH / 2;
+        const top = -CARD_HEIGHT / 2;
+
+        const panel = this.add.graphics();
+        panel.fillStyle(0x000000, unlockedAt ? 0.72 : 0.55);
+        panel.fillRoundedRect(left, top, CARD_WIDTH, CARD_HEIGHT, 14);
+        panel.lineStyle(2, unlockedAt ? 0xffd700 : 0x666666, 0.8);
+        panel.strokeRoundedRect(left, top, CARD_WIDTH, CARD_HEIGHT, 14);
+        card.add(panel);
+
+        const icon = this.add
+            .text(left + 48, 0, definition.icon, { fontSize: '44px' })
+            .setOrigin(0.5);
+        card.add(icon);
+        if (!unlockedAt) {
+            // Faded icon with a lock until the trophy is earned
+            icon.setAlpha(0.3);
+            card.add(
+                this.add
+                    .text(left + 66, 22, '🔒', { fontSize: '20px' })
+                    .setOrigin(0.5)
+            );
+        }
+
+        const textStyle = {
+            fontFamily: 'var(--font-poppins-family)',
+            fontSize: '14px',
+            color: unlockedAt ? '#ffffff' : '#cccccc',
+            wordWrap: { width: CARD_WIDTH - 110 },
+        };
+
+        card.add(
+            this.add.text(left + 96, top + 12, definition.title, {
+                ...textStyle,
+                fontSize: '20px',
+                fontStyle: 'bold',
+                color: unlockedAt ? '#ffdd00' : '#aaaaaa',
+            })
+        );
+        card.add(
+            this.add.text(
+                left + 96,
+                top + 42,
+                definition.description,
+                textStyle
+            )
+        );
+
+        const status = unlockedAt
+            ? `Unlocked ${unlockedAt.toLocaleDateString()}`
+            : progress === null
+              ? 'Do it in a single game'
+              : `Progress: ${progress} / ${definition.goal}`;
+        card.add(
+            this.add.text(left + 96, top + 88, status, {
+                ...textStyle,
+                fontSize: '13px',
+                fontStyle: 'italic',
+                color: unlockedAt ? '#90ee90' : '#bbbbbb',
+            })
+        );
+
+        return card;
+    }
+}
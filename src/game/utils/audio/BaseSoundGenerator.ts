@@ -0,0 +1,132 @@
+// src/game/utils/audio/BaseSoundGenerator.ts
+import * as Phaser from 'phaser';
+import { GeneratorOptions } from '../textures/types';
+
+export type Waveform = 'sine' | 'triangle' | 'square' | 'sawtooth';
+
+export interface NoteOptions {
+    volume?: number; // Peak amplitude (0-1)
+    wave?: Waveform;
+    attack?: number; // Seconds
+    release?: number; // Seconds
+    endFrequency?: number; // Slide to this frequency over the note
+}
+
+// Lower than the hardware rate, but plenty for chiptune-style sounds
+const SAMPLE_RATE = 22050;
+
+/**
+ * Base class for sound generators. Like the texture generators, subclasses
+ * synthesize their assets at startup and register them under cache keys, so
+ * `scene.sound.add(key)` works as if the audio had been loaded from a file.
+ */
+export abstract class BaseSoundGenerator {
+    protected scene: Phaser.Scene;
+    protected context: AudioContext | null;
+    protected updateProgress?: () => void;
+
+    constructor(options: GeneratorOptions) {
+        this.scene = options.scene;
+        this.updateProgress = options.updateProgress;
+        // Buffers can only be made when Phaser is using Web Audio
+        this.context =
+            this.scene.sound instanceof Phaser.Sound.WebAudioSoundManager
+                ? this.scene.sound.context
+                : null;
+    }
+
+    generate(): void {
+        if (this.context) {
+            this.generateSounds();
+        } else {
+            console.warn(
+                `${this.constructor.name}: Web Audio unavailable, skipping sound generation.`
+            );
+        }
+        this.cleanup();
+    }
+
+    protected abstract generateSounds(): void;
+
+    // Allocates a silent mono buffer of the given length in seconds
+    protected createSamples(duration: number): Float32Array {
+        return new Float32Array(Math.ceil(duration * SAMPLE_RATE));
+    }
+
+    // Mixes a single enveloped note into the samples, starting at `start` seconds
+    protected addNote(
+        samples: Float32Array,
+        start: number,
+        duration: number,
+        frequency: number,
+        options: NoteOptions = {}
+    ): void {
+        const {
+            volume = 0.3,
+            wave = 'sine',
+            attack = 0.01,
+            release = Math.min(0.1, duration / 2),
+            endFrequency = frequency,
+        } = options;
+
+        const startIndex = Math.floor(start * SAMPLE_RATE);
+        const length = Math.floor(duration * SAMPLE_RATE);
+        let phase = 0;
+
+        for (let i = 0; i < length; i++) {
+            const index = startIndex + i;
+            if (index >= samples.length) break;
+
+            const t = i / SAMPLE_RATE;
+            // Linear slide between the start and end frequency
+            const freq = frequency + (endFrequency - frequency) * (i / length);
+            phase = (phase + freq / SAMPLE_RATE) % 1;
+
+            // Attack/release envelope avoids clicks at note boundaries
+            const envelope = Math.min(1, t / attack, (duration - t) / release);
+            samples[index] += oscillate(wave, phase) * volume * envelope;
+        }
+    }
+
+    // Copies the samples into an AudioBuffer and registers it in the audio cache
+    protected register(key: string, samples: Float32Array): void {
+        if (!this.context) return;
+
+        const buffer = this.context.createBuffer(
+            1,
+            samples.length,
+            SAMPLE_RATE
+        );
+        const channel = buffer.getChannelData(0);
+        for (let i = 0; i < samples.length; i++) {
+            channel[i] = Phaser.Math.Clamp(samples[i], -1, 1); // Avoid clipping
+        }
+
+        if (this.scene.cache.audio.exists(key)) {
+            this.scene.cache.audio.remove(key);
+        }
+        this.scene.cache.audio.add(key, buffer);
+    }
+
+    protected cleanup(): void {
+        if (this.updateProgress) this.updateProgress();
+    }
+
+    public destroy(): void {
+        this.context = null;
+    }
+}
+
+// Value of a waveform at a phase in [0, 1)
+function oscillate(wave: Waveform, phase: number): number {
+    switch (wave) {
+        case 'triangle':
+            return 1 - 4 * Math.abs(phase - 0.5);
+        case 'square':
+            return phase < 0.5 ? 1 : -1;
+        case 'sawtooth':
+            return 2 * phase - 1;
+        default:
+            return Math.sin(phase * Math.PI * 2);
+    }
+}
@@ -0,0 +1,92 @@
+// src/game/utils/audio/MusicGenerator.ts
+import { BaseSoundGenerator } from './BaseSoundGenerator';
+import { SOUND_KEYS } from './soundKeys';
+
+const BEAT = 0.5; // Seconds per beat (120 BPM)
+const BEATS_PER_BAR = 4;
+
+// Two bars per chord: C - Am - F - G, as [bass root, chord tones] in Hz
+const PROGRESSION: Array<{ root: number; chord: number[] }> = [
+    { root: 130.81, chord: [261.63, 329.63, 392.0] }, // C
+    { root: 110.0, chord: [220.0, 261.63, 329.63] }, // Am
+    { root: 87.31, chord: [174.61, 220.0, 261.63] }, // F
+    { root: 98.0, chord: [196.0, 246.94, 293.66] }, // G
+];
+const BARS_PER_CHORD = 2;
+
+// C major pentatonic melody, one entry per eighth note (0 = rest)
+// prettier-ignore
+const MELODY = [
+    659.25, 0, 783.99, 659.25, 587.33, 0, 523.25, 0,
+    587.33, 659.25, 0, 783.99, 880.0, 0, 783.99, 0,
+    523.25, 0, 659.25, 0, 587.33, 523.25, 440.0, 0,
+    523.25, 0, 587.33, 659.25, 587.33, 0, 0, 0,
+    698.46, 0, 659.25, 587.33, 523.25, 0, 440.0, 0,
+    523.25, 587.33, 0, 659.25, 523.25, 0, 0, 0,
+    587.33, 0, 783.99, 0, 659.25, 587.33, 493.88, 0,
+    587.33, 0, 659.25, 0, 587.33, 0, 0, 0,
+];
+
+/**
+ * Generates a gentle looping background track. Every note ends inside the
+ * loop, so it repeats seamlessly.
+ */
+export class MusicGenerator extends BaseSoundGenerator {
+    protected generateSounds(): void {
+        const bars = PROGRESSION.length * BARS_PER_CHORD;
+        const samples = this.createSamples(bars * BEATS_PER_BAR * BEAT);
+
+        this.addHarmony(samples);
+        this.addMelody(samples);
+
+        this.register(SOUND_KEYS.MUSIC, samples);
+    }
+
+    // Bass on every beat and a soft pad held for each bar
+    private addHarmony(samples: Float32Array): void {
+        PROGRESSION.forEach(({ root, chord }, chordIndex) => {
+            for (let bar = 0; bar < BARS_PER_CHORD; bar++) {
+                const barStart =
+                    (chordIndex * BARS_PER_CHORD + bar) * BEATS_PER_BAR * BEAT;
+
+                for (let beat = 0; beat < BEATS_PER_BAR; beat++) {
+                    this.addNote(
+                        samples,
+                        barStart + beat * BEAT,
+                        BEAT * 0.9,
+                        root,
+                        {
+                            wave: 'triangle',
+                            volume: 0.22,
+                            release: 0.15,
+                        }
+                    );
+                }
+
+                chord.forEach(freq => {
+                    this.addNote(
+                        samples,
+                        barStart,
+                        BEATS_PER_BAR * BEAT,
+                        freq,
+                        { volume: 0.05, attack: 0.3, release: 0.4 }
+                    );
+                });
+            }
+        });
+    }
+
+    // Plucky lead line in eighth notes
+    private addMelody(samples: Float32Array): void {
+        const eighth = BEAT / 2;
+        MELODY.forEach((freq, i) => {
+            if (freq === 0) return;
+            this.addNote(samples, i * eighth, eighth * 0.95, freq, {
+                wave: 'triangle',
+                volume: 0.12,
+                attack: 0.005,
+                release: 0.12,
+            });
+        });
+    }
+}
@@ -0,0 +1,99 @@
+// src/game/utils/audio/SfxGenerator.ts
+import { BaseSoundGenerator } from './BaseSoundGenerator';
+import { SOUND_KEYS } from './soundKeys';
+
+// Note frequencies (Hz) used by the effects
+const NOTE = {
+    C5: 523.25,
+    E5: 659.25,
+    G5: 783.99,
+    A5: 880.0,
+    C6: 1046.5,
+    E6: 1318.51,
+    G6: 1567.98,
+};
+
+export class SfxGenerator extends BaseSoundGenerator {
+    protected generateSounds(): void {
+        this.generatePollenPickup();
+        this.generatePollination();
+        this.generateWaveComplete();
+        this.generateCorrect();
+        this.generateIncorrect();
+        this.generateCountdown();
+    }
+
+    // Quick upward "bloop" when the bee grabs pollen
+    private generatePollenPickup(): void {
+        const samples = this.createSamples(0.15);
+        this.addNote(samples, 0, 0.15, 600, {
+            endFrequency: 1200,
+            volume: 0.35,
+        });
+        this.register(SOUND_KEYS.POLLEN_PICKUP, samples);
+    }
+
+    // Sparkly major arpeggio when pollen is delivered
+    private generatePollination(): void {
+        const samples = this.createSamples(0.45);
+        [NOTE.C6, NOTE.E6, NOTE.G6].forEach((freq, i) => {
+            this.addNote(samples, i * 0.07, 0.3, freq, {
+                volume: 0.25,
+                release: 0.2,
+            });
+        });
+        this.register(SOUND_KEYS.POLLINATION, samples);
+    }
+
+    // Short fanfare ending on a held note
+    private generateWaveComplete(): void {
+        const samples = this.createSamples(0.9);
+        [NOTE.C5, NOTE.E5, NOTE.G5].forEach((freq, i) => {
+            this.addNote(samples, i * 0.12, 0.12, freq, {
+                wave: 'triangle',
+                volume: 0.3,
+            });
+        });
+        this.addNote(samples, 0.36, 0.5, NOTE.C6, {
+            wave: 'triangle',
+            volume: 0.35,
+            release: 0.3,
+        });
+        this.register(SOUND_KEYS.WAVE_COMPLETE, samples);
+    }
+
+    // Bright rising two-note chime
+    private generateCorrect(): void {
+        const samples = this.createSamples(0.4);
+        this.addNote(samples, 0, 0.12, NOTE.E5, { volume: 0.3 });
+        this.addNote(samples, 0.1, 0.3, NOTE.A5, {
+            volume: 0.3,
+            release: 0.2,
+        });
+        this.register(SOUND_KEYS.CORRECT, samples);
+    }
+
+    // Low, gentle falling buzz (kept soft so it isn't discouraging)
+    private generateIncorrect(): void {
+        const samples = this.createSamples(0.4);
+        this.addNote(samples, 0, 0.4, 220, {
+            wave: 'sawtooth',
+            endFrequency: 150,
+            volume: 0.15,
+            release: 0.15,
+        });
+        this.register(SOUND_KEYS.INCORRECT, samples);
+    }
+
+    // Short tick for countdowns
+    private generateCountdown(): void {
+        const samples = this.createSamples(0.08);
+        this.addNote(samples, 0, 0.08, NOTE.A5, {
+            wave: 'square',
+            volume: 0.12,
+            attack: 0.002,
+            release: 0.05,
+        });
+        this.register(SOUND_KEYS.COUNTDOWN, samples);
+    }
+}
@@ -0,0 +1,14 @@
+// src/game/utils/audio/soundKeys.ts
+
+// Cache keys for the procedurally generated sounds
+export const SOUND_KEYS = {
+    POLLEN_PICKUP: 'sfx_pollen_pickup_generated',
+    POLLINATION: 'sfx_pollination_generated',
+    WAVE_COMPLETE: 'sfx_wave_complete_generated',
+    CORRECT: 'sfx_correct_generated',
+    INCORRECT: 'sfx_incorrect_generated',
+    COUNTDOWN: 'sfx_countdown_generated',
+    MUSIC: 'music_garden_generated',
+} as const;
+
+export type SoundKey = (typeof SOUND_KEYS)[keyof typeof SOUND_KEYS];
@@ -1,18 +1,27 @@
 // src/game/utils/eventUtils.ts
 import EventBus from '../EventBus';
+import { EventListener, EventName } from '../events';
 
-export interface EventHandler {
-    event: string;
-    handler: (...args: unknown[]) => void;
-    context?: unknown;
-}
+export { COMMON_EVENTS } from '../events';
+
+/**
+ * An EventBus subscription. The union is discriminated on `event`, so each
+ * handler's parameters are checked against that event's payload.
+ */
+export type EventHandler = {
+    [K in EventName]: {
+        event: K;
+        handler: EventListener<K>;
+        context?: unknown;
+    };
+}[EventName];
 
 /**
  * Registers multiple event handlers at once
  */
 export function registerEventHandlers(handlers: EventHandler[]): void {
     handlers.forEach(({ event, handler, context }) => {
-        EventBus.on(event, handler, context);
+        EventBus.on(event, handler as EventListener<EventName>, context);
     });
 }
 
@@ -21,26 +30,10 @@ export function registerEventHandlers(handlers: EventHandler[]): void {
  */
 export function unregisterEventHandlers(handlers: EventHandler[]): void {
     handlers.forEach(({ event, handler, context }) => {
-        EventBus.off(event, handler, context);
+        EventBus.off(event, handler as EventListener<EventName>, context);
     });
 }
 
-/**
- * Common event patterns used across the application
- */
-export const COMMON_EVENTS = {
-    SCENE_CHANGED: 'scene:changed',
-    GAME_SET_INPUT_ACTIVE: 'game:set-input-active',
-    UI_GAME_ACTIVE: 'ui:game-active',
-    UI_MODAL_CLOSED: 'ui:modal-closed',
-    UI_HIDE_MODAL: 'ui:hide-modal',
-    UI_UPDATE_TIMER: 'ui:update-timer',
-    UPDATE_SCORE: 'update-score',
-    DPAD: 'dpad',
-    GAME_UPDATE_SCORE: 'game:update-score',
-    GAME_UPDATE_TIMER: 'game:update-timer',
-} as const;
-
 /**
  * Creates a cleanup function for event handlers
  */
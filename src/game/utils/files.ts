@@ -0,0 +1,49 @@
+// src/game/utils/files.ts
+
+export interface PickedFile {
+    name: string;
+    text: string;
+}
+
+/**
+ * Opens the browser file picker and reads the chosen file as text.
+ * Resolves to null if the player cancels.
+ */
+export function pickTextFile(accept: string): Promise<PickedFile | null> {
+    return new Promise((resolve, reject) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = accept;
+
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (!file) {
+                resolve(null);
+                return;
+            }
+            file.text()
+                .then(text => resolve({ name: file.name, text }))
+                .catch(reject);
+        });
+        input.addEventListener('cancel', () => resolve(null));
+
+        input.click();
+    });
+}
+
+/**
+ * Saves text as a download with the given file name
+ */
+export function downloadTextFile(
+    fileName: string,
+    text: string,
+    mimeType: string = 'text/plain'
+): void {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
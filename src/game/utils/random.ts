@@ -0,0 +1,79 @@
+// src/game/utils/random.ts
+
+// Seeds are kept short enough to read out to a class
+export const MAX_SEED = 999999;
+
+// Mixes a label into a seed (FNV-1a), so each stream gets its own sequence
+function hashSeed(seed: number, label: string): number {
+    let hash = (2166136261 ^ seed) >>> 0;
+    for (let i = 0; i < label.length; i++) {
+        hash = Math.imul(hash ^ label.charCodeAt(i), 16777619) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * Seedable random numbers (mulberry32). Runs built from the same seed get
+ * the same garden layouts, challenge timing and question order, so a class
+ * can share a garden and a bug can be replayed exactly.
+ */
+export class SeededRandom {
+    readonly seed: number;
+    private state: number;
+
+    constructor(seed: number = SeededRandom.createSeed()) {
+        this.seed = seed;
+        this.state = seed >>> 0;
+    }
+
+    // A fresh seed for a run nobody asked to repeat
+    static createSeed(): number {
+        return Math.floor(Math.random() * MAX_SEED) + 1;
+    }
+
+    /**
+     * A separate sequence for one part of the game, so drawing more numbers
+     * in one place (e.g. extra waves) doesn't shift another (e.g. questions)
+     */
+    fork(label: string): SeededRandom {
+        return new SeededRandom(hashSeed(this.seed, label));
+    }
+
+    // Float in [0, 1), like Math.random
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // Integer between min and max inclusive, like Phaser.Math.Between
+    between(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    // Shuffles in place and returns the array, like Phaser.Utils.Array.Shuffle
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.next() * (i + 1));
+            [items[i], items[j]] = [items[j], items[i]];
+        }
+        return items;
+    }
+}
+
+/**
+ * Reads a seed typed by a player or passed in the URL (`?seed=1234`)
+ * @returns The seed, or null if the value isn't one
+ */
+export function parseSeed(value: string | null | undefined): number | null {
+    const trimmed = value?.trim() ?? '';
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed <= 0xffffffff ? seed : null;
+}
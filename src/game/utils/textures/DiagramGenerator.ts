@@ -0,0 +1,135 @@
+// src/game/utils/textures/DiagramGenerator.ts
+import { BaseGenerator } from './BaseGenerator';
+import { FLOWER_DIAGRAM } from '@/game/data/flowerDiagram';
+
+/**
+ * Draws an unlabeled cross-section of a flower for labeling questions.
+ * Part positions match FLOWER_DIAGRAM.parts so markers sit on the drawing.
+ */
+export class DiagramGenerator extends BaseGenerator {
+    generate(): void {
+        const { width, height, textureKey, parts } = FLOWER_DIAGRAM;
+        const centerX = width / 2;
+        const g = this.graphics;
+
+        // Backing card so the diagram reads on the dark challenge overlay
+        g.fillStyle(0xfdf6e3, 1);
+        g.fillRoundedRect(0, 0, width, height, 16);
+        g.lineStyle(3, 0x8b5a2b, 1);
+        g.strokeRoundedRect(0, 0, width, height, 16);
+
+        // Stem and receptacle
+        g.fillStyle(0x2e8b57, 1);
+        g.fillRect(centerX - 8, 235, 16, height - 245);
+        g.fillEllipse(centerX, 232, 90, 22);
+
+        // Sepals (green, cupping the base)
+        g.fillStyle(0x3cb371, 1);
+        g.fillTriangle(
+            centerX - 10,
+            238,
+            parts.sepal.x - 20,
+            222,
+            centerX - 40,
+            250
+        );
+        g.fillTriangle(
+            centerX + 10,
+            238,
+            width - parts.sepal.x + 20,
+            222,
+            centerX + 40,
+            250
+        );
+
+        // Petals (cut open on both sides)
+        g.fillStyle(0xff8fb1, 1);
+        g.lineStyle(2, 0xc2185b, 0.8);
+        [-1, 1].forEach(side => {
+            g.beginPath();
+            g.moveTo(centerX + side * 40, 225);
+            g.lineTo(centerX + side * 125, 150);
+            g.lineTo(centerX + side * 120, 55);
+            g.lineTo(centerX + side * 70, 120);
+            g.closePath();
+            g.fillPath();
+            g.strokePath();
+        });
+
+        // Ovary with ovules
+        g.fillStyle(0x9acd32, 1);
+        g.fillEllipse(parts.ovary.x, parts.ovary.y, 56, 46);
+        g.lineStyle(2, 0x556b2f, 1);
+        g.strokeEllipse(parts.ovary.x, parts.ovary.y, 56, 46);
+        g.fillStyle(0xfffacd, 1);
+        [-12, 0, 12].forEach(dx =>
+            g.fillCircle(parts.ovary.x + dx, parts.ovary.y, 5)
+        );
+
+        // Style and stigma
+        g.fillStyle(0x9acd32, 1);
+        g.fillRect(
+            centerX - 5,
+            parts.stigma.y,
+            10,
+            parts.ovary.y - parts.stigma.y - 20
+        );
+        g.fillStyle(0x6b8e23, 1);
+        g.fillEllipse(parts.stigma.x, parts.stigma.y, 34, 16);
+
+        // Stamens: filament with an anther on top, one each side
+        [-1, 1].forEach(side => {
+            const antherX = centerX + side * (parts.anther.x - centerX);
+            g.lineStyle(4, 0xdaa520, 1);
+            g.beginPath();
+            g.moveTo(centerX + side * 22, 215);
+            g.lineTo(antherX, parts.anther.y + 10);
+            g.strokePath();
+            g.fillStyle(0xffd700, 1);
+            g.fillEllipse(antherX, parts.anther.y, 22, 30);
+            g.lineStyle(2, 0xb8860b, 1);
+            g.strokeEllipse(antherX, parts.anther.y, 22, 30);
+        });
+
+        // Outlines for the groups: the left stamen and the whole pistil.
+        // Their markers sit on these lines.
+        g.lineStyle(2, 0xb8860b, 0.7);
+        g.strokePoints(
+            [
+                { x: 86, y: 74 },
+                { x: 118, y: 74 },
+                { x: 124, y: 106 },
+                { x: 138, y: 214 },
+                { x: 124, y: 224 },
+                { x: parts.stamen.x, y: parts.stamen.y },
+                { x: 90, y: 108 },
+            ],
+            true
+        );
+        g.lineStyle(2, 0x556b2f, 0.7);
+        g.strokePoints(
+            [
+                { x: centerX - 24, y: 48 },
+                { x: centerX + 24, y: 48 },
+                { x: centerX + 24, y: 76 },
+                { x: centerX + 10, y: 80 },
+                { x: centerX + 10, y: 180 },
+                { x: centerX + 34, y: 194 },
+                { x: centerX + 34, y: 218 },
+                { x: centerX + 18, y: 236 },
+                { x: centerX - 18, y: 236 },
+                { x: centerX - 34, y: 218 },
+                { x: centerX - 34, y: 194 },
+                { x: parts.pistil.x, y: 180 },
+                { x: parts.pistil.x, y: 80 },
+                { x: centerX - 24, y: 76 },
+            ],
+            true
+        );
+
+        g.generateTexture(textureKey, width, height);
+
+        // Clean up
+        this.cleanup();
+    }
+}
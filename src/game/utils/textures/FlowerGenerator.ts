@@ -1,8 +1,27 @@
 // src/game/utils/textures/FlowerGenerator.ts
 import { BaseGenerator } from './BaseGenerator';
-import { FlowerType } from './types';
 import * as Phaser from 'phaser';
-import { getFlowerById } from '@/game/data/flowerTypes';
+import FLOWERS, {
+    FLOWER_COLORS,
+    FLOWER_COLOR_KEYS,
+    FlowerColorKey,
+    FlowerImageParams,
+    getFlowerTextureKey,
+    getSpeciesTextureKey,
+    requireFlower,
+} from '@/game/data/flowerTypes';
+
+// Species whose shape is used for the generic per-color textures
+// (used by bonus challenge answer flowers and as a spawn fallback)
+export const COLOR_TEXTURE_SPECIES: Record<FlowerColorKey, string> = {
+    red: 'red_poppy',
+    blue: 'blue_cornflower',
+    yellow: 'yellow_daffodil',
+    purple: 'purple_lilac',
+    pink: 'pink_cherry_blossom',
+    orange: 'orange_marigold',
+    white: 'white_daisy',
+};
 
 export class FlowerGenerator extends BaseGenerator {
     generate(): void {
@@ -10,87 +29,49 @@ export class FlowerGenerator extends BaseGenerator {
     }
 
     private generateFlowers(): void {
-        // Draw flowers with realistic colors based on actual flowers
-        this.drawFlower('flower_red_generated', 0xe63946, 'poppy'); // Red poppy
-        this.drawFlower('flower_blue_generated', 0x4361ee, 'cornflower'); // Blue cornflower
+        // One generic texture per color, shaped after a representative species
+        FLOWER_COLOR_KEYS.forEach(colorType => {
+            const species = requireFlower(
+                COLOR_TEXTURE_SPECIES[colorType],
+                'FlowerGenerator'
+            );
+            this.drawFlower(
+                getFlowerTextureKey(colorType),
+                FLOWER_COLORS[colorType].petalHex,
+                species.imageParams
+            );
+        });
+
+        // One texture per species, driven by its imageParams
+        FLOWERS.forEach(species => {
+            this.drawFlower(
+                getSpeciesTextureKey(species.id),
+                species.imageParams?.petalColor ??
+                    FLOWER_COLORS[species.colorType].petalHex,
+                species.imageParams
+            );
+        });
+
+        // Clean up (reports progress once for the whole generator)
+        this.cleanup();
     }
 
     private drawFlower(
         key: string,
         petalColor: number,
-        flowerId: string = 'generic'
+        imageParams: FlowerImageParams = {}
     ): void {
         const flowerSize = 48;
         const petalRadius = flowerSize * 0.35;
         const centerRadius = flowerSize * 0.15;
-        const numPetals = 6;
-
-        // Get flower data if it exists
-        const flowerData = getFlowerById(flowerId);
-
-        // Default values
-        let centerColor = 0xffd700; // Default golden center
-        let centerOutlineColor = 0x333333; // Default outline
-        let currentNumPetals = numPetals;
-        let petalLength = petalRadius * 1.3;
-        let petalWidth = petalRadius * 0.8;
-
-        // Type assertion to match our local interface definition
-        const flowerWithParams = flowerData as unknown as FlowerType;
-
-        // If flower data exists, use its parameters
-        if (flowerWithParams?.imageParams) {
-            if (flowerWithParams.imageParams.petalLength) {
-                petalLength =
-                    petalRadius * flowerWithParams.imageParams.petalLength;
-            }
-            if (flowerWithParams.imageParams.petalWidth) {
-                petalWidth =
-                    petalRadius * flowerWithParams.imageParams.petalWidth;
-            }
-            if (flowerWithParams.imageParams.numPetals) {
-                currentNumPetals = flowerWithParams.imageParams.numPetals;
-            }
-            if (flowerWithParams.imageParams.centerColor) {
-                centerColor = flowerWithParams.imageParams.centerColor;
-            }
-        } else {
-            // Fallback behavior based on flower type category
-            if (
-                flowerId === 'poppy' ||
-                flowerId === 'rose' ||
-                flowerId === 'tulip'
-            ) {
-                centerColor = 0x4d3319; // Dark brown center for red flowers
-                centerOutlineColor = 0x231709; // Darker outline
-            } else if (
-                flowerId === 'cornflower' ||
-                flowerId === 'bluebell' ||
-                flowerId === 'delphinium'
-            ) {
-                centerColor = 0xffde59; // Yellow-gold center for blue flowers
-                centerOutlineColor = 0x8c7800; // Darker yellow outline
-            }
 
-            // Legacy petal shape adjustments for backward compatibility
-            if (flowerId === 'poppy') {
-                petalLength = petalRadius * 1.5; // Longer petals for poppies
-                petalWidth = petalRadius * 0.9; // Wider petals
-                currentNumPetals = 4; // Poppies typically have 4 petals
-            } else if (flowerId === 'rose') {
-                petalLength = petalRadius * 1.2; // Shorter, more compact petals
-                petalWidth = petalRadius * 1.0; // Wider, rounder petals
-                currentNumPetals = 8; // More petals for roses
-            } else if (flowerId === 'cornflower') {
-                petalLength = petalRadius * 1.4; // Elongated petals
-                petalWidth = petalRadius * 0.7; // Thinner petals
-                currentNumPetals = 8; // Cornflowers have many petals
-            } else if (flowerId === 'bluebell') {
-                petalLength = petalRadius * 1.3; // Adjustments for bluebells
-                petalWidth = petalRadius * 0.75; // Narrower petals
-                currentNumPetals = 6; // Bluebells have 6 petals
-            }
-        }
+        // Species parameters, falling back to a generic six-petal flower
+        const centerColor = imageParams.centerColor ?? 0xffd700; // Default golden center
+        const centerOutlineColor = imageParams.centerOutlineColor ?? 0x333333; // Default outline
+        const currentNumPetals = imageParams.numPetals ?? 6;
+        const petalLength = petalRadius * (imageParams.petalLength ?? 1.3);
+        const petalWidth = petalRadius * (imageParams.petalWidth ?? 0.8);
+        const veinColor = imageParams.veinColor;
 
         // Draw flower center with a subtle gradient effect
         this.graphics.fillStyle(centerColor, 1);
@@ -151,12 +132,8 @@ export class FlowerGenerator extends BaseGenerator {
             this.graphics.strokePath();
 
             // Add vein/highlight to petal for more detail and realism
-            if (flowerId !== 'generic') {
-                this.graphics.lineStyle(
-                    1,
-                    flowerId.includes('blue') ? 0x3a86ff : 0xffd6a5,
-                    0.3
-                );
+            if (veinColor !== undefined) {
+                this.graphics.lineStyle(1, veinColor, 0.3);
                 const veinStart = {
                     x: flowerSize / 2 + Math.cos(angle) * (centerRadius * 0.9),
                     y: flowerSize / 2 + Math.sin(angle) * (centerRadius * 0.9),
@@ -175,6 +152,5 @@ export class FlowerGenerator extends BaseGenerator {
         // Generate the texture
         this.graphics.generateTexture(key, flowerSize, flowerSize);
         this.graphics.clear();
-        if (this.updateProgress) this.updateProgress();
     }
 }
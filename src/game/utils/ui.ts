@@ -186,3 +186,217 @@ export function createStyledText(
 ): Phaser.GameObjects.Text {
     return scene.add.text(x, y, text, TEXT_STYLES[style]).setOrigin(0.5);
 }
+
+/**
+ * A settings control with a programmatic setter (used when values load late)
+ */
+export interface SettingControl<T> {
+    container: Phaser.GameObjects.Container;
+    setValue: (value: T) => void;
+}
+
+export interface SliderConfig {
+    min: number;
+    max: number;
+    value: number;
+    step?: number;
+    width?: number;
+    onChange: (value: number) => void;
+}
+
+/**
+ * Creates a horizontal slider with a draggable handle and value readout.
+ * (x, y) is the left end of the track.
+ */
+export function createSlider(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    config: SliderConfig
+): SettingControl<number> {
+    const { min, max, step = 1, width = 200, onChange } = config;
+    const container = scene.add.container(x, y);
+
+    const track = scene.add.graphics();
+    const handle = scene.add
+        .circle(0, 0, 12, 0xffd700)
+        .setStrokeStyle(2, 0x8b4513);
+    const valueText = scene.add
+        .text(width + 28, 0, '', TEXT_STYLES.body)
+        .setOrigin(0, 0.5);
+    container.add([track, handle, valueText]);
+
+    let currentValue = config.value;
+
+    const redraw = () => {
+        const ratio = (currentValue - min) / (max - min);
+        track.clear();
+        // Background track
+        track.fillStyle(0x000000, 0.5);
+        track.fillRoundedRect(0, -5, width, 10, 5);
+        // Filled portion
+        track.fillStyle(0x2e8b57, 1);
+        track.fillRoundedRect(0, -5, Math.max(10, width * ratio), 10, 5);
+        handle.setX(width * ratio);
+        valueText.setText(String(currentValue));
+    };
+
+    // Converts a pointer's x position to a snapped slider value
+    const updateFromPointer = (pointer: Phaser.Input.Pointer) => {
+        const ratio = Phaser.Math.Clamp(
+            (pointer.x - container.x) / width,
+            0,
+            1
+        );
+        const snapped = Phaser.Math.Snap.To(min + ratio * (max - min), step);
+        const newValue = Phaser.Math.Clamp(snapped, min, max);
+        if (newValue === currentValue) return;
+        currentValue = newValue;
+        redraw();
+        onChange(currentValue);
+    };
+
+    // Clicking anywhere on the track jumps there
+    const hitArea = scene.add
+        .rectangle(width / 2, 0, width + 24, 30, 0x000000, 0)
+        .setInteractive({ useHandCursor: true });
+    container.addAt(hitArea, 0);
+    hitArea.on('pointerdown', updateFromPointer);
+
+    handle.setInteractive({ useHandCursor: true, draggable: true });
+    handle.on('drag', updateFromPointer);
+
+    redraw();
+
+    return {
+        container,
+        setValue: (value: number) => {
+            currentValue = Phaser.Math.Clamp(value, min, max);
+            redraw();
+        },
+    };
+}
+
+/**
+ * Creates an On/Off toggle switch. (x, y) is the left edge of the switch.
+ */
+export function createToggle(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    initialValue: boolean,
+    onChange: (value: boolean) => void
+): SettingControl<boolean> {
+    const container = scene.add.container(x, y);
+    const switchWidth = 60;
+    const switchHeight = 28;
+
+    const background = scene.add.graphics();
+    const knob = scene.add.circle(0, 0, switchHeight / 2 - 4, 0xffffff);
+    const label = scene.add
+        .text(switchWidth + 16, 0, '', TEXT_STYLES.body)
+        .setOrigin(0, 0.5);
+    container.add([background, knob, label]);
+
+    let currentValue = initialValue;
+
+    const redraw = () => {
+        background.clear();
+        background.fillStyle(currentValue ? 0x2e8b57 : 0x555555, 1);
+        background.fillRoundedRect(
+            0,
+            -switchHeight / 2,
+            switchWidth,
+            switchHeight,
+            switchHeight / 2
+        );
+        scene.tweens.killTweensOf(knob);
+        scene.tweens.add({
+            targets: knob,
+            x: currentValue ? switchWidth - switchHeight / 2 : switchHeight / 2,
+            duration: 120,
+            ease: 'Sine.easeInOut',
+        });
+        label.setText(currentValue ? 'On' : 'Off');
+    };
+
+    const hitArea = scene.add
+        .rectangle(switchWidth / 2, 0, switchWidth, switchHeight, 0x000000, 0)
+        .setInteractive({ useHandCursor: true });
+    container.add(hitArea);
+    hitArea.on('pointerdown', () => {
+        currentValue = !currentValue;
+        redraw();
+        onChange(currentValue);
+    });
+
+    knob.setX(currentValue ? switchWidth - switchHeight / 2 : switchHeight / 2);
+    redraw();
+
+    return {
+        container,
+        setValue: (value: boolean) => {
+            currentValue = value;
+            redraw();
+        },
+    };
+}
+
+/**
+ * Creates a row of mutually exclusive option buttons. (x, y) is the left edge.
+ */
+export function createOptionSelector<T extends string>(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    options: readonly T[],
+    initialValue: T,
+    onChange: (value: T) => void
+): SettingControl<T> {
+    const container = scene.add.container(x, y);
+    const selectedColor = '#2E8B57';
+    const idleColor = '#555555';
+
+    let currentValue = initialValue;
+    let offsetX = 0;
+
+    const buttons = options.map(option => {
+        const button = scene.add
+            .text(offsetX, 0, option, {
+                ...TEXT_STYLES.body,
+                backgroundColor: idleColor,
+                padding: { x: 14, y: 6 },
+            })
+            .setOrigin(0, 0.5);
+        offsetX += button.width + 10;
+        container.add(button);
+
+        addButtonInteractions(button, scene, {
+            onClick: () => {
+                if (option === currentValue) return;
+                currentValue = option;
+                redraw();
+                onChange(option);
+            },
+        });
+        return button;
+    });
+
+    const redraw = () => {
+        buttons.forEach((button, i) => {
+            button.setBackgroundColor(
+                options[i] === currentValue ? selectedColor : idleColor
+            );
+        });
+    };
+
+    redraw();
+
+    return {
+        container,
+        setValue: (value: T) => {
+            currentValue = value;
+            redraw();
+        },
+    };
+}
@@ -1,239 +1,749 @@
 // src/services/StorageService.ts
-interface GameScore {
-    id?: number;
-    score: number;
-    date: Date;
-    completedFlowers: number;
-    totalTime: number;
+import { STORE_NAMES } from './migrations';
+import { IndexedDBBackend } from './backends/IndexedDBBackend';
+import { LocalStorageBackend } from './backends/LocalStorageBackend';
+import { MemoryBackend } from './backends/MemoryBackend';
+import {
+    StorageBackend,
+    StorageBackendKind,
+    WriteOperation,
+} from './backends/StorageBackend';
+import {
+    AchievementRecord,
+    AchievementRecordSchema,
+    AchievementStats,
+    DEFAULT_PROFILE_ID,
+    DailyResult,
+    DailyResultSchema,
+    FlowerCollectionEntry,
+    FlowerCollectionEntrySchema,
+    GameProgress,
+    GameProgressSchema,
+    GameScore,
+    GameScoreSchema,
+    ImportMode,
+    PlayerProfile,
+    PlayerProfileSchema,
+    ProfileData,
+    QuestionBankRecord,
+    QuestionBankRecordSchema,
+    QuizStatsRecord,
+    QuizStatsRecordSchema,
+    ReplayRecord,
+    ReplayRecordSchema,
+    ScoreFilter,
+    parseRecord,
+    parseRecords,
+} from './storageSchemas';
+
+export { DEFAULT_PROFILE_ID };
+
+// Copy of a record without its id, so the store assigns a fresh one
+function withoutId<T extends { id?: number }>(record: T): Omit<T, 'id'> {
+    const copy = { ...record };
+    delete copy.id;
+    return copy;
 }
 
-interface GameProgress {
-    id?: number;
-    currentLevel?: number;
-    lastPlayed: Date;
-    settings?: {
-        musicVolume?: number;
-        soundVolume?: number;
-        difficulty?: string;
-        knowledgeNectar?: boolean;
+/**
+ * What a merge import writes: scores not already saved, each discovered
+ * species with the larger count, and current settings topped up with
+ * imported ones. Importing the same file twice changes nothing.
+ */
+function mergeProfileData(
+    existing: ProfileData,
+    imported: ProfileData
+): ProfileData {
+    const scoreKey = (score: GameScore) =>
+        `${score.date.getTime()}:${score.score}`;
+    const savedScores = new Set(existing.scores.map(scoreKey));
+
+    const collection = imported.collection.map(entry => {
+        const current = existing.collection.find(
+            e => e.flowerId === entry.flowerId
+        );
+        if (!current) return entry;
+        return {
+            ...current,
+            collectionCount: Math.max(
+                current.collectionCount,
+                entry.collectionCount
+            ),
+            firstDiscovered:
+                entry.firstDiscovered < current.firstDiscovered
+                    ? entry.firstDiscovered
+                    : current.firstDiscovered,
+            lastCollected:
+                entry.lastCollected > current.lastCollected
+                    ? entry.lastCollected
+                    : current.lastCollected,
+        };
+    });
+
+    const progress =
+        existing.progress && imported.progress
+            ? {
+                  ...existing.progress,
+                  settings: {
+                      ...imported.progress.settings,
+                      ...existing.progress.settings,
+                  },
+              }
+            : (existing.progress ?? imported.progress);
+
+    return {
+        scores: imported.scores.filter(
+            score => !savedScores.has(scoreKey(score))
+        ),
+        progress,
+        collection,
     };
 }
 
+/**
+ * The best storage this browser offers: IndexedDB, else localStorage, else
+ * memory (private browsing, SSR and tests can lack either)
+ */
+async function openBackend(): Promise<StorageBackend> {
+    try {
+        return await IndexedDBBackend.open();
+    } catch (error) {
+        console.warn('IndexedDB unavailable, trying localStorage:', error);
+    }
+    try {
+        return LocalStorageBackend.open();
+    } catch (error) {
+        console.warn(
+            "localStorage unavailable, progress won't be saved:",
+            error
+        );
+    }
+    return new MemoryBackend();
+}
+
 class StorageService {
-    private readonly DB_NAME = 'pollinationGame';
-    private readonly DB_VERSION = 1; // Increment if schema changes (though adding optional field might not strictly require it)
-    private readonly SCORES_STORE = 'scores';
-    private readonly PROGRESS_STORE = 'progress';
-    private db: IDBDatabase | null = null;
-    private dbReady: Promise<boolean>;
-    private dbReadyResolver!: (value: boolean) => void;
+    private readonly SCORES_STORE = STORE_NAMES.scores;
+    private readonly PROGRESS_STORE = STORE_NAMES.progress;
+    private readonly COLLECTION_STORE = STORE_NAMES.collection;
+    private readonly QUESTION_BANKS_STORE = STORE_NAMES.questionBanks;
+    private readonly PROFILES_STORE = STORE_NAMES.profiles;
+    private readonly QUIZ_STATS_STORE = STORE_NAMES.quizStats;
+    private readonly ACHIEVEMENTS_STORE = STORE_NAMES.achievements;
+    private readonly DAILY_RESULTS_STORE = STORE_NAMES.dailyResults;
+    private readonly REPLAYS_STORE = STORE_NAMES.replays;
+    // Older replays are dropped past this many per profile
+    private readonly MAX_REPLAYS = 30;
+    private readonly backend: Promise<StorageBackend>;
+    // Scores, progress (including settings) and discoveries are per profile
+    private activeProfileId: number = DEFAULT_PROFILE_ID;
 
     constructor() {
-        this.dbReady = new Promise<boolean>(resolve => {
-            this.dbReadyResolver = resolve;
+        this.backend = openBackend();
+        this.backend.then(backend => {
+            console.log(`Storage ready (${backend.kind})`);
         });
-        this.initDB();
     }
 
-    private initDB(): void {
-        if (!window.indexedDB) {
-            console.warn('IndexedDB is not supported in this browser');
-            this.dbReadyResolver(false);
-            return;
+    /**
+     * Which backend is in use, and whether what's saved survives a reload
+     */
+    async getStorageStatus(): Promise<{
+        kind: StorageBackendKind;
+        isPersistent: boolean;
+    }> {
+        const { kind, isPersistent } = await this.backend;
+        return { kind, isPersistent };
+    }
+
+    /**
+     * Switch the profile that scores, progress, settings and discoveries
+     * are read from and saved to
+     */
+    setActiveProfile(profileId: number): void {
+        this.activeProfileId = profileId;
+    }
+
+    getActiveProfileId(): number {
+        return this.activeProfileId;
+    }
+
+    async saveScore(score: GameScore): Promise<number> {
+        try {
+            const backend = await this.backend;
+            return (await backend.put(this.SCORES_STORE, {
+                ...score,
+                profileId: this.activeProfileId,
+            })) as number;
+        } catch (error) {
+            console.error('Error saving score:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * The active profile's best runs, highest score first. Runs saved
+     * before difficulty and mode were recorded only show unfiltered.
+     */
+    async getHighScores(
+        limit = 5,
+        { difficulty, mode }: ScoreFilter = {}
+    ): Promise<GameScore[]> {
+        try {
+            const backend = await this.backend;
+            const profileId = this.activeProfileId;
+            const records = await backend.getAll(this.SCORES_STORE, {
+                index: 'profileScore',
+                range: {
+                    lower: [profileId, -Infinity],
+                    upper: [profileId, Infinity],
+                },
+                direction: 'prev',
+                filter: record => {
+                    const score = record as GameScore;
+                    return (
+                        (!difficulty || score.difficulty === difficulty) &&
+                        (!mode || score.mode === mode)
+                    );
+                },
+                limit,
+            });
+            return parseRecords(GameScoreSchema, records, this.SCORES_STORE);
+        } catch (error) {
+            console.error('Error getting high scores:', error);
+            throw error;
         }
+    }
 
-        const request = window.indexedDB.open(this.DB_NAME, this.DB_VERSION);
+    async saveProgress(progress: GameProgress): Promise<number> {
+        try {
+            const backend = await this.backend;
+            progress.id = this.activeProfileId; // One progress record per profile
+            progress.lastPlayed = new Date(); // Ensure lastPlayed is updated on every save
+            return (await backend.put(this.PROGRESS_STORE, progress)) as number;
+        } catch (error) {
+            console.error('Error saving progress:', error);
+            throw error;
+        }
+    }
 
-        request.onerror = event => {
-            console.error('IndexedDB error:', event);
-            this.dbReadyResolver(false);
-        };
+    async getProgress(): Promise<GameProgress | null> {
+        try {
+            const backend = await this.backend;
+            const record = await backend.get(
+                this.PROGRESS_STORE,
+                this.activeProfileId
+            );
+            return record === undefined
+                ? null
+                : parseRecord(GameProgressSchema, record, this.PROGRESS_STORE);
+        } catch (error) {
+            console.error('Error getting progress:', error);
+            throw error;
+        }
+    }
 
-        request.onsuccess = event => {
-            this.db = (event.target as IDBOpenDBRequest).result;
-            console.log('IndexedDB connected successfully');
-            this.dbReadyResolver(true);
-        };
+    async recordFlowerCollected(
+        flowerId: string
+    ): Promise<FlowerCollectionEntry | null> {
+        try {
+            const backend = await this.backend;
+            const profileId = this.activeProfileId;
+            // Read-modify-write as one step so rapid pollinations can't lose
+            // an increment
+            return await backend.update(
+                this.COLLECTION_STORE,
+                [profileId, flowerId],
+                (current): FlowerCollectionEntry => {
+                    const existing =
+                        current === undefined
+                            ? null
+                            : parseRecord(
+                                  FlowerCollectionEntrySchema,
+                                  current,
+                                  this.COLLECTION_STORE
+                              );
+                    const now = new Date();
+                    return {
+                        profileId,
+                        flowerId,
+                        collectionCount: (existing?.collectionCount ?? 0) + 1,
+                        firstDiscovered: existing?.firstDiscovered ?? now,
+                        lastCollected: now,
+                    };
+                }
+            );
+        } catch (error) {
+            console.error('Error recording flower:', error);
+            throw error;
+        }
+    }
 
-        request.onupgradeneeded = event => {
-            const db = (event.target as IDBOpenDBRequest).result;
+    async getFlowerCollection(): Promise<FlowerCollectionEntry[]> {
+        try {
+            const backend = await this.backend;
+            const records = await backend.getAll(this.COLLECTION_STORE, {
+                index: 'profileId',
+                value: this.activeProfileId,
+            });
+            return parseRecords(
+                FlowerCollectionEntrySchema,
+                records,
+                this.COLLECTION_STORE
+            );
+        } catch (error) {
+            console.error('Error getting flower collection:', error);
+            throw error;
+        }
+    }
 
-            // Create scores object store
-            if (!db.objectStoreNames.contains(this.SCORES_STORE)) {
-                const scoresStore = db.createObjectStore(this.SCORES_STORE, {
-                    keyPath: 'id',
-                    autoIncrement: true,
-                });
-                scoresStore.createIndex('score', 'score', { unique: false });
-                scoresStore.createIndex('date', 'date', { unique: false });
-            }
+    async saveQuestionBank(bank: QuestionBankRecord): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            await backend.put(this.QUESTION_BANKS_STORE, bank);
+            return true;
+        } catch (error) {
+            console.error('Error saving question bank:', error);
+            throw error;
+        }
+    }
+
+    async getQuestionBanks(): Promise<QuestionBankRecord[]> {
+        try {
+            const backend = await this.backend;
+            const records = await backend.getAll(this.QUESTION_BANKS_STORE);
+            return parseRecords(
+                QuestionBankRecordSchema,
+                records,
+                this.QUESTION_BANKS_STORE
+            );
+        } catch (error) {
+            console.error('Error getting question banks:', error);
+            throw error;
+        }
+    }
+
+    async deleteQuestionBank(id: string): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            await backend.write([
+                { type: 'delete', store: this.QUESTION_BANKS_STORE, key: id },
+            ]);
+            return true;
+        } catch (error) {
+            console.error('Error deleting question bank:', error);
+            throw error;
+        }
+    }
+
+    async getProfiles(): Promise<PlayerProfile[]> {
+        try {
+            const backend = await this.backend;
+            const records = await backend.getAll(this.PROFILES_STORE);
+            return parseRecords(
+                PlayerProfileSchema,
+                records,
+                this.PROFILES_STORE
+            );
+        } catch (error) {
+            console.error('Error getting profiles:', error);
+            throw error;
+        }
+    }
+
+    async saveProfile(profile: PlayerProfile): Promise<number> {
+        try {
+            const backend = await this.backend;
+            // Adds when id is unset
+            return (await backend.put(this.PROFILES_STORE, profile)) as number;
+        } catch (error) {
+            console.error('Error saving profile:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a profile together with its scores, progress, quiz stats,
+     * achievements and discoveries
+     */
+    async deleteProfile(profileId: number): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            const { scores, collection } = await this.readProfileData(
+                backend,
+                profileId
+            );
+            const dailyResults = await backend.getAll(
+                this.DAILY_RESULTS_STORE,
+                { index: 'profileId', value: profileId }
+            );
+            const replays = await backend.getAll(this.REPLAYS_STORE, {
+                index: 'profileDate',
+                range: { lower: [profileId], upper: [profileId, []] },
+            });
+
+            // Remove everything together
+            await backend.write([
+                { type: 'delete', store: this.PROFILES_STORE, key: profileId },
+                { type: 'delete', store: this.PROGRESS_STORE, key: profileId },
+                {
+                    type: 'delete',
+                    store: this.QUIZ_STATS_STORE,
+                    key: profileId,
+                },
+                {
+                    type: 'delete',
+                    store: this.ACHIEVEMENTS_STORE,
+                    key: profileId,
+                },
+                ...this.deleteOperations(profileId, scores, collection),
+                ...(dailyResults as DailyResult[]).map(
+                    (result): WriteOperation => ({
+                        type: 'delete',
+                        store: this.DAILY_RESULTS_STORE,
+                        key: [profileId, result.date],
+                    })
+                ),
+                ...(replays as ReplayRecord[]).map(
+                    (replay): WriteOperation => ({
+                        type: 'delete',
+                        store: this.REPLAYS_STORE,
+                        key: replay.id!,
+                    })
+                ),
+            ]);
+            return true;
+        } catch (error) {
+            console.error('Error deleting profile:', error);
+            throw error;
+        }
+    }
 
-            // Create/update progress object store
-            // NOTE: If you change the structure significantly in the future (e.g., add indexes),
-            // you might need to delete and recreate the store or handle migrations more carefully.
-            if (!db.objectStoreNames.contains(this.PROGRESS_STORE)) {
-                db.createObjectStore(this.PROGRESS_STORE, {
-                    keyPath: 'id',
-                    autoIncrement: true, // Although we only use id=1
+    /**
+     * Everything saved for the active profile, for writing to a save file
+     */
+    async exportProfileData(): Promise<ProfileData> {
+        try {
+            const backend = await this.backend;
+            return await this.readProfileData(backend, this.activeProfileId);
+        } catch (error) {
+            console.error('Error exporting profile data:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Write data from a save file into the active profile. 'replace' drops
+     * what the profile had first; 'merge' keeps it and adds what's new.
+     */
+    async importProfileData(
+        data: ProfileData,
+        mode: ImportMode
+    ): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            const profileId = this.activeProfileId;
+            const existing = await this.readProfileData(backend, profileId);
+            const merged =
+                mode === 'replace' ? data : mergeProfileData(existing, data);
+
+            const operations: WriteOperation[] =
+                mode === 'replace'
+                    ? [
+                          ...this.deleteOperations(
+                              profileId,
+                              existing.scores,
+                              existing.collection
+                          ),
+                          {
+                              type: 'delete',
+                              store: this.PROGRESS_STORE,
+                              key: profileId,
+                          },
+                      ]
+                    : [];
+            // Merged scores are only the new ones
+            merged.scores.forEach(score =>
+                operations.push({
+                    type: 'put',
+                    store: this.SCORES_STORE,
+                    record: { ...withoutId(score), profileId },
+                })
+            );
+            merged.collection.forEach(entry =>
+                operations.push({
+                    type: 'put',
+                    store: this.COLLECTION_STORE,
+                    record: { ...entry, profileId },
+                })
+            );
+            if (merged.progress) {
+                operations.push({
+                    type: 'put',
+                    store: this.PROGRESS_STORE,
+                    record: { ...merged.progress, id: profileId },
                 });
             }
-            // If the store exists, no action needed here for adding an optional property to the stored object.
-        };
+
+            await backend.write(operations);
+            return true;
+        } catch (error) {
+            console.error('Error importing profile data:', error);
+            throw error;
+        }
     }
 
-    private async waitForDB(): Promise<boolean> {
-        return this.dbReady;
+    async getQuizStats(): Promise<QuizStatsRecord | null> {
+        try {
+            const backend = await this.backend;
+            const record = await backend.get(
+                this.QUIZ_STATS_STORE,
+                this.activeProfileId
+            );
+            return record === undefined
+                ? null
+                : parseRecord(
+                      QuizStatsRecordSchema,
+                      record,
+                      this.QUIZ_STATS_STORE
+                  );
+        } catch (error) {
+            console.error('Error getting quiz stats:', error);
+            throw error;
+        }
     }
 
-    async saveScore(score: GameScore): Promise<number> {
-        const isReady = await this.waitForDB();
-        if (!isReady || !this.db) {
-            console.warn('Database not ready, could not save score');
-            return -1;
+    async saveQuizStats(
+        stats: Omit<QuizStatsRecord, 'profileId'>
+    ): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            await backend.put(this.QUIZ_STATS_STORE, {
+                ...stats,
+                profileId: this.activeProfileId,
+            });
+            return true;
+        } catch (error) {
+            console.error('Error saving quiz stats:', error);
+            throw error;
         }
+    }
 
-        return new Promise<number>((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction(
-                    [this.SCORES_STORE],
-                    'readwrite'
-                );
-                const store = transaction.objectStore(this.SCORES_STORE);
-                const request = store.add(score);
-
-                request.onsuccess = () => {
-                    resolve(request.result as number);
-                };
-
-                request.onerror = event => {
-                    console.error('Error saving score:', event);
-                    reject(`Failed to save score: ${request.error?.message}`);
-                };
-            } catch (error) {
-                console.error('Exception while saving score:', error);
-                reject(error);
-            }
-        });
+    async getAchievements(): Promise<AchievementRecord | null> {
+        try {
+            const backend = await this.backend;
+            const record = await backend.get(
+                this.ACHIEVEMENTS_STORE,
+                this.activeProfileId
+            );
+            return record === undefined
+                ? null
+                : parseRecord(
+                      AchievementRecordSchema,
+                      record,
+                      this.ACHIEVEMENTS_STORE
+                  );
+        } catch (error) {
+            console.error('Error getting achievements:', error);
+            throw error;
+        }
     }
 
-    async getHighScores(limit = 5): Promise<GameScore[]> {
-        const isReady = await this.waitForDB();
-        if (!isReady || !this.db) {
-            console.warn('Database not ready, could not retrieve high scores');
-            return [];
+    async saveAchievements(
+        achievements: Omit<AchievementRecord, 'profileId'>
+    ): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            await backend.put(this.ACHIEVEMENTS_STORE, {
+                ...achievements,
+                profileId: this.activeProfileId,
+            });
+            return true;
+        } catch (error) {
+            console.error('Error saving achievements:', error);
+            throw error;
         }
+    }
 
-        return new Promise<GameScore[]>((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction(
-                    [this.SCORES_STORE],
-                    'readonly'
-                );
-                const store = transaction.objectStore(this.SCORES_STORE);
-                const index = store.index('score');
-                const request = index.openCursor(null, 'prev');
-
-                const highScores: GameScore[] = [];
-
-                request.onsuccess = event => {
-                    const cursor = (
-                        event.target as IDBRequest<IDBCursorWithValue>
-                    ).result;
-                    if (cursor && highScores.length < limit) {
-                        highScores.push(cursor.value);
-                        cursor.continue();
-                    } else {
-                        resolve(highScores);
-                    }
-                };
-
-                request.onerror = event => {
-                    console.error('Error getting high scores:', event);
-                    reject(
-                        `Failed to get high scores: ${request.error?.message}`
-                    );
-                };
-            } catch (error) {
-                console.error('Exception while getting high scores:', error);
-                reject(error);
-            }
-        });
+    /**
+     * The active profile's Daily Garden attempt for a day, if there was one
+     * @param date Local day, YYYY-MM-DD
+     */
+    async getDailyResult(date: string): Promise<DailyResult | null> {
+        try {
+            const backend = await this.backend;
+            const record = await backend.get(this.DAILY_RESULTS_STORE, [
+                this.activeProfileId,
+                date,
+            ]);
+            return record === undefined
+                ? null
+                : parseRecord(
+                      DailyResultSchema,
+                      record,
+                      this.DAILY_RESULTS_STORE
+                  );
+        } catch (error) {
+            console.error('Error getting daily result:', error);
+            throw error;
+        }
     }
 
-    async saveProgress(progress: GameProgress): Promise<number> {
-        const isReady = await this.waitForDB();
-        if (!isReady || !this.db) {
-            console.warn('Database not ready, could not save progress');
-            return -1;
+    // Every Daily Garden attempt by the active profile, oldest day first
+    async getDailyResults(): Promise<DailyResult[]> {
+        try {
+            const backend = await this.backend;
+            const records = await backend.getAll(this.DAILY_RESULTS_STORE, {
+                index: 'profileId',
+                value: this.activeProfileId,
+            });
+            return parseRecords(
+                DailyResultSchema,
+                records,
+                this.DAILY_RESULTS_STORE
+            );
+        } catch (error) {
+            console.error('Error getting daily results:', error);
+            throw error;
         }
+    }
 
-        return new Promise<number>((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction(
-                    [this.PROGRESS_STORE],
-                    'readwrite'
-                );
-                const store = transaction.objectStore(this.PROGRESS_STORE);
-
-                progress.id = 1; // Always use ID 1 for the single progress record
-                progress.lastPlayed = new Date(); // Ensure lastPlayed is updated on every save
-                const request = store.put(progress);
-
-                request.onsuccess = () => {
-                    resolve(request.result as number);
-                };
-
-                request.onerror = event => {
-                    console.error('Error saving progress:', event);
-                    reject(
-                        `Failed to save progress: ${request.error?.message}`
-                    );
-                };
-            } catch (error) {
-                console.error('Exception while saving progress:', error);
-                reject(error);
-            }
-        });
+    async saveDailyResult(
+        result: Omit<DailyResult, 'profileId'>
+    ): Promise<boolean> {
+        try {
+            const backend = await this.backend;
+            await backend.put(this.DAILY_RESULTS_STORE, {
+                ...result,
+                profileId: this.activeProfileId,
+            });
+            return true;
+        } catch (error) {
+            console.error('Error saving daily result:', error);
+            throw error;
+        }
     }
 
-    async getProgress(): Promise<GameProgress | null> {
-        const isReady = await this.waitForDB();
-        if (!isReady || !this.db) {
-            console.warn('Database not ready, could not retrieve progress');
-            return null;
+    /**
+     * Finished Daily Garden runs for a day by every profile on this device,
+     * highest score first (everyone played the same garden)
+     * @param date Local day, YYYY-MM-DD
+     */
+    async getDailyLeaderboard(date: string, limit = 5): Promise<DailyResult[]> {
+        try {
+            const backend = await this.backend;
+            const records = await backend.getAll(this.DAILY_RESULTS_STORE, {
+                index: 'dateScore',
+                range: { lower: [date, -Infinity], upper: [date, Infinity] },
+                direction: 'prev',
+                filter: record => (record as DailyResult).finished,
+                limit,
+            });
+            return parseRecords(
+                DailyResultSchema,
+                records,
+                this.DAILY_RESULTS_STORE
+            );
+        } catch (error) {
+            console.error('Error getting daily leaderboard:', error);
+            throw error;
         }
+    }
 
-        return new Promise<GameProgress | null>((resolve, reject) => {
-            try {
-                const transaction = this.db!.transaction(
-                    [this.PROGRESS_STORE],
-                    'readonly'
-                );
-                const store = transaction.objectStore(this.PROGRESS_STORE);
-                const request = store.get(1); // Always get ID 1
-
-                request.onsuccess = () => {
-                    // Ensure date objects are correctly deserialized if stored as strings (IndexedDB handles Dates)
-                    const result = request.result as GameProgress | undefined;
-                    resolve(result || null);
-                };
-
-                request.onerror = event => {
-                    console.error('Error getting progress:', event);
-                    reject(`Failed to get progress: ${request.error?.message}`);
-                };
-            } catch (error) {
-                console.error('Exception while getting progress:', error);
-                reject(error);
-            }
-        });
+    /**
+     * Save a recorded run for the active profile, dropping the oldest ones
+     * past MAX_REPLAYS
+     */
+    async saveReplay(
+        replay: Omit<ReplayRecord, 'id' | 'profileId'>
+    ): Promise<number> {
+        try {
+            const backend = await this.backend;
+            const profileId = this.activeProfileId;
+            const id = (await backend.put(this.REPLAYS_STORE, {
+                ...replay,
+                profileId,
+            })) as number;
+
+            const expired = await backend.getAll(this.REPLAYS_STORE, {
+                index: 'profileDate',
+                range: { lower: [profileId], upper: [profileId, []] },
+                direction: 'prev',
+            });
+            await backend.write(
+                (expired as ReplayRecord[])
+                    .slice(this.MAX_REPLAYS)
+                    .map(old => ({
+                        type: 'delete',
+                        store: this.REPLAYS_STORE,
+                        key: old.id!,
+                    }))
+            );
+            return id;
+        } catch (error) {
+            console.error('Error saving replay:', error);
+            throw error;
+        }
+    }
+
+    // The active profile's recorded runs, newest first
+    async getReplays(limit = this.MAX_REPLAYS): Promise<ReplayRecord[]> {
+        try {
+            const backend = await this.backend;
+            const profileId = this.activeProfileId;
+            const records = await backend.getAll(this.REPLAYS_STORE, {
+                index: 'profileDate',
+                range: { lower: [profileId], upper: [profileId, []] },
+                direction: 'prev',
+                limit,
+            });
+            return parseRecords(
+                ReplayRecordSchema,
+                records,
+                this.REPLAYS_STORE
+            );
+        } catch (error) {
+            console.error('Error getting replays:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * The active profile's highest scoring run on a garden, for the ghost
+     * bee to race
+     */
+    async getBestReplay(
+        seed: number,
+        difficulty: string
+    ): Promise<ReplayRecord | null> {
+        try {
+            const backend = await this.backend;
+            const records = await backend.getAll(this.REPLAYS_STORE, {
+                index: 'profileSeed',
+                value: [this.activeProfileId, seed],
+                filter: record =>
+                    (record as ReplayRecord).difficulty === difficulty,
+            });
+            const replays = parseRecords(
+                ReplayRecordSchema,
+                records,
+                this.REPLAYS_STORE
+            );
+            return replays.reduce<ReplayRecord | null>(
+                (best, replay) =>
+                    !best || replay.score > best.score ? replay : best,
+                null
+            );
+        } catch (error) {
+            console.error('Error getting best replay:', error);
+            throw error;
+        }
     }
 
     async saveSettings(settings: GameProgress['settings']): Promise<boolean> {
         try {
             const progress = (await this.getProgress()) || {
                 // Provide default structure if no progress exists
-                id: 1,
+                id: this.activeProfileId,
                 lastPlayed: new Date(),
                 settings: {},
             };
@@ -251,8 +761,70 @@ class StorageService {
             return false;
         }
     }
+
+    private async readProfileData(
+        backend: StorageBackend,
+        profileId: number
+    ): Promise<ProfileData> {
+        const byProfile = { index: 'profileId', value: profileId };
+        const [scores, progress, collection] = await Promise.all([
+            backend.getAll(this.SCORES_STORE, byProfile),
+            backend.get(this.PROGRESS_STORE, profileId),
+            backend.getAll(this.COLLECTION_STORE, byProfile),
+        ]);
+        return {
+            scores: parseRecords(GameScoreSchema, scores, this.SCORES_STORE),
+            progress:
+                progress === undefined
+                    ? null
+                    : parseRecord(
+                          GameProgressSchema,
+                          progress,
+                          this.PROGRESS_STORE
+                      ),
+            collection: parseRecords(
+                FlowerCollectionEntrySchema,
+                collection,
+                this.COLLECTION_STORE
+            ),
+        };
+    }
+
+    private deleteOperations(
+        profileId: number,
+        scores: GameScore[],
+        collection: FlowerCollectionEntry[]
+    ): WriteOperation[] {
+        return [
+            ...scores.map((score): WriteOperation => ({
+                type: 'delete',
+                store: this.SCORES_STORE,
+                key: score.id!,
+            })),
+            ...collection.map((entry): WriteOperation => ({
+                type: 'delete',
+                store: this.COLLECTION_STORE,
+                key: [profileId, entry.flowerId],
+            })),
+        ];
+    }
 }
 
 const storageService = new StorageService();
 export default storageService;
-export type { GameScore, GameProgress };
+export type {
+    AchievementRecord,
+    AchievementStats,
+    DailyResult,
+    GameScore,
+    ImportMode,
+    ProfileData,
+    GameProgress,
+    FlowerCollectionEntry,
+    PlayerProfile,
+    QuestionBankRecord,
+    QuizStatsRecord,
+    ReplayRecord,
+    ScoreFilter,
+    StorageBackendKind,
+};
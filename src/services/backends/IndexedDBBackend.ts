@@ -0,0 +1,163 @@
+// src/services/backends/IndexedDBBackend.ts
+import { LATEST_DB_VERSION, runMigrations } from '../migrations';
+import {
+    RecordQuery,
+    StorageBackend,
+    StoreName,
+    WriteOperation,
+} from './StorageBackend';
+
+const DB_NAME = 'pollinationGame';
+
+/**
+ * The preferred backend: the browser's IndexedDB, upgraded through
+ * MIGRATIONS when the schema version changes
+ */
+export class IndexedDBBackend implements StorageBackend {
+    readonly kind = 'indexedDB';
+    readonly isPersistent = true;
+
+    private constructor(private readonly db: IDBDatabase) {}
+
+    /**
+     * Open (and if needed upgrade) the database
+     * @throws If IndexedDB is missing or refuses to open (e.g. some
+     * private browsing modes)
+     */
+    static open(): Promise<IndexedDBBackend> {
+        return new Promise((resolve, reject) => {
+            if (typeof window === 'undefined' || !window.indexedDB) {
+                reject(new Error('IndexedDB is not supported'));
+                return;
+            }
+
+            const request = window.indexedDB.open(DB_NAME, LATEST_DB_VERSION);
+            request.onerror = () => {
+                reject(request.error ?? new Error('IndexedDB failed to open'));
+            };
+            request.onblocked = () => {
+                console.warn(
+                    'IndexedDB upgrade is waiting for other tabs to close'
+                );
+            };
+            request.onsuccess = () => {
+                resolve(new IndexedDBBackend(request.result));
+            };
+            request.onupgradeneeded = event => {
+                runMigrations({
+                    db: request.result,
+                    transaction: request.transaction!,
+                    oldVersion: event.oldVersion,
+                });
+            };
+        });
+    }
+
+    get(store: StoreName, key: IDBValidKey): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            const request = this.db
+                .transaction(store, 'readonly')
+                .objectStore(store)
+                .get(key);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    getAll(store: StoreName, query: RecordQuery = {}): Promise<unknown[]> {
+        const {
+            index,
+            value,
+            range: bounds,
+            direction = 'next',
+            filter,
+            limit,
+        } = query;
+        return new Promise((resolve, reject) => {
+            const objectStore = this.db
+                .transaction(store, 'readonly')
+                .objectStore(store);
+            const source = index ? objectStore.index(index) : objectStore;
+            const range =
+                value !== undefined
+                    ? IDBKeyRange.only(value)
+                    : bounds
+                      ? IDBKeyRange.bound(bounds.lower, bounds.upper)
+                      : null;
+
+            // Walk a cursor so filtered, limited reads stop early
+            const records: unknown[] = [];
+            const request = source.openCursor(range, direction);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (
+                    !cursor ||
+                    (limit !== undefined && records.length >= limit)
+                ) {
+                    resolve(records);
+                    return;
+                }
+                if (!filter || filter(cursor.value)) {
+                    records.push(cursor.value);
+                }
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    put(store: StoreName, record: object): Promise<IDBValidKey> {
+        return new Promise((resolve, reject) => {
+            const request = this.db
+                .transaction(store, 'readwrite')
+                .objectStore(store)
+                .put(record);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    update<T extends object>(
+        store: StoreName,
+        key: IDBValidKey,
+        change: (current: unknown) => T
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const transaction = this.db.transaction(store, 'readwrite');
+            const objectStore = transaction.objectStore(store);
+            let updated: T;
+
+            // Read and write in one transaction so nothing lands in between
+            const getRequest = objectStore.get(key);
+            getRequest.onsuccess = () => {
+                updated = change(getRequest.result);
+                objectStore.put(updated);
+            };
+
+            transaction.oncomplete = () => resolve(updated);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    write(operations: WriteOperation[]): Promise<void> {
+        if (operations.length === 0) return Promise.resolve();
+
+        return new Promise((resolve, reject) => {
+            const stores = [...new Set(operations.map(op => op.store))];
+            const transaction = this.db.transaction(stores, 'readwrite');
+            operations.forEach(op => {
+                const objectStore = transaction.objectStore(op.store);
+                if (op.type === 'put') {
+                    objectStore.put(op.record);
+                } else {
+                    objectStore.delete(op.key);
+                }
+            });
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+}
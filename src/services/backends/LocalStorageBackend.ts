@@ -0,0 +1,61 @@
+// src/services/backends/LocalStorageBackend.ts
+import { reviveDates } from '../storageSchemas';
+import { MemoryBackend } from './MemoryBackend';
+import { STORE_KEYS, StorageBackendKind, StoreName } from './StorageBackend';
+
+const KEY_PREFIX = 'pollination_db:';
+
+/**
+ * Used when IndexedDB is unavailable but localStorage works. Each store is
+ * kept in memory and saved as one JSON array under `pollination_db:<store>`
+ * whenever it changes, which is fine for the few hundred records a player
+ * builds up but would be slow for much more.
+ */
+export class LocalStorageBackend extends MemoryBackend {
+    readonly kind: StorageBackendKind = 'localStorage';
+    readonly isPersistent: boolean = true;
+
+    private constructor(private readonly storage: Storage) {
+        super();
+        (Object.keys(STORE_KEYS) as StoreName[]).forEach(store => {
+            const table = this.getTable(store);
+            const saved = storage.getItem(KEY_PREFIX + store);
+            if (!saved) return;
+            try {
+                const records: object[] = JSON.parse(saved, reviveDates);
+                records.forEach(record => {
+                    table.set(
+                        JSON.stringify(this.keyOf(store, record)),
+                        record
+                    );
+                });
+            } catch (error) {
+                console.warn(`Ignoring unreadable saved "${store}":`, error);
+            }
+        });
+    }
+
+    /**
+     * @throws If localStorage is missing or won't accept writes (e.g.
+     * storage disabled, or Safari private browsing)
+     */
+    static open(): LocalStorageBackend {
+        if (typeof window === 'undefined' || !window.localStorage) {
+            throw new Error('localStorage is not supported');
+        }
+        const probe = `${KEY_PREFIX}probe`;
+        window.localStorage.setItem(probe, probe);
+        window.localStorage.removeItem(probe);
+        return new LocalStorageBackend(window.localStorage);
+    }
+
+    // Throws if the browser's quota is full, failing the write
+    protected onChange(stores: StoreName[]): void {
+        stores.forEach(store => {
+            this.storage.setItem(
+                KEY_PREFIX + store,
+                JSON.stringify([...this.getTable(store).values()])
+            );
+        });
+    }
+}
@@ -0,0 +1,211 @@
+// src/services/backends/MemoryBackend.ts
+import {
+    RecordQuery,
+    STORE_KEYS,
+    StorageBackend,
+    StorageBackendKind,
+    StoreName,
+    WriteOperation,
+} from './StorageBackend';
+
+type Table = Map<string, object>;
+
+// Orders keys the way IndexedDB does: numbers, then dates, then strings,
+// then arrays (element by element)
+export function compareKeys(a: unknown, b: unknown): number {
+    const rank = (key: unknown) =>
+        typeof key === 'number'
+            ? 0
+            : key instanceof Date
+              ? 1
+              : typeof key === 'string'
+                ? 2
+                : 3;
+    if (rank(a) !== rank(b)) return rank(a) - rank(b);
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const order = compareKeys(a[i], b[i]);
+            if (order !== 0) return order;
+        }
+        return a.length - b.length;
+    }
+    const left = a instanceof Date ? a.getTime() : (a as number | string);
+    const right = b instanceof Date ? b.getTime() : (b as number | string);
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Reads a record's key (an array of fields for a compound key path)
+function keyAt(record: object, keyPath: string | string[]): IDBValidKey {
+    const fields = record as Record<string, IDBValidKey>;
+    return Array.isArray(keyPath)
+        ? keyPath.map(path => fields[path])
+        : fields[keyPath];
+}
+
+// False if any part of the key is missing
+function hasKey(key: IDBValidKey | undefined): boolean {
+    const parts = Array.isArray(key) ? key : [key];
+    return parts.every(part => part !== undefined);
+}
+
+/**
+ * Keeps everything in memory, so it works anywhere (SSR, tests, browsers
+ * with storage disabled) but forgets it all on reload. Also the base for
+ * LocalStorageBackend, which saves these tables after each change.
+ */
+export class MemoryBackend implements StorageBackend {
+    readonly kind: StorageBackendKind = 'memory';
+    readonly isPersistent: boolean = false;
+    protected readonly tables = new Map<StoreName, Table>();
+    private readonly nextIds = new Map<StoreName, number>();
+
+    protected getTable(store: StoreName): Table {
+        let table = this.tables.get(store);
+        if (!table) {
+            table = new Map();
+            this.tables.set(store, table);
+        }
+        return table;
+    }
+
+    // Called after a write changes these stores
+    protected onChange(_stores: StoreName[]): void {
+        // Nothing to save in memory
+    }
+
+    protected keyOf(store: StoreName, record: object): IDBValidKey {
+        return keyAt(record, STORE_KEYS[store].keyPath);
+    }
+
+    // Stores the record, giving it an id first if the store auto-increments
+    private putRecord(store: StoreName, record: object): IDBValidKey {
+        const { keyPath, autoIncrement } = STORE_KEYS[store];
+        const stored = structuredClone(record) as Record<string, unknown>;
+        const table = this.getTable(store);
+
+        if (autoIncrement && typeof keyPath === 'string') {
+            const highest = Math.max(
+                0,
+                ...[...table.values()].map(
+                    r => (r as Record<string, number>)[keyPath]
+                )
+            );
+            const nextId = Math.max(this.nextIds.get(store) ?? 1, highest + 1);
+            if (stored[keyPath] === undefined) {
+                stored[keyPath] = nextId;
+            }
+            const id = stored[keyPath] as number;
+            this.nextIds.set(store, Math.max(nextId, id + 1));
+        }
+
+        const key = this.keyOf(store, stored);
+        if (!hasKey(key)) {
+            throw new Error(`Record for "${store}" has no key`);
+        }
+        table.set(JSON.stringify(key), stored);
+        return key;
+    }
+
+    async get(store: StoreName, key: IDBValidKey): Promise<unknown> {
+        const record = this.getTable(store).get(JSON.stringify(key));
+        return record === undefined ? undefined : structuredClone(record);
+    }
+
+    async getAll(
+        store: StoreName,
+        query: RecordQuery = {}
+    ): Promise<unknown[]> {
+        const {
+            index,
+            value,
+            range,
+            direction = 'next',
+            filter,
+            limit,
+        } = query;
+        const indexPath = index ? STORE_KEYS[store].indexes?.[index] : null;
+        if (indexPath === undefined) {
+            throw new Error(`No index "${index}" on "${store}"`);
+        }
+        const field = (record: object) =>
+            indexPath ? keyAt(record, indexPath) : undefined;
+
+        let records = [...this.getTable(store).values()];
+        if (indexPath) {
+            // Like an index, skip records that don't have the fields
+            records = records.filter(record => {
+                const key = field(record);
+                return (
+                    hasKey(key) &&
+                    (value === undefined || compareKeys(key, value) === 0) &&
+                    (range === undefined ||
+                        (compareKeys(key, range.lower) >= 0 &&
+                            compareKeys(key, range.upper) <= 0))
+                );
+            });
+        }
+        records.sort(
+            (a, b) =>
+                compareKeys(field(a), field(b)) ||
+                compareKeys(this.keyOf(store, a), this.keyOf(store, b))
+        );
+        if (direction === 'prev') records.reverse();
+        if (filter) records = records.filter(filter);
+        if (limit !== undefined) records = records.slice(0, limit);
+        return records.map(record => structuredClone(record));
+    }
+
+    async put(store: StoreName, record: object): Promise<IDBValidKey> {
+        let key: IDBValidKey = [];
+        this.applyChanges([store], () => {
+            key = this.putRecord(store, record);
+        });
+        return key;
+    }
+
+    async update<T extends object>(
+        store: StoreName,
+        key: IDBValidKey,
+        change: (current: unknown) => T
+    ): Promise<T> {
+        // No awaits between the read and the write, so nothing can land in
+        // between
+        const current = this.getTable(store).get(JSON.stringify(key));
+        const updated = change(
+            current === undefined ? undefined : structuredClone(current)
+        );
+        this.applyChanges([store], () => this.putRecord(store, updated));
+        return updated;
+    }
+
+    async write(operations: WriteOperation[]): Promise<void> {
+        const stores = [...new Set(operations.map(op => op.store))];
+        this.applyChanges(stores, () => {
+            operations.forEach(op => {
+                if (op.type === 'put') {
+                    this.putRecord(op.store, op.record);
+                } else {
+                    this.getTable(op.store).delete(JSON.stringify(op.key));
+                }
+            });
+        });
+    }
+
+    // Makes the changes, putting the tables back as they were if any of
+    // them (or saving them in onChange) fails
+    private applyChanges(stores: StoreName[], change: () => void): void {
+        const snapshots = stores.map(
+            store => [store, new Map(this.getTable(store))] as const
+        );
+        try {
+            change();
+            this.onChange(stores);
+        } catch (error) {
+            snapshots.forEach(([store, table]) =>
+                this.tables.set(store, table)
+            );
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,96 @@
+// src/services/backends/StorageBackend.ts
+import { STORE_NAMES } from '../migrations';
+
+export type StoreName = Exclude<
+    (typeof STORE_NAMES)[keyof typeof STORE_NAMES],
+    typeof STORE_NAMES.legacyCollection
+>;
+
+export type StorageBackendKind = 'indexedDB' | 'localStorage' | 'memory';
+
+type KeyPath = string | string[];
+
+/**
+ * How each store keys and indexes its records. IndexedDB gets this from
+ * MIGRATIONS; the other backends read it from here, so keep the two in step.
+ */
+export const STORE_KEYS: Record<
+    StoreName,
+    {
+        keyPath: KeyPath;
+        autoIncrement?: boolean;
+        indexes?: Record<string, KeyPath>; // Index name -> key path
+    }
+> = {
+    [STORE_NAMES.scores]: {
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: {
+            score: 'score',
+            date: 'date',
+            profileId: 'profileId',
+            profileScore: ['profileId', 'score'],
+        },
+    },
+    [STORE_NAMES.progress]: { keyPath: 'id', autoIncrement: true },
+    [STORE_NAMES.collection]: {
+        keyPath: ['profileId', 'flowerId'],
+        indexes: { profileId: 'profileId' },
+    },
+    [STORE_NAMES.questionBanks]: { keyPath: 'id' },
+    [STORE_NAMES.profiles]: { keyPath: 'id', autoIncrement: true },
+    [STORE_NAMES.quizStats]: { keyPath: 'profileId' },
+    [STORE_NAMES.achievements]: { keyPath: 'profileId' },
+    [STORE_NAMES.dailyResults]: {
+        keyPath: ['profileId', 'date'],
+        indexes: { profileId: 'profileId', dateScore: ['date', 'score'] },
+    },
+    [STORE_NAMES.replays]: {
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: {
+            profileDate: ['profileId', 'date'],
+            profileSeed: ['profileId', 'seed'],
+        },
+    },
+};
+
+/**
+ * Which records getAll returns, and in what order. Indexes are listed in
+ * STORE_KEYS (e.g. the "score" index orders by `score`).
+ */
+export interface RecordQuery {
+    index?: string; // Order by this index instead of the primary key
+    value?: IDBValidKey; // Only records whose index key equals this
+    // Only records whose index key is between these (inclusive)
+    range?: { lower: IDBValidKey; upper: IDBValidKey };
+    direction?: 'next' | 'prev';
+    filter?: (record: unknown) => boolean; // Applied before the limit
+    limit?: number;
+}
+
+export type WriteOperation =
+    | { type: 'put'; store: StoreName; record: object }
+    | { type: 'delete'; store: StoreName; key: IDBValidKey };
+
+/**
+ * Where StorageService keeps its records. Records go in and come out as
+ * plain objects (Dates included); StorageService validates what it reads.
+ */
+export interface StorageBackend {
+    readonly kind: StorageBackendKind;
+    readonly isPersistent: boolean; // False if data is lost on reload
+
+    get(store: StoreName, key: IDBValidKey): Promise<unknown>;
+    getAll(store: StoreName, query?: RecordQuery): Promise<unknown[]>;
+    // Returns the record's key (assigned if the store auto-increments)
+    put(store: StoreName, record: object): Promise<IDBValidKey>;
+    // Read-modify-write of one record that nothing can interleave with
+    update<T extends object>(
+        store: StoreName,
+        key: IDBValidKey,
+        change: (current: unknown) => T
+    ): Promise<T>;
+    // Applies every operation, or none of them
+    write(operations: WriteOperation[]): Promise<void>;
+}
@@ -0,0 +1,246 @@
+// src/services/migrations.test.ts
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    mock,
+    spyOn,
+    test,
+} from 'bun:test';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+    LATEST_DB_VERSION,
+    MIGRATIONS,
+    MigrationContext,
+    STORE_NAMES,
+    runMigrations,
+} from './migrations';
+import {
+    DEFAULT_PROFILE_ID,
+    FlowerCollectionEntrySchema,
+    GameProgressSchema,
+    GameScoreSchema,
+    PlayerProfileSchema,
+    parseRecord,
+    parseRecords,
+} from './storageSchemas';
+
+const DB_NAME = 'pollinationGame';
+
+// A fresh in-memory IndexedDB per test
+let indexedDB: IDBFactory;
+
+beforeEach(() => {
+    indexedDB = new IDBFactory();
+    spyOn(console, 'log').mockImplementation(() => {}); // Migration logs
+});
+
+afterEach(() => {
+    mock.restore();
+});
+
+function openDatabase(
+    version: number,
+    upgrade: (context: MigrationContext) => void
+): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, version);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = event => {
+            upgrade({
+                db: request.result,
+                transaction: request.transaction!,
+                oldVersion: event.oldVersion,
+            });
+        };
+    });
+}
+
+// Opens the database the way the game does, at the latest version
+const openLatest = () => openDatabase(LATEST_DB_VERSION, runMigrations);
+
+// Creates the database as an older build left it
+const openAtVersion = (version: number) =>
+    openDatabase(version, context =>
+        MIGRATIONS.filter(
+            step => step.version > context.oldVersion && step.version <= version
+        ).forEach(step => step.migrate(context))
+    );
+
+function putRecords(
+    db: IDBDatabase,
+    storeName: string,
+    records: object[]
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        records.forEach(record =>
+            transaction.objectStore(storeName).put(record)
+        );
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+}
+
+function getAllRecords(db: IDBDatabase, storeName: string): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+        const request = db
+            .transaction(storeName, 'readonly')
+            .objectStore(storeName)
+            .getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+const storeNames = (db: IDBDatabase) => [...db.objectStoreNames].sort();
+
+// Stores a database at the latest version has
+const LATEST_STORES = Object.values(STORE_NAMES)
+    .filter(name => name !== STORE_NAMES.legacyCollection)
+    .sort();
+
+const playedAt = new Date('2025-03-01T10:00:00Z');
+const OLD_SCORES = [
+    { score: 120, date: playedAt, completedFlowers: 6, totalTime: 90 },
+    { score: 45, date: playedAt, completedFlowers: 2, totalTime: 30 },
+];
+const OLD_PROGRESS = {
+    id: 1, // The single progress record
+    lastPlayed: playedAt,
+    settings: {
+        musicVolume: 0.3,
+        soundVolume: 0.8,
+        difficulty: 'Hard',
+        knowledgeNectar: false,
+    },
+};
+const OLD_DISCOVERIES = [
+    {
+        flowerId: 'sunflower',
+        collectionCount: 4,
+        firstDiscovered: playedAt,
+        lastCollected: playedAt,
+    },
+    {
+        flowerId: 'lavender',
+        collectionCount: 1,
+        firstDiscovered: playedAt,
+        lastCollected: playedAt,
+    },
+];
+
+describe('MIGRATIONS', () => {
+    test('are in version order, one step per version', () => {
+        MIGRATIONS.forEach((step, index) => {
+            expect(step.version).toBe(index + 1);
+        });
+    });
+
+    test('bring a fresh install to the latest version', async () => {
+        const db = await openLatest();
+
+        expect(db.version).toBe(LATEST_DB_VERSION);
+        expect(storeNames(db)).toEqual(LATEST_STORES);
+        // Nobody has played yet, so there's no default profile or data
+        expect(await getAllRecords(db, STORE_NAMES.profiles)).toEqual([]);
+        expect(await getAllRecords(db, STORE_NAMES.scores)).toEqual([]);
+        db.close();
+    });
+
+    test('upgrade a v1 database without losing scores or settings', async () => {
+        const oldDb = await openAtVersion(1);
+        await putRecords(oldDb, STORE_NAMES.scores, OLD_SCORES);
+        await putRecords(oldDb, STORE_NAMES.progress, [OLD_PROGRESS]);
+        oldDb.close();
+
+        const db = await openLatest();
+        expect(db.version).toBe(LATEST_DB_VERSION);
+        expect(storeNames(db)).toEqual(LATEST_STORES);
+
+        const scores = parseRecords(
+            GameScoreSchema,
+            await getAllRecords(db, STORE_NAMES.scores),
+            STORE_NAMES.scores
+        );
+        expect(scores).toHaveLength(OLD_SCORES.length);
+        scores.forEach((score, index) => {
+            expect(score).toMatchObject(OLD_SCORES[index]);
+            expect(score.profileId).toBe(DEFAULT_PROFILE_ID);
+        });
+
+        const [progress] = await getAllRecords(db, STORE_NAMES.progress);
+        expect(
+            parseRecord(GameProgressSchema, progress, STORE_NAMES.progress)
+        ).toEqual(OLD_PROGRESS);
+
+        // The old data now belongs to a default profile
+        const profiles = parseRecords(
+            PlayerProfileSchema,
+            await getAllRecords(db, STORE_NAMES.profiles),
+            STORE_NAMES.profiles
+        );
+        expect(profiles.map(profile => profile.id)).toEqual([
+            DEFAULT_PROFILE_ID,
+        ]);
+        db.close();
+    });
+
+    test('keep a v1 Easy player on the original tuning', async () => {
+        const oldDb = await openAtVersion(1);
+        await putRecords(oldDb, STORE_NAMES.progress, [
+            { ...OLD_PROGRESS, settings: { difficulty: 'Easy' } },
+        ]);
+        oldDb.close();
+
+        const db = await openLatest();
+        const [progress] = await getAllRecords(db, STORE_NAMES.progress);
+        expect(
+            parseRecord(GameProgressSchema, progress, STORE_NAMES.progress)
+                ?.settings?.difficulty
+        ).toBe('Normal');
+        db.close();
+    });
+
+    test('move v2 discoveries to the default profile', async () => {
+        const oldDb = await openAtVersion(2);
+        await putRecords(oldDb, STORE_NAMES.scores, OLD_SCORES);
+        await putRecords(oldDb, STORE_NAMES.progress, [OLD_PROGRESS]);
+        await putRecords(oldDb, STORE_NAMES.legacyCollection, OLD_DISCOVERIES);
+        oldDb.close();
+
+        const db = await openLatest();
+        expect(storeNames(db)).not.toContain(STORE_NAMES.legacyCollection);
+
+        const collection = parseRecords(
+            FlowerCollectionEntrySchema,
+            await getAllRecords(db, STORE_NAMES.collection),
+            STORE_NAMES.collection
+        );
+        expect(collection).toHaveLength(OLD_DISCOVERIES.length);
+        OLD_DISCOVERIES.forEach(entry => {
+            expect(collection).toContainEqual({
+                ...entry,
+                profileId: DEFAULT_PROFILE_ID,
+            });
+        });
+        expect(await getAllRecords(db, STORE_NAMES.scores)).toHaveLength(
+            OLD_SCORES.length
+        );
+        db.close();
+    });
+
+    test('leave an up-to-date database alone', async () => {
+        const db = await openLatest();
+        await putRecords(db, STORE_NAMES.scores, OLD_SCORES);
+        db.close();
+
+        const reopened = await openLatest();
+        expect(await getAllRecords(reopened, STORE_NAMES.scores)).toHaveLength(
+            OLD_SCORES.length
+        );
+        reopened.close();
+    });
+});
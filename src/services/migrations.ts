@@ -0,0 +1,230 @@
+// src/services/migrations.ts
+import { DEFAULT_PROFILE_ID, PlayerProfile } from './storageSchemas';
+
+export const STORE_NAMES = {
+    scores: 'scores',
+    progress: 'progress',
+    legacyCollection: 'collection', // Shared by everyone (v2-v3)
+    collection: 'flowerCollection',
+    questionBanks: 'questionBanks',
+    profiles: 'profiles',
+    quizStats: 'quizStats',
+    achievements: 'achievements',
+    dailyResults: 'dailyResults',
+    replays: 'replays',
+} as const;
+
+export interface MigrationContext {
+    db: IDBDatabase;
+    transaction: IDBTransaction; // The versionchange transaction
+    oldVersion: number; // 0 for a brand new database
+}
+
+/**
+ * One schema version. Steps run inside the upgrade transaction, so they
+ * must only queue requests on it (no awaiting other work), and they must
+ * cope with a brand new database as well as one holding old records.
+ */
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (context: MigrationContext) => void;
+}
+
+/**
+ * Runs `transform` over every record in a store, writing back what it returns
+ */
+function updateRecords(
+    transaction: IDBTransaction,
+    storeName: string,
+    transform: (record: Record<string, unknown>) => Record<string, unknown>
+): void {
+    const request = transaction.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.update(transform(cursor.value));
+        cursor.continue();
+    };
+}
+
+// In version order; append new steps, never edit a released one
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Scores and progress',
+        migrate: ({ db }) => {
+            const scoresStore = db.createObjectStore(STORE_NAMES.scores, {
+                keyPath: 'id',
+                autoIncrement: true,
+            });
+            scoresStore.createIndex('score', 'score', { unique: false });
+            scoresStore.createIndex('date', 'date', { unique: false });
+            db.createObjectStore(STORE_NAMES.progress, {
+                keyPath: 'id',
+                autoIncrement: true, // Although we only use id=1
+            });
+        },
+    },
+    {
+        version: 2,
+        description: 'Garden Journal discoveries',
+        migrate: ({ db }) => {
+            db.createObjectStore(STORE_NAMES.legacyCollection, {
+                keyPath: 'flowerId',
+            });
+        },
+    },
+    {
+        version: 3,
+        description: 'Imported question banks',
+        migrate: ({ db }) => {
+            db.createObjectStore(STORE_NAMES.questionBanks, {
+                keyPath: 'id',
+            });
+        },
+    },
+    {
+        version: 4,
+        description: 'Player profiles',
+        migrate: ({ db, transaction, oldVersion }) => {
+            db.createObjectStore(STORE_NAMES.profiles, {
+                keyPath: 'id',
+                autoIncrement: true,
+            });
+            transaction
+                .objectStore(STORE_NAMES.scores)
+                .createIndex('profileId', 'profileId', { unique: false });
+            const collectionStore = db.createObjectStore(
+                STORE_NAMES.collection,
+                { keyPath: ['profileId', 'flowerId'] }
+            );
+            collectionStore.createIndex('profileId', 'profileId', {
+                unique: false,
+            });
+
+            // Existing data goes to a default profile: the single progress
+            // record already uses its id, scores get tagged and discoveries
+            // move to the per-profile store
+            const profileId = DEFAULT_PROFILE_ID;
+            const legacyRequest = transaction
+                .objectStore(STORE_NAMES.legacyCollection)
+                .getAll();
+            legacyRequest.onsuccess = () => {
+                (legacyRequest.result as Record<string, unknown>[]).forEach(
+                    entry => collectionStore.put({ ...entry, profileId })
+                );
+                db.deleteObjectStore(STORE_NAMES.legacyCollection);
+            };
+            if (oldVersion === 0) return; // Nobody has played yet
+
+            const now = new Date();
+            transaction.objectStore(STORE_NAMES.profiles).put({
+                id: profileId,
+                name: 'Player 1',
+                color: 0xffc107,
+                createdAt: now,
+                lastPlayed: now,
+            } satisfies PlayerProfile);
+            updateRecords(transaction, STORE_NAMES.scores, score => ({
+                ...score,
+                profileId,
+            }));
+        },
+    },
+    {
+        version: 5,
+        description: 'Quiz stats per profile (were in localStorage)',
+        migrate: ({ db }) => {
+            // QuizService moves the localStorage copy over when it loads
+            db.createObjectStore(STORE_NAMES.quizStats, {
+                keyPath: 'profileId',
+            });
+        },
+    },
+    {
+        version: 6,
+        description: 'Achievements per profile',
+        migrate: ({ db }) => {
+            db.createObjectStore(STORE_NAMES.achievements, {
+                keyPath: 'profileId',
+            });
+        },
+    },
+    {
+        version: 7,
+        description: 'Index scores by profile for top-N queries',
+        migrate: ({ transaction }) => {
+            transaction
+                .objectStore(STORE_NAMES.scores)
+                .createIndex('profileScore', ['profileId', 'score'], {
+                    unique: false,
+                });
+        },
+    },
+    {
+        version: 8,
+        description: 'Daily Garden results',
+        migrate: ({ db }) => {
+            const dailyStore = db.createObjectStore(STORE_NAMES.dailyResults, {
+                keyPath: ['profileId', 'date'],
+            });
+            dailyStore.createIndex('profileId', 'profileId', { unique: false });
+            dailyStore.createIndex('dateScore', ['date', 'score'], {
+                unique: false,
+            });
+        },
+    },
+    {
+        version: 9,
+        description: 'Recorded runs for replays and ghosts',
+        migrate: ({ db }) => {
+            const replaysStore = db.createObjectStore(STORE_NAMES.replays, {
+                keyPath: 'id',
+                autoIncrement: true,
+            });
+            replaysStore.createIndex('profileDate', ['profileId', 'date'], {
+                unique: false,
+            });
+            replaysStore.createIndex('profileSeed', ['profileId', 'seed'], {
+                unique: false,
+            });
+        },
+    },
+    {
+        version: 10,
+        description: 'Keep existing players on the original tuning',
+        migrate: ({ transaction, oldVersion }) => {
+            // v1 databases come from before difficulty profiles, when the
+            // only saved label was 'Easy' and it played what is now Normal
+            if (oldVersion !== 1) return;
+            updateRecords(transaction, STORE_NAMES.progress, progress => {
+                const settings = progress.settings as
+                    Record<string, unknown> | undefined;
+                return settings?.difficulty === 'Easy'
+                    ? {
+                          ...progress,
+                          settings: { ...settings, difficulty: 'Normal' },
+                      }
+                    : progress;
+            });
+        },
+    },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a database from `oldVersion` up to the latest version, one step at
+ * a time (called from `onupgradeneeded`)
+ */
+export function runMigrations(context: MigrationContext): void {
+    MIGRATIONS.filter(step => step.version > context.oldVersion).forEach(
+        step => {
+            console.log(
+                `Migrating database to v${step.version}: ${step.description}`
+            );
+            step.migrate(context);
+        }
+    );
+}
@@ -0,0 +1,101 @@
+// src/services/storageSchemas.test.ts
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    Mock,
+    mock,
+    spyOn,
+    test,
+} from 'bun:test';
+import {
+    GameProgressSchema,
+    GameScoreSchema,
+    parseRecord,
+    parseRecords,
+} from './storageSchemas';
+
+const score = {
+    id: 1,
+    profileId: 1,
+    score: 80,
+    date: new Date('2025-03-01T10:00:00Z'),
+    completedFlowers: 4,
+    totalTime: 60,
+};
+
+// Rejections are logged
+let warn: Mock<typeof console.warn>;
+
+beforeEach(() => {
+    warn = spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    mock.restore();
+});
+
+describe('parseRecord', () => {
+    test('returns a valid record', () => {
+        expect(parseRecord(GameScoreSchema, score, 'scores')).toEqual(score);
+    });
+
+    test('rejects a record with a missing or mistyped field', () => {
+        expect(
+            parseRecord(
+                GameScoreSchema,
+                { ...score, score: undefined },
+                'scores'
+            )
+        ).toBeNull();
+        expect(
+            parseRecord(GameScoreSchema, { ...score, score: '80' }, 'scores')
+        ).toBeNull();
+        // Dates come back from IndexedDB as Dates, never as strings
+        expect(
+            parseRecord(
+                GameScoreSchema,
+                { ...score, date: score.date.toISOString() },
+                'scores'
+            )
+        ).toBeNull();
+    });
+
+    test('rejects records that are not objects', () => {
+        expect(
+            parseRecord(GameProgressSchema, undefined, 'progress')
+        ).toBeNull();
+        expect(
+            parseRecord(GameProgressSchema, 'progress', 'progress')
+        ).toBeNull();
+    });
+
+    test('rejects invalid settings inside progress', () => {
+        const progress = {
+            id: 1,
+            lastPlayed: new Date(),
+            settings: { musicVolume: 'loud' },
+        };
+        expect(
+            parseRecord(GameProgressSchema, progress, 'progress')
+        ).toBeNull();
+    });
+
+    test('logs what was rejected', () => {
+        parseRecord(GameScoreSchema, {}, 'scores');
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain('"scores"');
+    });
+});
+
+describe('parseRecords', () => {
+    test('drops invalid records and keeps the rest in order', () => {
+        const second = { ...score, id: 2, score: 30 };
+        const records = [score, { ...score, id: 3, date: null }, null, second];
+        expect(parseRecords(GameScoreSchema, records, 'scores')).toEqual([
+            score,
+            second,
+        ]);
+    });
+});
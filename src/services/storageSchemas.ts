@@ -0,0 +1,189 @@
+// src/services/storageSchemas.ts
+// Shapes of the records StorageService keeps in IndexedDB. Records are
+// checked when read back, so data written by an older (or newer) build
+// can't crash a scene.
+import { z } from 'zod';
+import { QuizQuestion, QuizStatsSchema } from '@/game/data/quizSchema';
+import { KeyBindingsSchema } from '@/game/data/controls';
+
+// Data saved before profiles existed belongs to this profile
+export const DEFAULT_PROFILE_ID = 1;
+
+export const GameScoreSchema = z.object({
+    id: z.number().optional(),
+    profileId: z.number().optional(), // Player who set the score
+    score: z.number(),
+    date: z.date(),
+    completedFlowers: z.number(),
+    totalTime: z.number(),
+    // Run details; scores saved before these were recorded don't have them
+    wave: z.number().optional(),
+    difficulty: z.string().optional(),
+    mode: z.string().optional(),
+    bonusAnswered: z.number().optional(),
+    bonusCorrect: z.number().optional(),
+    profileName: z.string().optional(), // Name when the score was set
+    seed: z.number().optional(), // Replays the same garden
+});
+
+export const GameSettingsSchema = z.object({
+    musicVolume: z.number().optional(),
+    soundVolume: z.number().optional(),
+    difficulty: z.string().optional(),
+    knowledgeNectar: z.boolean().optional(),
+    ghostBee: z.boolean().optional(), // Race your best run on the same garden
+    keyBindings: KeyBindingsSchema.optional(),
+    touchControls: z.string().optional(), // Joystick, D-Pad or Tap to Fly
+});
+
+export const GameProgressSchema = z.object({
+    id: z.number().optional(),
+    currentLevel: z.number().optional(),
+    lastPlayed: z.date(),
+    settings: GameSettingsSchema.optional(),
+});
+
+export const FlowerCollectionEntrySchema = z.object({
+    profileId: z.number(),
+    flowerId: z.string(),
+    collectionCount: z.number().int().min(0),
+    firstDiscovered: z.date(),
+    lastCollected: z.date(),
+});
+
+export const PlayerProfileSchema = z.object({
+    id: z.number().optional(),
+    name: z.string().min(1),
+    color: z.number().int(), // Avatar color (0xRRGGBB)
+    createdAt: z.date(),
+    lastPlayed: z.date(),
+});
+
+export const QuestionBankRecordSchema = z.object({
+    id: z.string(),
+    name: z.string(), // File name it was imported from
+    format: z.string(),
+    importedAt: z.date(),
+    // Checked one question at a time by loadStoredQuestionBanks, so one bad
+    // question doesn't throw away the whole bank
+    questions: z.array(z.custom<QuizQuestion>()),
+});
+
+export const QuizStatsRecordSchema = QuizStatsSchema.extend({
+    profileId: z.number(), // One record per profile
+});
+
+// Lifetime totals achievements are measured against
+export const AchievementStatsSchema = z.object({
+    pollinations: z.number().default(0),
+    perfectChallenges: z.number().default(0),
+    speciesDiscovered: z.number().default(0),
+    quizStreak: z.number().default(0), // Correct bonus answers in a row
+    bestQuizStreak: z.number().default(0),
+});
+
+export const AchievementRecordSchema = z.object({
+    profileId: z.number(), // One record per profile
+    unlocked: z.record(z.string(), z.date()), // Achievement id -> unlock time
+    stats: AchievementStatsSchema,
+});
+
+// One day's Daily Garden attempt. Saved when the run starts, so leaving
+// early still uses up the day's attempt.
+export const DailyResultSchema = z.object({
+    profileId: z.number(),
+    date: z.string(), // Local day, YYYY-MM-DD
+    profileName: z.string().optional(),
+    score: z.number(),
+    wave: z.number(),
+    completedFlowers: z.number(),
+    bonusAnswered: z.number(),
+    bonusCorrect: z.number(),
+    finished: z.boolean(), // False until the run reaches GameOver
+    playedAt: z.date(),
+});
+
+// A recorded run: enough to play it back on the same garden. Inputs are
+// run-length encoded as [input code, milliseconds] pairs and the path
+// as [x, y] pairs, both over the time the bee could move.
+export const ReplayRecordSchema = z.object({
+    id: z.number().optional(),
+    profileId: z.number(),
+    date: z.date(),
+    seed: z.number(),
+    mode: z.string(),
+    difficulty: z.string(),
+    knowledgeNectar: z.boolean(), // Facts change when challenges can start
+    score: z.number(),
+    wave: z.number(),
+    inputs: z.array(z.number()),
+    path: z.array(z.number()),
+    pathInterval: z.number(), // Milliseconds between path samples
+    questions: z.array(z.string()), // Bonus question ids, in the order asked
+});
+
+// Everything saved for one profile, as exported to a save file
+export const ProfileDataSchema = z.object({
+    scores: z.array(GameScoreSchema),
+    progress: GameProgressSchema.nullable(),
+    collection: z.array(FlowerCollectionEntrySchema),
+});
+
+// How imported data combines with what's already saved
+export type ImportMode = 'merge' | 'replace';
+
+// Narrows a leaderboard to runs played on this difficulty and/or mode
+export interface ScoreFilter {
+    difficulty?: string;
+    mode?: string;
+}
+
+export type GameScore = z.infer<typeof GameScoreSchema>;
+export type GameProgress = z.infer<typeof GameProgressSchema>;
+export type FlowerCollectionEntry = z.infer<typeof FlowerCollectionEntrySchema>;
+export type PlayerProfile = z.infer<typeof PlayerProfileSchema>;
+export type QuestionBankRecord = z.infer<typeof QuestionBankRecordSchema>;
+export type QuizStatsRecord = z.infer<typeof QuizStatsRecordSchema>;
+export type AchievementStats = z.infer<typeof AchievementStatsSchema>;
+export type AchievementRecord = z.infer<typeof AchievementRecordSchema>;
+export type DailyResult = z.infer<typeof DailyResultSchema>;
+export type ReplayRecord = z.infer<typeof ReplayRecordSchema>;
+export type ProfileData = z.infer<typeof ProfileDataSchema>;
+
+// JSON has no dates, so they're written as ISO strings; pass this to
+// JSON.parse to turn them back into Dates
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+export const reviveDates = (_key: string, value: unknown) =>
+    typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+
+/**
+ * Returns the record if it matches the schema, otherwise logs and returns null
+ */
+export function parseRecord<T>(
+    schema: z.ZodType<T>,
+    record: unknown,
+    storeName: string
+): T | null {
+    const result = schema.safeParse(record);
+    if (result.success) return result.data;
+
+    console.warn(
+        `Ignoring invalid record in "${storeName}":`,
+        z.prettifyError(result.error),
+        record
+    );
+    return null;
+}
+
+/**
+ * Keeps the records that match the schema, logging the rest
+ */
+export function parseRecords<T>(
+    schema: z.ZodType<T>,
+    records: unknown[],
+    storeName: string
+): T[] {
+    return records
+        .map(record => parseRecord(schema, record, storeName))
+        .filter((record): record is T => record !== null);
+}